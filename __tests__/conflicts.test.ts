@@ -0,0 +1,89 @@
+import { findConflicts, ProposedEvent } from '../src/utils/conflicts';
+import { Calendar, Event } from '../src/types';
+
+const calendar = (id: string, is_active = true) => ({ id, name: id, is_active } as Calendar);
+
+const makeEvent = (overrides: Partial<Event>): Event => ({
+  id: 'e1',
+  calendar: calendar('work'),
+  title: 'Existing',
+  start_time: '2025-03-10T09:00:00.000Z',
+  end_time: '2025-03-10T10:00:00.000Z',
+  all_day: false,
+  status: 'confirmed',
+  is_private: false,
+  ...overrides,
+} as Event);
+
+const proposed = (overrides: Partial<ProposedEvent> = {}): ProposedEvent => ({
+  calendarId: 'work',
+  start_time: '2025-03-10T09:30:00.000Z',
+  end_time: '2025-03-10T10:30:00.000Z',
+  all_day: false,
+  ...overrides,
+});
+
+describe('findConflicts', () => {
+  test('finds overlapping events but not ones that merely touch', () => {
+    const events = [
+      makeEvent({ id: 'a' }),
+      makeEvent({ id: 'b', start_time: '2025-03-10T10:30:00.000Z', end_time: '2025-03-10T11:00:00.000Z' }),
+    ];
+    expect(findConflicts(proposed(), events).map(c => c.event.id)).toEqual(['a']);
+  });
+
+  test('ignores cancelled events, the event being edited and inactive calendars', () => {
+    const events = [
+      makeEvent({ id: 'a', status: 'cancelled' }),
+      makeEvent({ id: 'self' }),
+      makeEvent({ id: 'c', calendar: calendar('old', false) }),
+    ];
+    expect(findConflicts(proposed({ id: 'self' }), events)).toEqual([]);
+  });
+
+  test('limits the check to the proposed calendar when asked', () => {
+    const events = [makeEvent({ id: 'a' }), makeEvent({ id: 'b', calendar: calendar('home') })];
+    expect(findConflicts(proposed(), events, 'calendar').map(c => c.event.id)).toEqual(['a']);
+    expect(findConflicts(proposed(), events, 'all').map(c => c.event.id)).toEqual(['a', 'b']);
+  });
+
+  test('all-day events only clash with other all-day events', () => {
+    const allDay = makeEvent({
+      id: 'holiday',
+      all_day: true,
+      start_time: '2025-03-10T00:00:00',
+      end_time: '2025-03-10T23:59:59',
+    });
+    expect(findConflicts(proposed(), [allDay])).toEqual([]);
+    expect(
+      findConflicts(
+        proposed({ all_day: true, start_time: '2025-03-10T00:00:00', end_time: '2025-03-10T23:59:59' }),
+        [allDay]
+      ).map(c => c.event.id)
+    ).toEqual(['holiday']);
+  });
+
+  test('expands repeating events on both sides', () => {
+    const weekly = makeEvent({
+      id: 'standup',
+      start_time: '2025-03-03T09:00:00.000Z',
+      end_time: '2025-03-03T10:00:00.000Z',
+      recurrence_rule: 'FREQ=WEEKLY;COUNT=4',
+    });
+    // The existing series' second occurrence lands on the proposed slot
+    expect(findConflicts(proposed(), [weekly]).map(c => c.start)).toEqual(['2025-03-10T09:00:00.000Z']);
+
+    // A new daily event starting the day before runs into the single existing event
+    const daily = proposed({
+      start_time: '2025-03-09T09:30:00.000Z',
+      end_time: '2025-03-09T10:00:00.000Z',
+      recurrence_rule: 'FREQ=DAILY;COUNT=3',
+    });
+    expect(findConflicts(daily, [makeEvent({ id: 'a' })]).map(c => c.event.id)).toEqual(['a']);
+  });
+
+  test('an edited occurrence ignores the rest of its own series', () => {
+    const weekly = makeEvent({ id: 'standup', recurrence_rule: 'FREQ=WEEKLY;COUNT=4' });
+    expect(findConflicts(proposed({ id: 'standup::2025-03-10T09:00:00.000Z' }), [weekly])).toEqual([]);
+  });
+});
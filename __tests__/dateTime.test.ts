@@ -0,0 +1,80 @@
+import {
+  addMonths,
+  eventDateKey,
+  eventDayRange,
+  formatTime,
+  joinDateTime,
+  minutesSinceMidnight,
+  monthRange,
+  parseDateKey,
+  resolveTimeZone,
+  splitDateTime,
+  toDateKey,
+} from '../src/utils/dateTime';
+import { layoutDayEvents, overlapsDay } from '../src/utils/timelineLayout';
+import { Event } from '../src/types';
+
+describe('dateTime', () => {
+  const event = (start: string, end: string, allDay = false) => ({
+    id: '1',
+    title: 'Dinner',
+    start_time: start,
+    end_time: end,
+    all_day: allDay,
+  } as Event);
+
+  test('an evening event west of UTC stays on its local day', () => {
+    // 7 PM in New York is already the next day in UTC
+    const dinner = event('2025-03-15T23:00:00Z', '2025-03-16T01:00:00Z');
+    expect(eventDateKey(dinner, 'America/New_York')).toBe('2025-03-15');
+    expect(eventDateKey(dinner, 'Europe/Berlin')).toBe('2025-03-16');
+    expect(formatTime(dinner.start_time, 'America/New_York')).toBe('7:00 PM');
+  });
+
+  test('all-day events keep the dates they were written with', () => {
+    const trip = event('2025-03-15T00:00:00', '2025-03-17T23:59:59', true);
+    expect(eventDayRange(trip, 'Pacific/Auckland')).toEqual({ start: '2025-03-15', end: '2025-03-17' });
+    expect(eventDayRange(trip, 'America/Los_Angeles')).toEqual({ start: '2025-03-15', end: '2025-03-17' });
+  });
+
+  test('an event ending at midnight does not spill into the next day', () => {
+    const late = event('2025-03-15T21:00:00Z', '2025-03-16T00:00:00Z');
+    expect(eventDayRange(late, 'UTC')).toEqual({ start: '2025-03-15', end: '2025-03-15' });
+  });
+
+  test('form fields round-trip through UTC, including across a DST change', () => {
+    // US clocks went forward on 9 March 2025
+    expect(joinDateTime('2025-03-08', '09:30', 'America/New_York')).toBe('2025-03-08T14:30:00.000Z');
+    expect(joinDateTime('2025-03-10', '09:30', 'America/New_York')).toBe('2025-03-10T13:30:00.000Z');
+    expect(splitDateTime('2025-03-10T13:30:00.000Z', 'America/New_York')).toEqual({ date: '2025-03-10', time: '09:30' });
+    expect(splitDateTime('2025-03-10T13:30:00.000Z', 'Asia/Tokyo')).toEqual({ date: '2025-03-10', time: '22:30' });
+  });
+
+  test('day boundaries and times of day follow the zone', () => {
+    expect(parseDateKey('2025-07-01', 'Europe/Berlin').toISOString()).toBe('2025-06-30T22:00:00.000Z');
+    expect(toDateKey(new Date('2025-06-30T22:30:00Z'), 'Europe/Berlin')).toBe('2025-07-01');
+    expect(minutesSinceMidnight(new Date('2025-06-30T22:30:00Z'), 'Europe/Berlin')).toBe(30);
+  });
+
+  test('months step across year boundaries', () => {
+    expect(addMonths('2025-12', 1)).toBe('2026-01');
+    expect(addMonths('2025-01', -1)).toBe('2024-12');
+    expect(monthRange('2025-02')).toEqual({ startDate: '2025-02-01', endDate: '2025-03-01' });
+  });
+
+  test('the timeline places events on the zone\'s hour grid', () => {
+    const standup = event('2025-03-15T14:00:00Z', '2025-03-15T14:30:00Z');
+    const [block] = layoutDayEvents([standup], '2025-03-15', 'America/New_York');
+    expect(block.startMinutes).toBe(10 * 60);
+    expect(block.endMinutes).toBe(10 * 60 + 30);
+    expect(overlapsDay(standup, '2025-03-16', 'Asia/Tokyo')).toBe(false);
+    expect(overlapsDay(standup, '2025-03-15', 'Asia/Tokyo')).toBe(true);
+  });
+
+  test('falls back to the device zone when the configured one is unusable', () => {
+    const device = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+    expect(resolveTimeZone('Not/AZone', undefined)).toBe(device);
+    expect(resolveTimeZone(null, 'Asia/Tokyo')).toBe('Asia/Tokyo');
+  });
+});
@@ -0,0 +1,160 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { configureStore } from '@reduxjs/toolkit';
+import eventsReducer, {
+  createEvent,
+  eventSynced,
+  fetchEvents,
+  fetchEventsInRange,
+  fetchRecurringEvents,
+  isRangeFresh,
+} from '../src/store/slices/eventsSlice';
+import outboxService from '../src/services/outbox';
+import { CACHE_CONFIG } from '../src/constants/config';
+import apiService from '../src/services/api';
+import { Event } from '../src/types';
+
+const makeEvent = (overrides: Partial<Event>): Event => ({
+  id: 'e1',
+  calendar: { id: 'work', name: 'Work', is_active: true },
+  title: 'Event',
+  start_time: '2025-03-10T09:00:00.000Z',
+  end_time: '2025-03-10T10:00:00.000Z',
+  all_day: false,
+  status: 'confirmed',
+  is_private: false,
+  ...overrides,
+} as Event);
+
+const makeStore = () => configureStore({ reducer: { events: eventsReducer } });
+
+describe('eventsSlice', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('series that began before the loaded months are fetched and kept alongside them', async () => {
+    const weekly = makeEvent({ id: 'weekly', start_time: '2024-01-01T09:00:00.000Z', end_time: '2024-01-01T10:00:00.000Z', recurrence_rule: 'FREQ=WEEKLY' });
+    const lunch = makeEvent({ id: 'lunch', start_time: '2025-03-12T12:00:00.000Z', end_time: '2025-03-12T13:00:00.000Z' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(apiService, 'getEvents').mockResolvedValue([lunch]);
+    const getRecurring = jest.spyOn(apiService, 'getRecurringEvents').mockResolvedValue([weekly]);
+
+    const store = makeStore();
+    await store.dispatch(fetchEventsInRange({ startDate: '2025-03-01', endDate: '2025-04-01' }));
+    await store.dispatch(fetchRecurringEvents());
+    // Once per session - later screens reuse what's cached
+    await store.dispatch(fetchRecurringEvents());
+
+    expect(getRecurring).toHaveBeenCalledTimes(1);
+    expect(store.getState().events.events.map(event => event.id).sort()).toEqual(['lunch', 'weekly']);
+
+    // Refetching a month that doesn't contain the series' start leaves it alone
+    await store.dispatch(fetchEventsInRange({ startDate: '2025-03-01', endDate: '2025-04-01', force: true }));
+    expect(store.getState().events.events.map(event => event.id)).toContain('weekly');
+  });
+
+  test('a forced reload drops series the server no longer has', async () => {
+    const daily = makeEvent({ id: 'daily', recurrence_rule: 'FREQ=DAILY' });
+    const weekly = makeEvent({ id: 'weekly', recurrence_rule: 'FREQ=WEEKLY' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(apiService, 'getRecurringEvents')
+      .mockResolvedValueOnce([daily, weekly])
+      .mockResolvedValueOnce([weekly]);
+
+    const store = makeStore();
+    await store.dispatch(fetchRecurringEvents());
+    await store.dispatch(fetchRecurringEvents({ force: true }));
+
+    expect(store.getState().events.events.map(event => event.id)).toEqual(['weekly']);
+  });
+
+  test('a refetch keeps offline edits and deletes that have not replayed yet', async () => {
+    const edited = makeEvent({ id: 'edited', title: 'Moved offline' });
+    const deleted = makeEvent({ id: 'deleted' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(outboxService, 'pendingWrites').mockReturnValue({
+      updated: new Set(['edited']),
+      deleted: new Set(['deleted']),
+    });
+    const serverCopies = [{ ...edited, title: 'Old title' }, deleted, makeEvent({ id: 'other' })];
+    jest.spyOn(apiService, 'getEvents').mockResolvedValue(serverCopies);
+
+    const store = makeStore();
+    store.dispatch(eventSynced({ event: edited }));
+
+    await store.dispatch(fetchEvents({}));
+    expect(store.getState().events.events.map(event => [event.id, event.title])).toEqual([
+      ['edited', 'Moved offline'],
+      ['other', 'Event'],
+    ]);
+
+    await store.dispatch(fetchEventsInRange({ startDate: '2025-03-01', endDate: '2025-04-01' }));
+    expect(store.getState().events.events.map(event => event.id)).toEqual(['edited', 'other']);
+    expect(store.getState().events.events[0].title).toBe('Moved offline');
+  });
+
+  test('creating an event leaves the loaded list on screen', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(apiService, 'createEvent').mockResolvedValue(makeEvent({ id: 'lunch', title: 'Lunch' }));
+
+    const store = makeStore();
+    const loading: boolean[] = [];
+    store.subscribe(() => loading.push(store.getState().events.isLoading));
+    await store.dispatch(createEvent({ title: 'Lunch' }));
+
+    expect(loading).not.toContain(true);
+    expect(store.getState().events.events.map(event => event.id)).toEqual(['lunch']);
+  });
+
+  describe('range cache', () => {
+    const now = Date.parse('2025-03-15T12:00:00Z');
+    const minutesAgo = (minutes: number) => now - minutes * 60 * 1000;
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    test('adjacent and overlapping ranges cover a span none of them holds alone', () => {
+      const loaded = {
+        '2025-03-01|2025-04-01': minutesAgo(1),
+        '2025-04-01|2025-05-01': minutesAgo(1),
+        '2025-04-20|2025-05-10': minutesAgo(1),
+      };
+      expect(isRangeFresh(loaded, '2025-03-15', '2025-04-15')).toBe(true);
+      expect(isRangeFresh(loaded, '2025-03-01', '2025-05-10')).toBe(true);
+      expect(isRangeFresh(loaded, '2025-02-20', '2025-03-10')).toBe(false);
+      expect(isRangeFresh(loaded, '2025-05-01', '2025-05-20')).toBe(false);
+    });
+
+    test('a gap between ranges or an open-ended range is handled', () => {
+      const gap = { '2025-03-01|2025-03-10': minutesAgo(1), '2025-03-11|2025-04-01': minutesAgo(1) };
+      expect(isRangeFresh(gap, '2025-03-05', '2025-03-20')).toBe(false);
+      expect(isRangeFresh({ '|': minutesAgo(1) }, '2020-01-01', '2030-01-01')).toBe(true);
+      expect(isRangeFresh({ '2025-03-01|': minutesAgo(1) }, '2025-06-01', '2025-07-01')).toBe(true);
+    });
+
+    test('stale ranges no longer count and old bookkeeping is dropped on the next fetch', async () => {
+      const staleMinutes = CACHE_CONFIG.STALE_AFTER / 60000 + 1;
+      const loaded = {
+        '2025-03-01|2025-03-15': minutesAgo(1),
+        '2025-03-15|2025-04-01': minutesAgo(staleMinutes),
+      };
+      expect(isRangeFresh(loaded, '2025-03-01', '2025-03-15')).toBe(true);
+      expect(isRangeFresh(loaded, '2025-03-01', '2025-04-01')).toBe(false);
+
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(apiService, 'getEvents').mockResolvedValue([]);
+      const store = makeStore();
+      // Loaded over a week ago, then again now
+      (Date.now as jest.Mock).mockReturnValue(now - CACHE_CONFIG.MAX_AGE - 1);
+      await store.dispatch(fetchEventsInRange({ startDate: '2025-01-01', endDate: '2025-02-01' }));
+      (Date.now as jest.Mock).mockReturnValue(now);
+      await store.dispatch(fetchEventsInRange({ startDate: '2025-03-01', endDate: '2025-04-01' }));
+
+      expect(Object.keys(store.getState().events.loadedRanges)).toEqual(['2025-03-01|2025-04-01']);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { findFreeSlots } from '../src/utils/freeSlots';
+import { Event } from '../src/types';
+
+const makeEvent = (id: string, start: string, end: string, overrides: Partial<Event> = {}): Event => ({
+  id,
+  calendar: { id: 'work', is_active: true },
+  title: id,
+  start_time: start,
+  end_time: end,
+  all_day: false,
+  status: 'confirmed',
+  ...overrides,
+} as Event);
+
+const base = {
+  startDate: '2025-03-10',  // a Monday
+  endDate: '2025-03-10',
+  durationMinutes: 60,
+  timeZone: 'UTC',
+  workingHours: { start: '09:00', end: '17:00' },
+};
+
+const times = (slots: { start: string; end: string }[]) =>
+  slots.map(slot => `${slot.start.slice(11, 16)}-${slot.end.slice(11, 16)}`);
+
+describe('findFreeSlots', () => {
+  test('returns the gaps between events inside working hours', () => {
+    const events = [
+      makeEvent('standup', '2025-03-10T09:00:00Z', '2025-03-10T09:30:00Z'),
+      makeEvent('review', '2025-03-10T10:00:00Z', '2025-03-10T12:00:00Z'),
+      makeEvent('overlap', '2025-03-10T11:30:00Z', '2025-03-10T13:00:00Z'),
+    ];
+    // The half hour after standup is too short for an hour-long meeting
+    expect(times(findFreeSlots(events, base))).toEqual(['13:00-17:00']);
+  });
+
+  test('ignores cancelled and all-day events and rounds starts to the quarter hour', () => {
+    const events = [
+      makeEvent('cancelled', '2025-03-10T09:00:00Z', '2025-03-10T17:00:00Z', { status: 'cancelled' }),
+      makeEvent('holiday', '2025-03-10T00:00:00', '2025-03-10T23:59:59', { all_day: true }),
+      makeEvent('call', '2025-03-10T09:00:00Z', '2025-03-10T10:07:00Z'),
+    ];
+    expect(times(findFreeSlots(events, base))).toEqual(['10:15-17:00']);
+  });
+
+  test('skips weekends and past times when asked', () => {
+    const slots = findFreeSlots([], {
+      ...base,
+      endDate: '2025-03-16',
+      weekdaysOnly: true,
+      now: new Date('2025-03-10T15:50:00Z'),
+    });
+    expect(slots.map(slot => slot.date)).toEqual([
+      '2025-03-10', '2025-03-11', '2025-03-12', '2025-03-13', '2025-03-14',
+    ]);
+    expect(times(slots)[0]).toBe('16:00-17:00');
+  });
+
+  test('searches the whole day in the user zone without working hours', () => {
+    const slots = findFreeSlots(
+      [makeEvent('lunch', '2025-03-10T16:00:00Z', '2025-03-10T17:00:00Z')],
+      { ...base, workingHours: null, timeZone: 'America/New_York' }
+    );
+    // Midnight to midnight in New York (UTC-4 in March after DST starts)
+    expect(slots.map(slot => [slot.start, slot.end])).toEqual([
+      ['2025-03-10T04:00:00.000Z', '2025-03-10T16:00:00.000Z'],
+      ['2025-03-10T17:00:00.000Z', '2025-03-11T04:00:00.000Z'],
+    ]);
+  });
+
+  test('expands repeating events', () => {
+    const daily = makeEvent('focus', '2025-03-09T09:00:00Z', '2025-03-09T16:30:00Z', {
+      recurrence_rule: 'FREQ=DAILY;COUNT=5',
+    });
+    expect(findFreeSlots([daily], base)).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { checkInEntry, describeHistoryEntry, diffGoal, rolloverEntry, trimGoalHistory } from '../src/utils/goalHistory';
+import { Goal } from '../src/types';
+
+describe('goal history', () => {
+  const at = '2026-03-02T09:00:00.000Z';
+  const goal: Goal = {
+    id: 'g1',
+    title: 'Read books',
+    frequency: 'monthly',
+    priority: 'medium',
+    status: 'active',
+    target_value: 4,
+    current_value: 1,
+    unit: 'books',
+    start_date: '2026-03-01',
+    color: '#2196F3',
+    is_active: true,
+    is_completed: false,
+    progress_percentage: 25,
+    created_at: '2026-03-01T08:00:00.000Z',
+    updated_at: '2026-03-01T08:00:00.000Z',
+  };
+
+  test('a new goal gets a created entry', () => {
+    const entries = diffGoal(undefined, goal, at);
+    expect(entries.map(entry => entry.type)).toEqual(['created']);
+    expect(entries[0]).toMatchObject({ goalId: 'g1', timestamp: at });
+  });
+
+  test('records progress and target changes with both values', () => {
+    const entries = diffGoal(goal, { ...goal, current_value: 3, target_value: 5 }, at);
+    expect(entries.map(({ type, from, to }) => ({ type, from, to }))).toEqual([
+      { type: 'progress', from: 1, to: 3 },
+      { type: 'target', from: 4, to: 5 },
+    ]);
+    expect(describeHistoryEntry(entries[0], goal.unit)).toBe('Progress 1 books → 3 books (+2)');
+  });
+
+  test('completion toggles replace the matching status change', () => {
+    const completed = { ...goal, is_completed: true, status: 'completed' as const };
+    expect(diffGoal(goal, completed, at).map(entry => entry.type)).toEqual(['completed']);
+    expect(diffGoal(completed, goal, at).map(entry => entry.type)).toEqual(['reopened']);
+    expect(diffGoal(goal, { ...goal, status: 'paused' }, at).map(entry => entry.type)).toEqual(['status']);
+  });
+
+  test('unchanged fields and title edits are not recorded', () => {
+    expect(diffGoal(goal, { ...goal, title: 'Read more books' }, at)).toEqual([]);
+    expect(diffGoal(goal, { id: 'g1' }, at)).toEqual([]);
+  });
+
+  test('entry ids are unique within one change', () => {
+    const entries = diffGoal(goal, { ...goal, current_value: 4, is_completed: true }, at);
+    expect(new Set(entries.map(entry => entry.id)).size).toBe(entries.length);
+  });
+
+  test('trimming past the cap drops the oldest check-ins but keeps every rollover', () => {
+    const checkIns = (from: number, count: number) => Array.from({ length: count }, (_, i) =>
+      checkInEntry(goal, 1, undefined, `2026-03-${String(from + i).padStart(2, '0')}T09:00:00.000Z`)
+    );
+    const rollover = rolloverEntry(goal, '2026-03-01', 'completed', '2026-03-02T00:00:00.000Z');
+    const other = checkInEntry({ ...goal, id: 'g2' }, 1, undefined, at);
+    const entries = [...checkIns(1, 2), rollover, other, ...checkIns(3, 3)];
+
+    const trimmed = trimGoalHistory(entries, 'g1', 3);
+    expect(trimmed).toEqual([rollover, other, ...entries.slice(4)]);
+    expect(trimGoalHistory(trimmed, 'g1', 3)).toBe(trimmed);
+  });
+});
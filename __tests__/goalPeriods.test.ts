@@ -0,0 +1,121 @@
+import {
+  goalPeriods,
+  goalStreak,
+  nextPeriodStart,
+  pendingRollover,
+  periodStart,
+  rolloverUpdates,
+} from '../src/utils/goalPeriods';
+import { Goal, GoalHistoryEntry } from '../src/types';
+
+describe('goal periods', () => {
+  const tz = 'UTC';
+  const goal: Goal = {
+    id: 'g1',
+    title: 'Meditate',
+    frequency: 'daily',
+    priority: 'medium',
+    status: 'active',
+    current_value: 0,
+    start_date: '2026-03-01',
+    color: '#4CAF50',
+    is_active: true,
+    is_completed: false,
+    progress_percentage: 0,
+    created_at: '2026-03-01T08:00:00.000Z',
+    updated_at: '2026-03-01T08:00:00.000Z',
+  };
+
+  let n = 0;
+  const entry = (day: string, type: GoalHistoryEntry['type'], to?: string): GoalHistoryEntry => ({
+    id: `e${n++}`,
+    goalId: 'g1',
+    type,
+    timestamp: `${day}T12:00:00.000Z`,
+    to,
+  });
+
+  test('periods start on the first day of their day, Monday week, month or year', () => {
+    expect(periodStart('2026-03-05', 'weekly')).toBe('2026-03-02');
+    expect(periodStart('2026-03-05', 'monthly')).toBe('2026-03-01');
+    expect(periodStart('2026-03-05', 'yearly')).toBe('2026-01-01');
+    expect(nextPeriodStart('2026-12-01', 'monthly')).toBe('2027-01-01');
+    expect(nextPeriodStart('2026-03-30', 'weekly')).toBe('2026-04-06');
+  });
+
+  test('counts consecutive completed days and resets on a missed one', () => {
+    const entries = [
+      entry('2026-03-01', 'completed'),
+      entry('2026-03-02', 'completed'),
+      // 03-03 missed
+      entry('2026-03-04', 'completed'),
+      entry('2026-03-05', 'completed'),
+    ];
+    expect(goalStreak(goal, entries, '2026-03-05', tz)).toEqual({ current: 2, longest: 2, completedThisPeriod: true });
+  });
+
+  test('today still being open does not break the streak', () => {
+    const entries = [entry('2026-03-01', 'completed'), entry('2026-03-02', 'completed')];
+    expect(goalStreak(goal, entries, '2026-03-03', tz)).toEqual({ current: 2, longest: 2, completedThisPeriod: false });
+    expect(goalStreak(goal, entries, '2026-03-04', tz).current).toBe(0);
+  });
+
+  test('reopening in the same period takes the completion back', () => {
+    const entries = [entry('2026-03-01', 'completed'), entry('2026-03-01', 'reopened')];
+    expect(goalPeriods(goal, entries, '2026-03-02', tz).map(p => p.outcome)).toEqual(['missed', 'open']);
+  });
+
+  test('paused periods are skipped rather than breaking the streak', () => {
+    const entries = [
+      entry('2026-03-01', 'completed'),
+      entry('2026-03-02', 'status', 'paused'),
+      entry('2026-03-04', 'status', 'active'),
+      entry('2026-03-05', 'completed'),
+    ];
+    expect(goalPeriods(goal, entries, '2026-03-05', tz).map(p => p.outcome))
+      .toEqual(['completed', 'paused', 'paused', 'paused', 'completed']);
+    expect(goalStreak(goal, entries, '2026-03-05', tz).current).toBe(2);
+  });
+
+  test('weekly goals count weeks', () => {
+    const weekly = { ...goal, frequency: 'weekly' as const, start_date: '2026-03-02' };
+    const entries = [entry('2026-03-04', 'completed'), entry('2026-03-13', 'completed'), entry('2026-03-27', 'completed')];
+    expect(goalStreak(weekly, entries, '2026-03-27', tz)).toEqual({ current: 1, longest: 2, completedThisPeriod: true });
+  });
+
+  describe('rollover', () => {
+    const completed = { ...goal, is_completed: true, status: 'completed' as const, current_value: 1 };
+
+    test('a goal still carrying yesterday\'s completion rolls over as completed', () => {
+      const entries = [entry('2026-03-04', 'completed')];
+      expect(pendingRollover(completed, entries, '2026-03-05', tz)).toEqual({ period: '2026-03-04', outcome: 'completed' });
+      expect(rolloverUpdates(completed)).toEqual({
+        is_completed: false,
+        status: 'active',
+        current_value: 0,
+        progress_percentage: 0,
+      });
+    });
+
+    test('nothing to do within the same period, once rolled over, or with nothing to reset', () => {
+      const entries = [entry('2026-03-04', 'completed')];
+      expect(pendingRollover(completed, entries, '2026-03-04', tz)).toBeNull();
+      const rolled = [...entries, { ...entry('2026-03-05', 'rollover'), period: '2026-03-04', outcome: 'completed' as const }];
+      expect(pendingRollover(completed, rolled, '2026-03-05', tz)).toBeNull();
+      expect(pendingRollover({ ...goal, updated_at: '2026-03-01T08:00:00.000Z' }, [], '2026-03-05', tz)).toBeNull();
+    });
+
+    test('progress without completion closes as missed; weekly goals wait for the week to end', () => {
+      const partial = { ...goal, current_value: 2, updated_at: '2026-03-03T09:00:00.000Z' };
+      expect(pendingRollover(partial, [], '2026-03-04', tz)).toEqual({ period: '2026-03-03', outcome: 'missed' });
+      const weekly = { ...partial, frequency: 'weekly' as const };
+      expect(pendingRollover(weekly, [], '2026-03-08', tz)).toBeNull();
+      expect(pendingRollover(weekly, [], '2026-03-09', tz)).toEqual({ period: '2026-03-02', outcome: 'missed' });
+    });
+
+    test('archived outcomes count toward the streak', () => {
+      const archived = { ...entry('2026-03-03', 'rollover'), period: '2026-03-02', outcome: 'completed' as const };
+      expect(goalStreak(goal, [entry('2026-03-01', 'completed'), archived], '2026-03-03', tz).current).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { applyCheckIn, parseCheckInAmount, progressPercentage } from '../src/utils/goalProgress';
+import { checkInEntry, describeHistoryEntry } from '../src/utils/goalHistory';
+import { Goal } from '../src/types';
+
+describe('goal progress', () => {
+  const goal: Goal = {
+    id: 'g1',
+    title: 'Run',
+    frequency: 'weekly',
+    priority: 'high',
+    status: 'active',
+    target_value: 20,
+    current_value: 5,
+    unit: 'km',
+    start_date: '2026-03-02',
+    color: '#F44336',
+    is_active: true,
+    is_completed: false,
+    progress_percentage: 25,
+    created_at: '2026-03-02T08:00:00.000Z',
+    updated_at: '2026-03-02T08:00:00.000Z',
+  };
+
+  test('a check-in moves the value and recomputes the percentage', () => {
+    expect(applyCheckIn(goal, 3)).toEqual({ current_value: 8, progress_percentage: 40 });
+    expect(applyCheckIn(goal, 30)).toEqual({ current_value: 35, progress_percentage: 100 });
+    expect(applyCheckIn(goal, -9)).toEqual({ current_value: 0, progress_percentage: 0 });
+  });
+
+  test('goals without a target keep the server percentage', () => {
+    expect(progressPercentage({ ...goal, target_value: undefined, progress_percentage: 60 })).toBe(60);
+  });
+
+  test('parses signed and decimal amounts, rejects zero and junk', () => {
+    expect(parseCheckInAmount(' +2 ')).toBe(2);
+    expect(parseCheckInAmount('-1.5')).toBe(-1.5);
+    expect(parseCheckInAmount('2,5')).toBe(2.5);
+    expect(parseCheckInAmount('0')).toBeNull();
+    expect(parseCheckInAmount('two')).toBeNull();
+  });
+
+  test('check-in entries keep the amount, note and resulting value', () => {
+    const entry = checkInEntry(goal, 2.5, '  park loop ', '2026-03-03T07:00:00.000Z');
+    expect(entry).toMatchObject({ type: 'checkin', from: 5, to: 7.5, amount: 2.5, note: 'park loop' });
+    expect(describeHistoryEntry(entry, goal.unit)).toBe('Checked in +2.5 km (now 7.5 km)');
+  });
+});
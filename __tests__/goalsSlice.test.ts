@@ -0,0 +1,54 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { configureStore } from '@reduxjs/toolkit';
+import goalsReducer, { checkInGoal, goalsPageLoaded } from '../src/store/slices/goalsSlice';
+import apiService from '../src/services/api';
+import { Goal } from '../src/types';
+
+const goal: Goal = {
+  id: 'g1',
+  title: 'Read books',
+  frequency: 'monthly',
+  priority: 'medium',
+  status: 'active',
+  target_value: 10,
+  current_value: 2,
+  unit: 'books',
+  start_date: '2026-03-01',
+  color: '#2196F3',
+  is_active: true,
+  is_completed: false,
+  progress_percentage: 20,
+  created_at: '2026-03-01T08:00:00.000Z',
+  updated_at: '2026-03-01T08:00:00.000Z',
+};
+
+describe('goalsSlice', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('a rejected check-in takes back only its own amount', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    let rejectFirst: (error: any) => void = () => {};
+    jest.spyOn(apiService, 'updateGoal')
+      .mockImplementationOnce(() => new Promise<Goal>((_, reject) => { rejectFirst = reject; }))
+      .mockImplementationOnce(async (_, updates) => ({ ...goal, ...updates }) as Goal);
+
+    const store = configureStore({ reducer: { goals: goalsReducer } });
+    store.dispatch(goalsPageLoaded([goal]));
+
+    // The second check-in goes through while the first is still on its way to the server
+    const first = store.dispatch(checkInGoal({ goalId: 'g1', amount: 3 }));
+    await store.dispatch(checkInGoal({ goalId: 'g1', amount: 1 }));
+    expect(store.getState().goals.goals[0].current_value).toBe(6);
+
+    rejectFirst(Object.assign(new Error('Bad request'), { isAxiosError: true, response: { status: 400, data: {} } }));
+    await first;
+
+    expect(store.getState().goals.goals[0]).toMatchObject({ current_value: 3, progress_percentage: 30 });
+  });
+});
@@ -0,0 +1,252 @@
+import { findDuplicate, icsDataUrl, icsFileName, parseICal, serializeICal, toEventData } from '../src/utils/ical';
+import { Event } from '../src/types';
+
+const ics = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Team', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseICal', () => {
+  test('reads timed events in UTC and in a named time zone', () => {
+    const result = parseICal(ics(
+      'BEGIN:VEVENT',
+      'UID:a@example.com',
+      'SUMMARY:Standup',
+      'DTSTART:20250310T140000Z',
+      'DTEND:20250310T141500Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:b@example.com',
+      'SUMMARY:Berlin call',
+      'DTSTART;TZID=Europe/Berlin:20250701T090000',
+      'DURATION:PT1H30M',
+      'STATUS:TENTATIVE',
+      'END:VEVENT',
+    ));
+
+    expect(result.calendarName).toBe('Team');
+    expect(result.errors).toEqual([]);
+    expect(result.events[0]).toMatchObject({
+      uid: 'a@example.com',
+      start_time: '2025-03-10T14:00:00.000Z',
+      end_time: '2025-03-10T14:15:00.000Z',
+      all_day: false,
+      status: 'confirmed',
+    });
+    // Berlin is UTC+2 in July
+    expect(result.events[1]).toMatchObject({
+      start_time: '2025-07-01T07:00:00.000Z',
+      end_time: '2025-07-01T08:30:00.000Z',
+      status: 'tentative',
+    });
+  });
+
+  test('maps all-day dates onto inclusive days and unescapes text', () => {
+    const result = parseICal(ics(
+      'BEGIN:VEVENT',
+      'SUMMARY:Offsite\\, day one',
+      'DESCRIPTION:Bring a laptop\\nand a charger',
+      'LOCATION:Room 4',
+      'DTSTART;VALUE=DATE:20250402',
+      'DTEND;VALUE=DATE:20250404',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+    ));
+
+    expect(result.events[0]).toMatchObject({
+      title: 'Offsite, day one',
+      description: 'Bring a laptop\nand a charger',
+      location: 'Room 4',
+      start_time: '2025-04-02T00:00:00',
+      end_time: '2025-04-03T23:59:59',
+      all_day: true,
+    });
+  });
+
+  test('folds continuation lines and keeps recurrence with exceptions', () => {
+    const result = parseICal(ics(
+      'BEGIN:VEVENT',
+      'UID:series',
+      'SUMMARY:Weekly',
+      '  sync',
+      'DTSTART:20250106T100000Z',
+      'DTEND:20250106T103000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250331T000000Z',
+      'EXDATE:20250113T100000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:series',
+      'RECURRENCE-ID:20250120T100000Z',
+      'SUMMARY:Weekly sync (moved)',
+      'DTSTART:20250121T100000Z',
+      'DTEND:20250121T103000Z',
+      'END:VEVENT',
+    ));
+
+    const [series, moved] = result.events;
+    expect(series.title).toBe('Weekly sync');
+    expect(series.recurrence_rule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20250331T000000Z');
+    expect(series.recurrence_exceptions).toEqual(['2025-01-13T10:00:00.000Z', '2025-01-20T10:00:00.000Z']);
+    expect(moved.recurrence_rule).toBeUndefined();
+    expect(moved.uid).not.toBe(series.uid);
+  });
+
+  test('keeps one copy of an event listed twice, preferring the higher SEQUENCE', () => {
+    const result = parseICal(ics(
+      'BEGIN:VEVENT',
+      'UID:review',
+      'SEQUENCE:2',
+      'SUMMARY:Design review (moved)',
+      'DTSTART:20250107T150000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:review',
+      'SEQUENCE:1',
+      'SUMMARY:Design review',
+      'DTSTART:20250106T150000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:lunch',
+      'SUMMARY:Lunch',
+      'DTSTART:20250106T120000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:lunch',
+      'SUMMARY:Team lunch',
+      'DTSTART:20250106T120000Z',
+      'END:VEVENT',
+    ));
+
+    expect(result.events.map(event => [event.uid, event.title])).toEqual([
+      ['review', 'Design review (moved)'],
+      ['lunch', 'Team lunch'],
+    ]);
+  });
+
+  test('reports broken events without dropping the rest', () => {
+    const result = parseICal(ics(
+      'BEGIN:VEVENT',
+      'SUMMARY:No start',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Odd rule',
+      'DTSTART:20250106T100000Z',
+      'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:Fine',
+      'DTSTART:20250106T100000Z',
+      'END:VEVENT',
+    ));
+
+    expect(result.events.map(event => event.title)).toEqual(['Fine']);
+    expect(result.errors.map(error => [error.index, error.summary])).toEqual([[0, 'No start'], [1, 'Odd rule']]);
+  });
+
+  test('rejects text with no events', () => {
+    expect(() => parseICal('hello')).toThrow();
+  });
+});
+
+describe('findDuplicate', () => {
+  const existing = [{
+    id: '1',
+    title: 'Standup',
+    start_time: '2025-03-10T14:00:00Z',
+    calendar: { id: 'cal' },
+    ical_uid: 'known',
+  }] as Event[];
+
+  test('matches by UID or by title and start in the same calendar', () => {
+    const [event] = parseICal(ics(
+      'BEGIN:VEVENT',
+      'SUMMARY:standup',
+      'DTSTART:20250310T140000Z',
+      'END:VEVENT',
+    )).events;
+
+    expect(findDuplicate(event, existing, 'cal')?.id).toBe('1');
+    expect(findDuplicate(event, existing, 'other')).toBeUndefined();
+    expect(findDuplicate({ ...event, title: 'x', uid: 'known' }, existing, 'other')?.id).toBe('1');
+    expect(toEventData(event, 'cal')).toMatchObject({ calendar: 'cal', recurrence_rule: null });
+  });
+});
+
+describe('serializeICal', () => {
+  const baseEvent = {
+    id: '42',
+    title: 'Planning; Q3, part 2',
+    description: 'Line one\nLine two',
+    start_time: '2025-07-01T07:00:00Z',
+    end_time: '2025-07-01T08:30:00Z',
+    all_day: false,
+    status: 'confirmed',
+    is_private: false,
+    created_at: '2025-06-01T00:00:00Z',
+    updated_at: '2025-06-02T00:00:00Z',
+  } as Event;
+  const now = new Date(Date.UTC(2025, 5, 15, 12, 0, 0));
+
+  test('writes CRLF lines, escapes text and uses UTC by default', () => {
+    const output = serializeICal([baseEvent], { calendarName: 'Work', now });
+    const lines = output.split('\r\n');
+
+    expect(output.endsWith('\r\n')).toBe(true);
+    expect(lines).toContain('X-WR-CALNAME:Work');
+    expect(lines).toContain('UID:42@calendar.andrewbrowne.org');
+    expect(lines).toContain('DTSTAMP:20250615T120000Z');
+    expect(lines).toContain('DTSTART:20250701T070000Z');
+    expect(lines).toContain('SUMMARY:Planning\\; Q3\\, part 2');
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two');
+  });
+
+  test('folds long lines at 75 octets without splitting characters', () => {
+    const output = serializeICal([{ ...baseEvent, description: 'é'.repeat(100) }], { now });
+    const physical = output.split('\r\n');
+    physical.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+
+    const unfolded = output.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+  });
+
+  test('writes all-day events as dates with an exclusive end', () => {
+    const output = serializeICal([{
+      ...baseEvent,
+      all_day: true,
+      start_time: '2025-04-02T00:00:00',
+      end_time: '2025-04-03T23:59:59',
+      recurrence_rule: 'FREQ=YEARLY;UNTIL=20300402T225959Z',
+    }], { now });
+
+    expect(output).toContain('DTSTART;VALUE=DATE:20250402\r\n');
+    expect(output).toContain('DTEND;VALUE=DATE:20250404\r\n');
+    expect(output).toMatch(/RRULE:FREQ=YEARLY;UNTIL=\d{8}\r\n/);
+  });
+
+  test('uses TZID wall times with a matching VTIMEZONE and round-trips through the parser', () => {
+    const output = serializeICal([baseEvent], { timeZone: 'Europe/Berlin', now });
+
+    expect(output).toContain('DTSTART;TZID=Europe/Berlin:20250701T090000');
+    expect(output).toContain('BEGIN:VTIMEZONE');
+    expect(output).toContain('TZOFFSETTO:+0200');
+    expect(output).toContain('DTSTART:20250330T020000');  // spring forward
+
+    const [parsed] = parseICal(output).events;
+    expect(parsed.start_time).toBe('2025-07-01T07:00:00.000Z');
+    expect(parsed.title).toBe(baseEvent.title);
+    expect(parsed.description).toBe(baseEvent.description);
+  });
+});
+
+test('icsDataUrl carries the text as UTF-8 with a text/calendar type', () => {
+  const text = 'SUMMARY:Café\r\n';
+  const url = icsDataUrl(text);
+  expect(url.startsWith('data:text/calendar;base64,')).toBe(true);
+  expect(Buffer.from(url.split(',')[1], 'base64').toString('utf8')).toBe(text);
+  expect(icsDataUrl('ab')).toBe(`data:text/calendar;base64,${Buffer.from('ab').toString('base64')}`);
+});
+
+test('icsFileName strips unsafe characters', () => {
+  expect(icsFileName('Work / Home')).toBe('Work-Home.ics');
+  expect(icsFileName('  ')).toBe('calendar.ics');
+});
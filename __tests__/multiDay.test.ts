@@ -0,0 +1,74 @@
+import { buildPeriodMarks, eventDays, groupEventsByDay } from '../src/utils/multiDay';
+import { Event } from '../src/types';
+
+const makeEvent = (id: string, start: string, end: string, overrides: Partial<Event> = {}): Event => ({
+  id,
+  calendar: { id: 'work', is_active: true },
+  title: id,
+  start_time: start,
+  end_time: end,
+  all_day: false,
+  status: 'confirmed',
+  ...overrides,
+} as Event);
+
+const colorFor = (event: Event) => (event.id === 'conference' ? 'red' : 'blue');
+
+describe('multiDay', () => {
+  test('a timed event is listed on every day it touches', () => {
+    const conference = makeEvent('conference', '2025-03-10T09:00:00Z', '2025-03-12T17:00:00Z');
+    expect(eventDays(conference, 'UTC')).toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+
+    const grouped = groupEventsByDay([conference], 'UTC');
+    expect(grouped['2025-03-11']).toEqual([{ event: conference, dayIndex: 2, dayCount: 3 }]);
+    expect(grouped['2025-03-12'][0].dayIndex).toBe(3);
+  });
+
+  test('all-day spans keep their dates and a midnight end stays on the last day', () => {
+    const trip = makeEvent('trip', '2025-03-28T00:00:00', '2025-04-02T23:59:59', { all_day: true });
+    expect(eventDays(trip, 'Pacific/Auckland')).toHaveLength(6);
+
+    const overnight = makeEvent('overnight', '2025-03-10T22:00:00Z', '2025-03-11T00:00:00Z');
+    expect(eventDays(overnight, 'UTC')).toEqual(['2025-03-10']);
+  });
+
+  test('days outside the range are left out but the position within the event is kept', () => {
+    const trip = makeEvent('trip', '2025-03-28T00:00:00', '2025-04-02T23:59:59', { all_day: true });
+    const grouped = groupEventsByDay([trip], 'UTC', { start: '2025-04-01', end: '2025-04-30' });
+    expect(Object.keys(grouped)).toEqual(['2025-04-01', '2025-04-02']);
+    expect(grouped['2025-04-01'][0]).toMatchObject({ dayIndex: 5, dayCount: 6 });
+  });
+
+  test('a spanning event keeps its lane so its bar stays continuous', () => {
+    const conference = makeEvent('conference', '2025-03-10T09:00:00Z', '2025-03-12T17:00:00Z');
+    const lunch = makeEvent('lunch', '2025-03-11T12:00:00Z', '2025-03-11T13:00:00Z');
+    const dinner = makeEvent('dinner', '2025-03-10T19:00:00Z', '2025-03-10T21:00:00Z');
+    const marks = buildPeriodMarks([lunch, dinner, conference], 'UTC', colorFor);
+
+    expect(marks['2025-03-10']).toEqual([
+      { color: 'red', startingDay: true, endingDay: false },
+      { color: 'blue', startingDay: true, endingDay: true },
+    ]);
+    expect(marks['2025-03-11'][0]).toEqual({ color: 'red', startingDay: false, endingDay: false });
+    expect(marks['2025-03-12']).toEqual([{ color: 'red', startingDay: false, endingDay: true }]);
+  });
+
+  test('a gap under a busy lane is filled so lower bars do not jump up', () => {
+    const first = makeEvent('first', '2025-03-09T20:00:00Z', '2025-03-10T10:00:00Z');
+    const conference = makeEvent('conference', '2025-03-10T11:00:00Z', '2025-03-12T17:00:00Z');
+    const later = makeEvent('later', '2025-03-11T09:00:00Z', '2025-03-11T10:00:00Z');
+    const marks = buildPeriodMarks([first, conference, later], 'UTC', colorFor);
+
+    // The conference takes lane 1 on its first day and keeps it after lane 0 empties
+    expect(marks['2025-03-11'].map(period => period.color)).toEqual(['blue', 'red']);
+    expect(marks['2025-03-12']).toEqual([
+      { color: 'transparent', startingDay: false, endingDay: false },
+      { color: 'red', startingDay: false, endingDay: true },
+    ]);
+  });
+
+  test('only the first few lanes are drawn', () => {
+    const events = ['a', 'b', 'c', 'd'].map(id => makeEvent(id, '2025-03-10T09:00:00Z', '2025-03-10T10:00:00Z'));
+    expect(buildPeriodMarks(events, 'UTC', colorFor)['2025-03-10']).toHaveLength(3);
+  });
+});
@@ -0,0 +1,132 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import outboxService, { OutboxEvent } from '../src/services/outbox';
+import apiService from '../src/services/api';
+
+// What axios rejects with when the server is unreachable, or when it answered with a status
+const networkError = () => Object.assign(new Error('Network Error'), { isAxiosError: true });
+const httpError = (status: number, data: any = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response: { status, data } });
+
+describe('outbox', () => {
+  let events: OutboxEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await outboxService.clear();
+    events = [];
+    unsubscribe = outboxService.subscribe(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    await outboxService.clear();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('replays in order and points later writes at the ids the server handed out', async () => {
+    const calls: string[] = [];
+    jest.spyOn(apiService, 'createCalendar').mockImplementation(async () => {
+      calls.push('createCalendar');
+      return { id: 'c1' } as any;
+    });
+    const createEvent = jest.spyOn(apiService, 'createEvent').mockImplementation(async () => {
+      calls.push('createEvent');
+      return { id: 'e1' } as any;
+    });
+    const updateEvent = jest.spyOn(apiService, 'updateEvent').mockImplementation(async () => {
+      calls.push('updateEvent');
+      return { id: 'e1' } as any;
+    });
+
+    const calendar = await outboxService.enqueue({ type: 'createCalendar', payload: { name: 'Work' } });
+    const event = await outboxService.enqueue({
+      type: 'createEvent',
+      payload: { title: 'Standup', calendar: calendar.tempId },
+    });
+    await outboxService.enqueue({ type: 'updateEvent', entityId: event.tempId, payload: { title: 'Daily standup' } });
+    await outboxService.flush();
+
+    expect(calls).toEqual(['createCalendar', 'createEvent', 'updateEvent']);
+    expect(createEvent).toHaveBeenCalledWith({ title: 'Standup', calendar: 'c1' });
+    expect(updateEvent).toHaveBeenCalledWith('e1', { title: 'Daily standup' });
+    expect(outboxService.getItems()).toEqual([]);
+    expect(events.filter(e => e.kind === 'synced')).toHaveLength(3);
+  });
+
+  test('a network error pauses the queue and keeps everything for a later retry', async () => {
+    const createGoal = jest.spyOn(apiService, 'createGoal').mockRejectedValue(networkError());
+    const deleteGoal = jest.spyOn(apiService, 'deleteGoal').mockResolvedValue();
+
+    await outboxService.enqueue({ type: 'createGoal', payload: { title: 'Run' } });
+    await outboxService.enqueue({ type: 'deleteGoal', entityId: 'g7' });
+    await outboxService.flush();
+
+    expect(createGoal).toHaveBeenCalledTimes(1);
+    // Later writes wait so the server still sees them in order
+    expect(deleteGoal).not.toHaveBeenCalled();
+    expect(outboxService.getItems().map(item => [item.status, item.attempts])).toEqual([
+      ['pending', 1],
+      ['pending', 0],
+    ]);
+  });
+
+  test('a rejected write is marked failed and the rest of the queue carries on', async () => {
+    jest.spyOn(apiService, 'updateGoal').mockRejectedValue(httpError(400, { title: ['This field is required.'] }));
+    const deleteGoal = jest.spyOn(apiService, 'deleteGoal').mockResolvedValue();
+
+    await outboxService.enqueue({ type: 'updateGoal', entityId: 'g1', payload: { title: '' } });
+    await outboxService.enqueue({ type: 'deleteGoal', entityId: 'g7' });
+    await outboxService.flush();
+
+    expect(deleteGoal).toHaveBeenCalledWith('g7');
+    expect(outboxService.getItems()).toEqual([
+      expect.objectContaining({ type: 'updateGoal', status: 'failed', lastError: 'title: This field is required.' }),
+    ]);
+    expect(events.some(e => e.kind === 'failed')).toBe(true);
+  });
+
+  test('discarding a failed create also drops the writes that depend on it', async () => {
+    jest.spyOn(apiService, 'createEvent').mockRejectedValue(httpError(400, { detail: 'Invalid calendar' }));
+    const updateEvent = jest.spyOn(apiService, 'updateEvent').mockResolvedValue({ id: 'e9' } as any);
+    const deleteEvent = jest.spyOn(apiService, 'deleteEvent').mockResolvedValue();
+
+    const created = await outboxService.enqueue({ type: 'createEvent', payload: { title: 'Offsite' } });
+    const update = await outboxService.enqueue({ type: 'updateEvent', entityId: created.tempId, payload: { title: 'Team offsite' } });
+    await outboxService.enqueue({ type: 'deleteEvent', entityId: 'e5' });
+    await outboxService.flush();
+
+    // The update can't go before its create does; unrelated writes aren't held up
+    expect(updateEvent).not.toHaveBeenCalled();
+    expect(deleteEvent).toHaveBeenCalledWith('e5');
+
+    await outboxService.discard(created.id);
+
+    expect(outboxService.getItems()).toEqual([]);
+    expect(events.filter(e => e.kind === 'discarded').map(e => (e as any).item.id)).toEqual([created.id, update.id]);
+  });
+
+  test('fetched lists keep queued edits, deletes and offline creates', async () => {
+    await outboxService.enqueue({ type: 'updateGoal', entityId: 'g1', payload: { title: 'Run 10k' } });
+    await outboxService.enqueue({ type: 'deleteGoal', entityId: 'g2' });
+    const created = await outboxService.enqueue({ type: 'createGoal', payload: { title: 'Swim' } });
+
+    const cached = [{ id: 'g1', title: 'Run 10k' }, { id: created.tempId!, title: 'Swim' }];
+    const fetched = [{ id: 'g1', title: 'Run 5k' }, { id: 'g2', title: 'Stretch' }, { id: 'g3', title: 'Read' }];
+
+    expect(outboxService.mergeFetched('Goal', fetched, cached)).toEqual([
+      { id: 'g1', title: 'Run 10k' },
+      { id: 'g3', title: 'Read' },
+      { id: created.tempId, title: 'Swim' },
+    ]);
+    // Other kinds of entity aren't affected
+    expect(outboxService.mergeFetched('Event', fetched, [])).toEqual(fetched);
+  });
+});
@@ -0,0 +1,61 @@
+import { collectPages, isPaginated, paginate, toPage } from '../src/utils/pagination';
+
+const pages: { [url: string]: any } = {
+  '/api/goals/': { count: 5, next: 'http://server/api/goals/?page=2', previous: null, results: [1, 2] },
+  'http://server/api/goals/?page=2': {
+    count: 5,
+    next: 'http://server/api/goals/?page=3',
+    previous: '/api/goals/',
+    results: [3, 4],
+  },
+  'http://server/api/goals/?page=3': {
+    count: 5,
+    next: null,
+    previous: 'http://server/api/goals/?page=2',
+    results: [5],
+  },
+};
+
+describe('pagination', () => {
+  test('bare arrays and DRF pages read the same way', () => {
+    expect(isPaginated([1, 2])).toBe(false);
+    expect(isPaginated(pages['/api/goals/'])).toBe(true);
+    expect(toPage([1, 2])).toEqual({ count: 2, next: null, previous: null, results: [1, 2] });
+    expect(() => toPage({ detail: 'nope' } as any)).toThrow('Unexpected list response');
+  });
+
+  test('follows next links until the last page', async () => {
+    const requested: string[] = [];
+    const seenPages: number[][] = [];
+    const fetchPage = async (url: string) => {
+      requested.push(url);
+      return pages[url];
+    };
+
+    const items = await collectPages<number>(fetchPage, '/api/goals/', page => seenPages.push(page));
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(seenPages).toEqual([[1, 2], [3, 4], [5]]);
+    expect(requested).toHaveLength(3);
+  });
+
+  test('an unpaginated endpoint is a single request', async () => {
+    const fetchPage = jest.fn(async () => [1, 2, 3]);
+    expect(await collectPages<number>(fetchPage, '/api/calendars/')).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('a next link that loops back or runs past the page limit fails instead of ending early', async () => {
+    const looping = async () => ({ count: 99, next: '/api/events/', previous: null, results: [1] });
+    await expect(collectPages<number>(looping, '/api/events/')).rejects.toThrow('looped back');
+
+    let page = 0;
+    const endless = async () => ({ count: 99, next: `/api/events/?page=${++page + 1}`, previous: null, results: [page] });
+    const received: number[][] = [];
+    await expect((async () => {
+      for await (const items of paginate<number>(endless, '/api/events/', 3)) {
+        received.push(items);
+      }
+    })()).rejects.toThrow('more than 3 pages');
+    expect(received).toEqual([[1], [2], [3]]);
+  });
+});
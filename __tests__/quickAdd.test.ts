@@ -0,0 +1,79 @@
+import { parseQuickAdd } from '../src/utils/quickAdd';
+
+// Monday 10 March 2025
+const REFERENCE = '2025-03-10';
+const parse = (text: string, timeZone = 'UTC') => parseQuickAdd(text, REFERENCE, timeZone);
+
+describe('parseQuickAdd', () => {
+  test('reads title, relative day, time, location and duration', () => {
+    expect(parse('Lunch with Sam tomorrow 1pm at Cafe Luna for 90 min')).toEqual({
+      title: 'Lunch with Sam',
+      location: 'Cafe Luna',
+      all_day: false,
+      startDate: '2025-03-11',
+      endDate: '2025-03-11',
+      startTime: '13:00',
+      endTime: '14:30',
+      start_time: '2025-03-11T13:00:00.000Z',
+      end_time: '2025-03-11T14:30:00.000Z',
+    });
+  });
+
+  test('reads weekday names and time ranges sharing one am/pm', () => {
+    const result = parse('Dentist Fri 3-4pm');
+    expect(result).toMatchObject({ title: 'Dentist', startDate: '2025-03-14', startTime: '15:00', endTime: '16:00' });
+    expect(parse('Standup next mon 9:30 - 9:45am')).toMatchObject({
+      title: 'Standup',
+      startDate: '2025-03-17',
+      startTime: '09:30',
+      endTime: '09:45',
+    });
+    expect(parse('Workshop 11-1pm')).toMatchObject({ startTime: '11:00', endTime: '13:00' });
+  });
+
+  test('places times in the user zone', () => {
+    expect(parse('Call at 9am', 'America/New_York')).toMatchObject({
+      startDate: REFERENCE,
+      start_time: '2025-03-10T13:00:00.000Z',
+      end_time: '2025-03-10T14:00:00.000Z',
+    });
+  });
+
+  test('without a time the event is all day on the given or selected date', () => {
+    expect(parse('Mum\'s birthday March 22')).toMatchObject({
+      title: 'Mum\'s birthday',
+      all_day: true,
+      startDate: '2025-03-22',
+      start_time: '2025-03-22T00:00:00',
+      end_time: '2025-03-22T23:59:59',
+    });
+    expect(parse('Pay rent')).toMatchObject({ all_day: true, startDate: REFERENCE });
+    // Dates already past this year roll into the next
+    expect(parse('Tax return 1/15')?.startDate).toBe('2026-01-15');
+  });
+
+  test('late events run past midnight and bare numbers stay in the title', () => {
+    expect(parse('Night shift 10pm-6am')).toMatchObject({ startDate: REFERENCE, endDate: '2025-03-11', endTime: '06:00' });
+    expect(parse('Room 3-4 cleanup')).toMatchObject({ title: 'Room 3-4 cleanup', all_day: true });
+  });
+
+  test('reads pasted emails field by field', () => {
+    const email = [
+      'Fwd: Project kickoff',
+      'Subject: Re: Project kickoff',
+      'When: Thursday, March 13, 2025 2:00 PM-3:00 PM (UTC-05:00) Eastern Time',
+      'Where: Conference Room B',
+    ].join('\n');
+    expect(parse(email)).toMatchObject({
+      title: 'Project kickoff',
+      location: 'Conference Room B',
+      startDate: '2025-03-13',
+      startTime: '14:00',
+      endTime: '15:00',
+    });
+  });
+
+  test('returns null when nothing is left for a title', () => {
+    expect(parse('tomorrow 3pm')).toBeNull();
+  });
+});
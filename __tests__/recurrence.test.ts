@@ -0,0 +1,163 @@
+import {
+  describeRecurrence,
+  expandEvents,
+  expandRecurrence,
+  formatRRule,
+  isFormEditableRule,
+  parseRRule,
+  truncateRule,
+} from '../src/utils/recurrence';
+import { Event } from '../src/types';
+
+const startsOf = (dates: Date[]) =>
+  dates.map(d => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()} ${d.getHours()}:${d.getMinutes()}`);
+
+describe('parseRRule / formatRRule', () => {
+  test('round-trips a weekly rule with days and count', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6');
+    expect(rule).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      byDay: [{ day: 'MO' }, { day: 'WE' }],
+      count: 6,
+    });
+    expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6');
+  });
+
+  test('parses ordinal weekdays and rejects missing FREQ', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=-1FR').byDay).toEqual([{ day: 'FR', ordinal: -1 }]);
+    expect(() => parseRRule('INTERVAL=2')).toThrow();
+  });
+});
+
+describe('expandRecurrence', () => {
+  const dtstart = new Date(2025, 0, 6, 9, 30); // Monday 6 Jan 2025, 09:30 local
+
+  test('daily with interval and count', () => {
+    const rule = parseRRule('FREQ=DAILY;INTERVAL=2;COUNT=3');
+    const result = expandRecurrence(rule, dtstart, new Date(2025, 0, 1), new Date(2025, 1, 1));
+    expect(startsOf(result)).toEqual(['2025-1-6 9:30', '2025-1-8 9:30', '2025-1-10 9:30']);
+  });
+
+  test('weekly on several days, only inside the range', () => {
+    const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,FR');
+    const result = expandRecurrence(rule, dtstart, new Date(2025, 0, 13), new Date(2025, 0, 20));
+    expect(startsOf(result)).toEqual(['2025-1-13 9:30', '2025-1-17 9:30']);
+  });
+
+  test('monthly on the last Friday until a date', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250331');
+    const result = expandRecurrence(rule, dtstart, new Date(2025, 0, 1), new Date(2026, 0, 1));
+    expect(startsOf(result)).toEqual(['2025-1-31 9:30', '2025-2-28 9:30', '2025-3-28 9:30']);
+  });
+
+  test('monthly on the 31st skips short months', () => {
+    const start = new Date(2025, 0, 31, 8, 0);
+    const rule = parseRRule('FREQ=MONTHLY;COUNT=3');
+    const result = expandRecurrence(rule, start, start, new Date(2026, 0, 1));
+    expect(startsOf(result)).toEqual(['2025-1-31 8:0', '2025-3-31 8:0', '2025-5-31 8:0']);
+  });
+
+  test('yearly on a leap day only lands on leap years', () => {
+    const start = new Date(2024, 1, 29, 12, 0);
+    const rule = parseRRule('FREQ=YEARLY;COUNT=2');
+    const result = expandRecurrence(rule, start, start, new Date(2040, 0, 1));
+    expect(startsOf(result)).toEqual(['2024-2-29 12:0', '2028-2-29 12:0']);
+  });
+
+  test('exception dates are skipped but still count towards COUNT', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=3');
+    const skipped = new Date(2025, 0, 7, 9, 30).toISOString();
+    const result = expandRecurrence(rule, dtstart, dtstart, new Date(2025, 1, 1), [skipped]);
+    expect(startsOf(result)).toEqual(['2025-1-6 9:30', '2025-1-8 9:30']);
+  });
+});
+
+describe('expandEvents', () => {
+  const baseEvent = {
+    id: '42',
+    title: 'Standup',
+    start_time: new Date(2025, 0, 6, 9, 0).toISOString(),
+    end_time: new Date(2025, 0, 6, 9, 15).toISOString(),
+    all_day: false,
+    status: 'confirmed',
+    is_private: false,
+  } as Event;
+
+  test('turns a recurring event into occurrences that keep the duration', () => {
+    const event = { ...baseEvent, recurrence_rule: 'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR' };
+    const result = expandEvents([event], new Date(2025, 0, 10), new Date(2025, 0, 14));
+
+    expect(result.map(e => e.id)).toEqual([
+      `42::${new Date(2025, 0, 10, 9, 0).toISOString()}`,
+      `42::${new Date(2025, 0, 13, 9, 0).toISOString()}`,
+    ]);
+    expect(result[0]).toMatchObject({
+      series_id: '42',
+      end_time: new Date(2025, 0, 10, 9, 15).toISOString(),
+    });
+  });
+
+  test('passes through one-off events untouched', () => {
+    expect(expandEvents([baseEvent], new Date(2030, 0, 1), new Date(2030, 1, 1))).toEqual([baseEvent]);
+  });
+});
+
+describe('time zones', () => {
+  const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+  test('a series keeps its wall-clock time in the given zone across a DST change', () => {
+    // 9 AM in New York; US clocks went forward on 9 March 2025
+    const starts = expandRecurrence(
+      parseRRule('FREQ=DAILY;COUNT=3'),
+      new Date('2025-03-08T14:00:00Z'),
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-04-01T00:00:00Z'),
+      [],
+      'America/New_York',
+    );
+    expect(iso(starts)).toEqual([
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-09T13:00:00.000Z',
+      '2025-03-10T13:00:00.000Z',
+    ]);
+  });
+
+  test('weekdays and ordinals are counted on the zone\'s calendar, not the device\'s', () => {
+    // 7 AM on the 2nd Tuesday in Tokyo is still Monday evening in UTC
+    const event = {
+      id: 'review',
+      title: 'Review',
+      start_time: '2025-03-10T22:00:00.000Z',
+      end_time: '2025-03-10T23:00:00.000Z',
+      all_day: false,
+      status: 'confirmed',
+      is_private: false,
+      recurrence_rule: 'FREQ=MONTHLY;BYDAY=2TU;COUNT=2',
+    } as Event;
+    const result = expandEvents([event], new Date('2025-03-01T00:00:00Z'), new Date('2025-05-01T00:00:00Z'), 'Asia/Tokyo');
+    expect(result.map(e => e.start_time)).toEqual(['2025-03-10T22:00:00.000Z', '2025-04-07T22:00:00.000Z']);
+  });
+});
+
+describe('helpers', () => {
+  test('truncateRule ends the series one second before the split point', () => {
+    const split = new Date(Date.UTC(2025, 0, 20, 9, 0));
+    expect(truncateRule('FREQ=WEEKLY;COUNT=10', split)).toBe('FREQ=WEEKLY;UNTIL=20250120T085959Z');
+  });
+
+  test('only simple rules count as editable in the event form', () => {
+    expect(isFormEditableRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5')).toBe(true);
+    expect(isFormEditableRule('FREQ=DAILY;UNTIL=20250131T235959Z')).toBe(true);
+    expect(isFormEditableRule('FREQ=MONTHLY;BYDAY=2TU')).toBe(false);
+    expect(isFormEditableRule('FREQ=MONTHLY;BYMONTHDAY=15')).toBe(false);
+    expect(isFormEditableRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')).toBe(false);
+    expect(isFormEditableRule('not a rule')).toBe(false);
+  });
+
+  test('describeRecurrence reads naturally', () => {
+    expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6'))
+      .toBe('Every 2 weeks on Mon, Wed, 6 times');
+    expect(describeRecurrence('FREQ=MONTHLY;BYDAY=2TU')).toBe('Monthly on the 2nd Tue');
+  });
+});
@@ -0,0 +1,173 @@
+import { Clock, Notifier, ReminderScheduler } from '../src/services/reminders';
+import { computeReminders, formatReminderOffset } from '../src/utils/reminders';
+import { Event, ScheduledReminder } from '../src/types';
+
+// Timers only run when the test advances time
+class FakeClock implements Clock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextId = 1;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now() {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number) {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.current + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  advance(ms: number) {
+    const target = this.current + ms;
+    for (;;) {
+      const due = [...this.timers.entries()]
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.current = due[1].at;
+      due[1].callback();
+    }
+    this.current = target;
+  }
+}
+
+class FakeNotifier implements Notifier {
+  pending = new Map<string, ScheduledReminder>();
+  log: string[] = [];
+
+  schedule(reminder: ScheduledReminder) {
+    this.pending.set(reminder.key, reminder);
+    this.log.push(`schedule ${reminder.key}`);
+  }
+
+  cancel(key: string) {
+    this.pending.delete(key);
+    this.log.push(`cancel ${key}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('reminders', () => {
+  const start = new Date(2025, 5, 2, 8, 0);  // Monday 08:00 local
+  const baseEvent = {
+    id: '1',
+    title: 'Standup',
+    start_time: new Date(2025, 5, 2, 9, 0).toISOString(),
+    end_time: new Date(2025, 5, 2, 9, 15).toISOString(),
+    all_day: false,
+    status: 'confirmed',
+    is_private: false,
+    reminders: [10],
+  } as Event;
+
+  test('computes reminders inside the horizon and skips cancelled or completed events', () => {
+    const events = [
+      { ...baseEvent, reminders: [10, 120, 10] },
+      { ...baseEvent, id: '2', status: 'cancelled' },
+      { ...baseEvent, id: '3', completed: true },
+      { ...baseEvent, id: '4', reminders: undefined },
+    ] as Event[];
+
+    const reminders = computeReminders(events, start.getTime(), 24 * HOUR);
+
+    // 120 minutes before 09:00 is already past; the duplicate 10 only counts once
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({
+      key: '1@10',
+      eventId: '1',
+      fireAt: new Date(2025, 5, 2, 8, 50).toISOString(),
+      minutesBefore: 10,
+    });
+  });
+
+  test('gives each occurrence of a repeating event its own reminder', () => {
+    const daily = { ...baseEvent, recurrence_rule: 'FREQ=DAILY' };
+    const reminders = computeReminders([daily], start.getTime(), 48 * HOUR);
+
+    expect(reminders.map(r => r.fireAt)).toEqual([
+      new Date(2025, 5, 2, 8, 50).toISOString(),
+      new Date(2025, 5, 3, 8, 50).toISOString(),
+    ]);
+    expect(new Set(reminders.map(r => r.key)).size).toBe(2);
+  });
+
+  test('a reminder a day ahead picks up events beyond the horizon', () => {
+    const tomorrowNoon = {
+      ...baseEvent,
+      start_time: new Date(2025, 5, 3, 12, 0).toISOString(),
+      end_time: new Date(2025, 5, 3, 13, 0).toISOString(),
+      reminders: [1440],
+    };
+    const reminders = computeReminders([tomorrowNoon], start.getTime(), 24 * HOUR);
+    expect(reminders.map(r => r.fireAt)).toEqual([new Date(2025, 5, 2, 12, 0).toISOString()]);
+  });
+
+  test('the scheduler only hands changes to the notifier', () => {
+    const clock = new FakeClock(start);
+    const notifier = new FakeNotifier();
+    const scheduler = new ReminderScheduler(notifier, clock);
+
+    scheduler.sync([baseEvent]);
+    expect(notifier.log).toEqual(['schedule 1@10']);
+
+    // Same events again - nothing to do
+    scheduler.sync([{ ...baseEvent }]);
+    expect(notifier.log).toHaveLength(1);
+
+    // Moving the event reschedules, deleting it cancels
+    const moved = { ...baseEvent, start_time: new Date(2025, 5, 2, 10, 0).toISOString() };
+    scheduler.sync([moved]);
+    expect(notifier.log.slice(1)).toEqual(['cancel 1@10', 'schedule 1@10']);
+    expect(notifier.pending.get('1@10')?.fireAt).toBe(new Date(2025, 5, 2, 9, 50).toISOString());
+
+    scheduler.sync([]);
+    expect(notifier.pending.size).toBe(0);
+  });
+
+  test('resyncs as time passes and respects the enabled setting', () => {
+    const clock = new FakeClock(start);
+    const notifier = new FakeNotifier();
+    const scheduler = new ReminderScheduler(notifier, clock);
+
+    const tomorrow = {
+      ...baseEvent,
+      start_time: new Date(2025, 5, 3, 10, 0).toISOString(),
+      end_time: new Date(2025, 5, 3, 11, 0).toISOString(),
+    };
+    scheduler.sync([tomorrow]);
+    expect(notifier.pending.size).toBe(0);
+
+    // 09:50 tomorrow comes within 24 hours after the 09:00 resync
+    clock.advance(2 * HOUR);
+    expect([...notifier.pending.keys()]).toEqual(['1@10']);
+    expect(scheduler.getScheduled()).toHaveLength(1);
+
+    scheduler.setSettings({ enabled: false, defaultMinutes: [10] });
+    expect(notifier.pending.size).toBe(0);
+
+    scheduler.setSettings({ enabled: true, defaultMinutes: [10] });
+    scheduler.clear();
+    expect(notifier.pending.size).toBe(0);
+    expect(scheduler.getScheduled()).toEqual([]);
+  });
+
+  test('formats offsets for display', () => {
+    expect(formatReminderOffset(0)).toBe('At start');
+    expect(formatReminderOffset(10)).toBe('10 min before');
+    expect(formatReminderOffset(60)).toBe('1 hour before');
+    expect(formatReminderOffset(1440)).toBe('1 day before');
+    expect(formatReminderOffset(2880)).toBe('2 days before');
+    expect(formatReminderOffset(10080)).toBe('1 week before');
+  });
+});
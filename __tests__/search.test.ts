@@ -0,0 +1,77 @@
+import { highlightMatches, mergeEvents, searchEvents, searchGoals } from '../src/utils/search';
+import { Event, Goal } from '../src/types';
+
+const makeEvent = (overrides: Partial<Event>): Event => ({
+  id: 'e1',
+  calendar: { id: 'work' },
+  title: 'Quarterly review',
+  description: 'Budget and hiring',
+  location: 'Room 4',
+  start_time: '2025-03-10T09:00:00.000Z',
+  end_time: '2025-03-10T10:00:00.000Z',
+  all_day: false,
+  status: 'confirmed',
+  ...overrides,
+} as Event);
+
+const makeGoal = (overrides: Partial<Goal>): Goal => ({
+  id: 'g1',
+  title: 'Run a marathon',
+  description: 'Spring race',
+  priority: 'high',
+  status: 'active',
+  start_date: '2025-01-01',
+  ...overrides,
+} as Goal);
+
+describe('search', () => {
+  test('every query word must appear in some field', () => {
+    const events = [makeEvent({}), makeEvent({ id: 'e2', title: 'Standup', description: '' })];
+    expect(searchEvents(events, 'review budget', {}, 'UTC').map(e => e.id)).toEqual(['e1']);
+    expect(searchEvents(events, 'ROOM', {}, 'UTC').map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(searchEvents(events, '   ', {}, 'UTC')).toEqual([]);
+  });
+
+  test('filters events by calendar, status and date range', () => {
+    const events = [
+      makeEvent({}),
+      makeEvent({ id: 'e2', calendar: { id: 'home' } as Event['calendar'] }),
+      makeEvent({ id: 'e3', status: 'cancelled' }),
+      makeEvent({ id: 'e4', start_time: '2025-04-01T09:00:00.000Z', end_time: '2025-04-01T10:00:00.000Z' }),
+    ];
+    expect(searchEvents(events, 'review', { calendarId: 'work', eventStatus: 'confirmed' }, 'UTC')
+      .map(e => e.id)).toEqual(['e1', 'e4']);
+    expect(searchEvents(events, 'review', { startDate: '2025-03-15' }, 'UTC').map(e => e.id)).toEqual(['e4']);
+  });
+
+  test('lists each matching occurrence of a repeating event inside a date range', () => {
+    const weekly = makeEvent({ recurrence_rule: 'FREQ=WEEKLY;COUNT=10' });
+    const found = searchEvents([weekly], 'review', { startDate: '2025-03-10', endDate: '2025-03-23' }, 'UTC');
+    expect(found.map(e => e.start_time)).toEqual(['2025-03-10T09:00:00.000Z', '2025-03-17T09:00:00.000Z']);
+  });
+
+  test('filters goals by status, priority and dates', () => {
+    const goals = [
+      makeGoal({}),
+      makeGoal({ id: 'g2', priority: 'low' }),
+      makeGoal({ id: 'g3', end_date: '2025-02-01' }),
+    ];
+    expect(searchGoals(goals, 'marathon', { priority: 'high' }).map(g => g.id)).toEqual(['g1', 'g3']);
+    expect(searchGoals(goals, 'marathon', { startDate: '2025-03-01' }).map(g => g.id)).toEqual(['g1', 'g2']);
+    expect(searchGoals(goals, 'marathon', { goalStatus: 'completed' })).toEqual([]);
+  });
+
+  test('server copies replace cached ones', () => {
+    const merged = mergeEvents([makeEvent({ title: 'Old' })], [makeEvent({ title: 'New' }), makeEvent({ id: 'e2' })]);
+    expect(merged.map(e => `${e.id}:${e.title}`)).toEqual(['e1:New', 'e2:Quarterly review']);
+  });
+
+  test('highlights every match of every word', () => {
+    expect(highlightMatches('Review the review', 'review')).toEqual([
+      { text: 'Review', match: true },
+      { text: ' the ', match: false },
+      { text: 'review', match: true },
+    ]);
+    expect(highlightMatches('Budget', 'x')).toEqual([{ text: 'Budget', match: false }]);
+  });
+});
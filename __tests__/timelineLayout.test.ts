@@ -0,0 +1,59 @@
+import { MIN_BLOCK_MINUTES, layoutDayEvents } from '../src/utils/timelineLayout';
+import { Event } from '../src/types';
+
+const day = '2025-03-10';
+const at = (time: string) => `${day}T${time}:00Z`;
+const timed = (id: string, start: string, end: string): Event => ({
+  id,
+  calendar: { id: 'work', is_active: true },
+  title: id,
+  start_time: start,
+  end_time: end,
+  all_day: false,
+  status: 'confirmed',
+} as Event);
+const event = (id: string, start: string, end: string) => timed(id, at(start), at(end));
+
+// [id, column, columns] for each block, in layout order
+const columnsOf = (events: Event[]) =>
+  layoutDayEvents(events, day, 'UTC').map(block => [block.event.id, block.column, block.columns]);
+
+describe('timeline layout', () => {
+  test('an event inside another sits beside it', () => {
+    const blocks = columnsOf([event('inner', '10:00', '11:00'), event('outer', '09:00', '12:00')]);
+    expect(blocks).toEqual([['outer', 0, 2], ['inner', 1, 2]]);
+  });
+
+  test('a chain of overlaps shares one group and reuses freed columns', () => {
+    const blocks = columnsOf([
+      event('a', '09:00', '10:30'),
+      event('b', '10:00', '11:30'),
+      event('c', '11:00', '12:00'),
+    ]);
+    // c doesn't overlap a, so it drops back into a's column - but the group is still two wide
+    expect(blocks).toEqual([['a', 0, 2], ['b', 1, 2], ['c', 0, 2]]);
+  });
+
+  test('events that only touch get the full width each', () => {
+    const blocks = columnsOf([event('first', '09:00', '10:00'), event('second', '10:00', '11:00')]);
+    expect(blocks).toEqual([['first', 0, 1], ['second', 0, 1]]);
+  });
+
+  test('on equal starts the longer event takes the left column', () => {
+    const blocks = columnsOf([event('short', '09:00', '09:30'), event('long', '09:00', '11:00')]);
+    expect(blocks).toEqual([['long', 0, 2], ['short', 1, 2]]);
+  });
+
+  test('short events get a minimum height and overnight events are clamped to the day', () => {
+    const blocks = layoutDayEvents([
+      event('blip', '09:00', '09:05'),
+      timed('overnight', at('22:00'), '2025-03-11T02:00:00Z'),
+      timed('yesterday', '2025-03-09T23:00:00Z', at('01:00')),
+    ], day, 'UTC');
+
+    const byId = Object.fromEntries(blocks.map(block => [block.event.id, block]));
+    expect(byId.blip.endMinutes - byId.blip.startMinutes).toBe(MIN_BLOCK_MINUTES);
+    expect(byId.overnight).toMatchObject({ startMinutes: 22 * 60, endMinutes: 24 * 60 });
+    expect(byId.yesterday).toMatchObject({ startMinutes: 0, endMinutes: 60 });
+  });
+});
@@ -0,0 +1,59 @@
+import { parseFieldErrors, passwordStrength, validateRegistration } from '../src/utils/validation';
+import { RegisterRequest } from '../src/types';
+
+describe('validation', () => {
+  const valid: RegisterRequest = {
+    email: 'ada@example.com',
+    username: 'ada',
+    password: 'Analytical1',
+    password_confirm: 'Analytical1',
+    timezone: 'Europe/London',
+  };
+
+  test('a complete form has no errors', () => {
+    expect(validateRegistration(valid)).toEqual({});
+  });
+
+  test('flags each field with its own message', () => {
+    const errors = validateRegistration({
+      email: 'not-an-email',
+      username: 'a b',
+      password: '12345678',
+      password_confirm: '1234',
+      timezone: 'Mars/Olympus',
+    });
+    expect(Object.keys(errors).sort()).toEqual(['email', 'password', 'password_confirm', 'timezone', 'username']);
+    expect(errors.password).toMatch(/only numbers/);
+    expect(errors.password_confirm).toMatch(/match/);
+  });
+
+  test('rejects weak passwords and ones that repeat the username', () => {
+    expect(validateRegistration({ ...valid, password: 'abcdefgh', password_confirm: 'abcdefgh' }).password)
+      .toBeDefined();
+    expect(validateRegistration({ ...valid, username: 'Secret123', password: 'secret123', password_confirm: 'secret123' }).password)
+      .toMatch(/username/);
+  });
+
+  test('scores password strength', () => {
+    expect(passwordStrength('short').label).toBe('Too short');
+    expect(passwordStrength('aaaaaaaaaaaa').label).toBe('Weak');
+    expect(passwordStrength('abcdefg1').label).toBe('Fair');
+    expect(passwordStrength('Abcdefg1').label).toBe('Good');
+    expect(passwordStrength('Abcdefg1!xyz').label).toBe('Strong');
+  });
+
+  test('maps server errors onto form fields', () => {
+    expect(parseFieldErrors({
+      email: ['user with this email already exists.'],
+      password2: ['Passwords do not match.'],
+      non_field_errors: ['Something else went wrong.'],
+      username: 'Taken',
+    }, { password2: 'password_confirm' })).toEqual({
+      email: 'user with this email already exists.',
+      password_confirm: 'Passwords do not match.',
+      general: 'Something else went wrong.',
+      username: 'Taken',
+    });
+    expect(parseFieldErrors('<html>Server Error</html>')).toEqual({});
+  });
+});
@@ -0,0 +1,281 @@
+// AgendaView - scrolling list of events grouped by day, loading more time in both directions
+// Scrolling ahead pages through the server's event list; scrolling back loads date ranges.
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useDispatch } from 'react-redux';
+import { Calendar, Event } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { AppDispatch } from '../store/store';
+import { fetchEventsInRange, fetchEventsPage } from '../store/slices/eventsSlice';
+import { expandEvents } from '../utils/recurrence';
+import { addDays, eventDateKey, formatDateKey, formatTime, parseDateKey, todayKey } from '../utils/dateTime';
+
+interface AgendaViewProps {
+  events: Event[];  // raw events from the store; recurring ones are expanded here
+  calendars: Calendar[];
+  timeZone: string;  // days and times are shown in this zone
+  onEventPress: (event: Event) => void;
+}
+
+interface AgendaSection {
+  dateKey: string;
+  data: Event[];
+}
+
+// How much time each scroll-triggered load adds going back (and the first screenful ahead)
+const CHUNK_DAYS = 28;
+
+export const AgendaView: React.FC<AgendaViewProps> = ({ events, calendars, timeZone, onEventPress }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const listRef = useRef<SectionList<Event, AgendaSection>>(null);
+  const hasScrolledToToday = useRef(false);
+
+  const [range, setRange] = useState(() => ({
+    start: addDays(todayKey(timeZone), -7),
+    end: addDays(todayKey(timeZone), CHUNK_DAYS),
+  }));
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [loadingLater, setLoadingLater] = useState(false);
+  // The list can fire its reached callbacks again before the loading state re-renders
+  const loadingEarlierRef = useRef(false);
+  const loadingLaterRef = useRef(false);
+  const hasLoadedInitialRange = useRef(false);
+  // Where paging ahead continues: not started yet, the next page's URL, or null once the server has no more
+  const nextPageRef = useRef<string | null | undefined>(undefined);
+
+  // Loaded now, or skipped because the cache already had it; a failure leaves the range
+  // where it was so the next scroll asks again
+  const loadRange = useCallback(async (startDate: string, endDate: string) => {
+    const result = await dispatch(fetchEventsInRange({ startDate, endDate }));
+    return !fetchEventsInRange.rejected.match(result) || result.meta.condition;
+  }, [dispatch]);
+
+  const loadEarlier = useCallback(async () => {
+    if (loadingEarlierRef.current) return;
+    loadingEarlierRef.current = true;
+    setLoadingEarlier(true);
+    const start = addDays(range.start, -CHUNK_DAYS);
+    if (await loadRange(start, range.start)) {
+      setRange(prev => ({ ...prev, start }));
+    }
+    loadingEarlierRef.current = false;
+    setLoadingEarlier(false);
+  }, [loadRange, range.start]);
+
+  const loadLater = useCallback(async () => {
+    if (loadingLaterRef.current) return;
+    loadingLaterRef.current = true;
+    setLoadingLater(true);
+
+    // Pages come in start order, so every day before the last one on a page is complete.
+    // Keep paging until that moves the end of the list, or the server runs out.
+    let end = range.end;
+    while (end <= range.end && nextPageRef.current !== null) {
+      const result = await dispatch(fetchEventsPage({ startDate: range.start, next: nextPageRef.current }));
+      if (!fetchEventsPage.fulfilled.match(result)) break;  // the next scroll asks again
+
+      const { results, next } = result.payload;
+      nextPageRef.current = next;
+      const lastDay = results.length > 0 ? eventDateKey(results[results.length - 1], timeZone) : end;
+      const complete = next ? lastDay : addDays(lastDay, 1);
+      if (complete > end) end = complete;
+    }
+    // Nothing left on the server - only repeats of recurring events lie further ahead
+    if (nextPageRef.current === null && end <= range.end) {
+      end = addDays(range.end, CHUNK_DAYS);
+    }
+
+    if (end > range.end) {
+      setRange(prev => ({ ...prev, end: end > prev.end ? end : prev.end }));
+    }
+    loadingLaterRef.current = false;
+    setLoadingLater(false);
+  }, [dispatch, range.start, range.end, timeZone]);
+
+  // First pages, once - later ones are requested by the scroll handlers
+  useEffect(() => {
+    if (hasLoadedInitialRange.current) return;
+    hasLoadedInitialRange.current = true;
+    loadLater();
+  }, [loadLater]);
+
+  const sections = useMemo(() => {
+    const rangeStart = parseDateKey(range.start, timeZone);
+    const rangeEnd = parseDateKey(range.end, timeZone);
+    const grouped: { [dateKey: string]: Event[] } = {};
+
+    expandEvents(events, rangeStart, rangeEnd, timeZone).forEach(event => {
+      const dateKey = eventDateKey(event, timeZone);
+      if (dateKey < range.start || dateKey >= range.end) return;
+      (grouped[dateKey] = grouped[dateKey] || []).push(event);
+    });
+
+    return Object.keys(grouped)
+      .sort()
+      .map(dateKey => ({
+        dateKey,
+        // All-day events first, then by start time
+        data: grouped[dateKey].sort((a, b) =>
+          Number(b.all_day) - Number(a.all_day) ||
+          new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+        ),
+      }));
+  }, [events, range, timeZone]);
+
+  // Open on today (or the next day that has something on)
+  const scrollToToday = useCallback(() => {
+    if (hasScrolledToToday.current || sections.length === 0) return;
+    hasScrolledToToday.current = true;
+    const today = todayKey(timeZone);
+    const index = sections.findIndex(section => section.dateKey >= today);
+    listRef.current?.scrollToLocation({
+      sectionIndex: index === -1 ? sections.length - 1 : index,
+      itemIndex: 0,
+      viewPosition: 0,
+      animated: false,
+    });
+  }, [sections, timeZone]);
+
+  useEffect(() => {
+    scrollToToday();
+  }, [scrollToToday]);
+
+  const getCalendarColor = (event: Event): string => {
+    const calendar = calendars.find(c => c.id === event.calendar?.id);
+    return event.color || calendar?.color || COLORS.PRIMARY;
+  };
+
+  const formatTimeRange = (event: Event): string => {
+    if (event.all_day) return 'All day';
+    return `${formatTime(event.start_time, timeZone)} - ${formatTime(event.end_time, timeZone)}`;
+  };
+
+  const renderSectionHeader = ({ section }: { section: AgendaSection }) => {
+    const isToday = section.dateKey === todayKey(timeZone);
+    return (
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, isToday && styles.todayTitle]}>
+          {isToday ? 'Today · ' : ''}
+          {formatDateKey(section.dateKey, { weekday: 'long', month: 'long', day: 'numeric' })}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderItem = ({ item: event }: { item: Event }) => (
+    <TouchableOpacity
+      style={[styles.eventRow, { borderLeftColor: getCalendarColor(event) }]}
+      onPress={() => onEventPress(event)}
+    >
+      <Text style={[styles.eventTime, event.completed && styles.completedText]}>
+        {formatTimeRange(event)}
+      </Text>
+      <Text style={[styles.eventTitle, event.completed && styles.completedText]} numberOfLines={1}>
+        {event.recurrence_rule ? '🔁 ' : ''}{event.title}
+      </Text>
+      {event.location && (
+        <Text style={styles.eventLocation} numberOfLines={1}>📍 {event.location}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SectionList
+      ref={listRef}
+      sections={sections}
+      keyExtractor={item => item.id}
+      renderItem={renderItem}
+      renderSectionHeader={renderSectionHeader}
+      stickySectionHeadersEnabled
+      onScrollToIndexFailed={() => {
+        // Rows not measured yet - try again once they are
+        hasScrolledToToday.current = false;
+        setTimeout(scrollToToday, 100);
+      }}
+      onStartReached={loadEarlier}
+      onStartReachedThreshold={0.5}
+      onEndReached={loadLater}
+      onEndReachedThreshold={0.5}
+      maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+      ListHeaderComponent={loadingEarlier ? <ActivityIndicator style={styles.loader} color={COLORS.PRIMARY} /> : null}
+      ListFooterComponent={loadingLater ? <ActivityIndicator style={styles.loader} color={COLORS.PRIMARY} /> : <View style={styles.footerSpacer} />}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyTitle}>Nothing scheduled</Text>
+          <Text style={styles.emptySubtitle}>Scroll to load more or tap + to add an event</Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionHeader: {
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  todayTitle: {
+    color: COLORS.PRIMARY,
+  },
+  eventRow: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderLeftWidth: 4,
+    marginHorizontal: 16,
+    marginVertical: 6,
+    borderRadius: 8,
+    padding: 12,
+  },
+  eventTime: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 2,
+  },
+  eventTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  eventLocation: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 2,
+  },
+  completedText: {
+    textDecorationLine: 'line-through',
+    opacity: 0.6,
+  },
+  loader: {
+    paddingVertical: 16,
+  },
+  footerSpacer: {
+    height: 100,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    textAlign: 'center',
+  },
+});
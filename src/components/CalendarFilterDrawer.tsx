@@ -0,0 +1,153 @@
+// Drawer listing every calendar with a switch to show or hide its events on the Calendar tab
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Switch,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Calendar } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+
+interface CalendarFilterDrawerProps {
+  visible: boolean;
+  calendars: Calendar[];
+  hiddenCalendarIds: string[];
+  onToggle: (calendarId: string) => void;
+  onShowAll: () => void;
+  onClose: () => void;
+}
+
+export const CalendarFilterDrawer: React.FC<CalendarFilterDrawerProps> = ({
+  visible,
+  calendars,
+  hiddenCalendarIds,
+  onToggle,
+  onShowAll,
+  onClose,
+}) => (
+  <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+    <View style={styles.backdrop}>
+      <TouchableOpacity style={styles.dismissArea} onPress={onClose} />
+      <View style={styles.drawer}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Show calendars</Text>
+          <TouchableOpacity onPress={onShowAll} disabled={hiddenCalendarIds.length === 0}>
+            <Text style={[styles.showAllText, hiddenCalendarIds.length === 0 && styles.disabledText]}>
+              Show all
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.list}>
+          {calendars.length === 0 && (
+            <Text style={styles.emptyText}>No calendars yet</Text>
+          )}
+          {calendars.map(calendar => (
+            <View key={calendar.id} style={styles.row}>
+              <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+              <View style={styles.rowText}>
+                <Text style={styles.calendarName} numberOfLines={1}>{calendar.name}</Text>
+                {calendar.is_active === false && (
+                  <Text style={styles.inactiveText}>Inactive</Text>
+                )}
+              </View>
+              <Switch
+                value={!hiddenCalendarIds.includes(calendar.id)}
+                onValueChange={() => onToggle(calendar.id)}
+                trackColor={{ false: COLORS.BACKGROUND.SECONDARY, true: calendar.color }}
+              />
+            </View>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+          <Text style={styles.doneText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  drawer: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  showAllText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  calendarName: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  inactiveText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.DISABLED,
+  },
+  doneButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  doneText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+});
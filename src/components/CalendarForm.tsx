@@ -0,0 +1,400 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Calendar } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { deviceTimeZone, isValidTimeZone } from '../utils/dateTime';
+
+interface CalendarFormProps {
+  calendar?: Calendar;
+  onSave: (calendarData: Partial<Calendar>) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+const VISIBILITY_HINTS: Record<Calendar['visibility'], string> = {
+  private: 'Only you can see this calendar',
+  shared: 'People you share it with can see it',
+  public: 'Anyone with the link can see it',
+};
+
+export const CalendarForm: React.FC<CalendarFormProps> = ({
+  calendar,
+  onSave,
+  onCancel,
+  isLoading = false,
+}) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    color: '#2196F3',
+    visibility: 'private' as Calendar['visibility'],
+    timezone: deviceTimeZone(),
+    isActive: true,
+  });
+
+  const visibilities: Calendar['visibility'][] = ['private', 'shared', 'public'];
+  const colors = [
+    '#2196F3', // Blue
+    '#4CAF50', // Green
+    '#FF9800', // Orange
+    '#F44336', // Red
+    '#9C27B0', // Purple
+    '#009688', // Teal
+    '#795548', // Brown
+    '#607D8B', // Blue Grey
+  ];
+  // Quick picks - any IANA name can be typed in
+  const timeZones = [...new Set([
+    deviceTimeZone(),
+    'UTC',
+    'America/New_York',
+    'America/Chicago',
+    'America/Los_Angeles',
+    'Europe/London',
+    'Europe/Berlin',
+    'Asia/Tokyo',
+  ])];
+
+  useEffect(() => {
+    if (calendar) {
+      setFormData({
+        name: calendar.name || '',
+        description: calendar.description || '',
+        color: calendar.color || '#2196F3',
+        visibility: calendar.visibility || 'private',
+        timezone: calendar.timezone || deviceTimeZone(),
+        isActive: calendar.is_active !== undefined ? calendar.is_active : true,
+      });
+    }
+  }, [calendar]);
+
+  const handleSave = () => {
+    if (!formData.name.trim()) {
+      Alert.alert('Error', 'Please enter a name for your calendar');
+      return;
+    }
+
+    if (!isValidTimeZone(formData.timezone.trim())) {
+      Alert.alert('Error', 'Please enter a time zone such as Europe/Berlin');
+      return;
+    }
+
+    const calendarData: Partial<Calendar> = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+      color: formData.color,
+      visibility: formData.visibility,
+      timezone: formData.timezone.trim(),
+      is_active: formData.isActive,
+    };
+
+    onSave(calendarData);
+  };
+
+  const updateFormData = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const renderColorPicker = () => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Color</Text>
+      <View style={styles.colorContainer}>
+        {colors.map((color) => (
+          <TouchableOpacity
+            key={color}
+            style={[
+              styles.colorOption,
+              { backgroundColor: color },
+              formData.color === color && styles.selectedColorOption,
+            ]}
+            onPress={() => updateFormData('color', color)}
+          >
+            {formData.color === color && (
+              <Text style={styles.colorCheckmark}>✓</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderVisibility = () => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Visibility</Text>
+      <View style={styles.dropdownContainer}>
+        {visibilities.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[
+              styles.dropdownOption,
+              formData.visibility === option && styles.selectedDropdownOption,
+            ]}
+            onPress={() => updateFormData('visibility', option)}
+          >
+            <Text
+              style={[
+                styles.dropdownOptionText,
+                formData.visibility === option && styles.selectedDropdownOptionText,
+              ]}
+            >
+              {option.toUpperCase()}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>{VISIBILITY_HINTS[formData.visibility]}</Text>
+    </View>
+  );
+
+  const renderTimeZone = () => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Time Zone</Text>
+      <TextInput
+        style={styles.input}
+        value={formData.timezone}
+        onChangeText={(value) => updateFormData('timezone', value)}
+        placeholder="e.g., Europe/Berlin"
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <View style={[styles.dropdownContainer, styles.timeZoneChips]}>
+        {timeZones.map((zone) => (
+          <TouchableOpacity
+            key={zone}
+            style={[
+              styles.dropdownOption,
+              formData.timezone === zone && styles.selectedDropdownOption,
+            ]}
+            onPress={() => updateFormData('timezone', zone)}
+          >
+            <Text
+              style={[
+                styles.dropdownOptionText,
+                formData.timezone === zone && styles.selectedDropdownOptionText,
+              ]}
+            >
+              {zone}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>Used when the calendar is exported or shared</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {calendar ? 'Edit Calendar' : 'Create Calendar'}
+        </Text>
+        <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.form} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Name */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Name *</Text>
+          <TextInput
+            style={styles.input}
+            value={formData.name}
+            onChangeText={(value) => updateFormData('name', value)}
+            placeholder="e.g., Work, Family"
+            maxLength={100}
+          />
+        </View>
+
+        {/* Description */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={formData.description}
+            onChangeText={(value) => updateFormData('description', value)}
+            placeholder="What is this calendar for? (optional)"
+            multiline
+            numberOfLines={3}
+            maxLength={500}
+          />
+        </View>
+
+        {/* Color Picker */}
+        {renderColorPicker()}
+
+        {/* Visibility */}
+        {renderVisibility()}
+
+        {/* Time Zone */}
+        {renderTimeZone()}
+
+        {/* Active Toggle */}
+        <View style={styles.switchContainer}>
+          <Text style={styles.label}>Active</Text>
+          <Switch
+            value={formData.isActive}
+            onValueChange={(value) => updateFormData('isActive', value)}
+            trackColor={{ false: '#767577', true: COLORS.PRIMARY }}
+            thumbColor={formData.isActive ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+
+        {/* Save Button */}
+        <TouchableOpacity
+          style={[styles.saveButton, isLoading && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isLoading}
+        >
+          <Text style={styles.saveButtonText}>
+            {isLoading ? 'Saving...' : calendar ? 'Update Calendar' : 'Create Calendar'}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  form: {
+    flex: 1,
+    padding: 20,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  dropdownContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  timeZoneChips: {
+    marginTop: 8,
+  },
+  dropdownOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  selectedDropdownOption: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  dropdownOptionText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedDropdownOptionText: {
+    color: 'white',
+  },
+  colorContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedColorOption: {
+    borderColor: COLORS.TEXT.PRIMARY,
+  },
+  colorCheckmark: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  switchContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+    paddingVertical: 8,
+  },
+  saveButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
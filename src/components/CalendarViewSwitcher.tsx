@@ -0,0 +1,63 @@
+// Segmented control for the Calendar tab's display modes
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { CalendarViewMode } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+
+interface CalendarViewSwitcherProps {
+  value: CalendarViewMode;
+  onChange: (mode: CalendarViewMode) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+const MODES: { mode: CalendarViewMode; label: string }[] = [
+  { mode: 'month', label: 'Month' },
+  { mode: 'week', label: 'Week' },
+  { mode: '3day', label: '3 Day' },
+  { mode: 'day', label: 'Day' },
+  { mode: 'agenda', label: 'Agenda' },
+];
+
+export const CalendarViewSwitcher: React.FC<CalendarViewSwitcherProps> = ({ value, onChange, style }) => (
+  <View style={[styles.container, style]}>
+    {MODES.map(({ mode, label }) => (
+      <TouchableOpacity
+        key={mode}
+        style={[styles.option, value === mode && styles.activeOption]}
+        onPress={() => onChange(mode)}
+      >
+        <Text style={[styles.optionText, value === mode && styles.activeOptionText]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 4,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  activeOption: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '500',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  activeOptionText: {
+    color: 'white',
+  },
+});
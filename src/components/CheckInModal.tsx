@@ -0,0 +1,170 @@
+// Asks how much progress to log against a goal, with an optional note
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Goal } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { parseCheckInAmount } from '../utils/goalProgress';
+
+interface CheckInModalProps {
+  visible: boolean;
+  goal: Goal | null;
+  onSubmit: (amount: number, note?: string) => void;
+  onCancel: () => void;
+}
+
+export const CheckInModal: React.FC<CheckInModalProps> = ({
+  visible,
+  goal,
+  onSubmit,
+  onCancel,
+}) => {
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start blank every time it opens
+  useEffect(() => {
+    if (visible) {
+      setAmount('');
+      setNote('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    const parsed = parseCheckInAmount(amount);
+    if (parsed === null) {
+      setError('Enter an amount like 2 or -1');
+      return;
+    }
+    onSubmit(parsed, note.trim() || undefined);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Log progress</Text>
+          {goal && (
+            <Text style={styles.subtitle}>
+              {goal.title} · {goal.current_value}
+              {goal.target_value ? `/${goal.target_value}` : ''}
+              {goal.unit ? ` ${goal.unit}` : ''}
+            </Text>
+          )}
+
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            value={amount}
+            onChangeText={value => {
+              setAmount(value);
+              setError(null);
+            }}
+            placeholder={`Amount${goal?.unit ? ` (${goal.unit})` : ''}`}
+            placeholderTextColor={COLORS.TEXT.DISABLED}
+            keyboardType="numbers-and-punctuation"
+            autoFocus
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Note (optional)"
+            placeholderTextColor={COLORS.TEXT.DISABLED}
+            multiline
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSubmit}>
+              <Text style={styles.saveText}>Log</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 12,
+  },
+  inputError: {
+    borderColor: COLORS.ERROR,
+  },
+  noteInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.ERROR,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  saveText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+});
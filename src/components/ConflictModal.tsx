@@ -0,0 +1,214 @@
+// Lists the events a new or edited event overlaps and asks what to do about it
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { ConflictScope, EventConflict } from '../utils/conflicts';
+import { formatDate, formatTime } from '../utils/dateTime';
+
+interface ConflictModalProps {
+  visible: boolean;
+  conflicts: EventConflict[];
+  scope: ConflictScope;
+  timeZone: string;
+  // Hidden when the event is already tentative
+  canMarkTentative: boolean;
+  onScopeChange: (scope: ConflictScope) => void;
+  onSaveAnyway: () => void;
+  onMarkTentative: () => void;
+  onPickAnotherTime: () => void;
+}
+
+const SCOPES: { scope: ConflictScope; label: string }[] = [
+  { scope: 'calendar', label: 'This calendar' },
+  { scope: 'all', label: 'All calendars' },
+];
+
+const describeTime = (conflict: EventConflict, timeZone: string): string => {
+  if (conflict.event.all_day) {
+    return `${formatDate(conflict.start, timeZone)} · All day`;
+  }
+  return `${formatDate(conflict.start, timeZone)} · ${formatTime(conflict.start, timeZone)} - ${formatTime(conflict.end, timeZone)}`;
+};
+
+export const ConflictModal: React.FC<ConflictModalProps> = ({
+  visible,
+  conflicts,
+  scope,
+  timeZone,
+  canMarkTentative,
+  onScopeChange,
+  onSaveAnyway,
+  onMarkTentative,
+  onPickAnotherTime,
+}) => (
+  <Modal visible={visible} transparent animationType="fade" onRequestClose={onPickAnotherTime}>
+    <View style={styles.backdrop}>
+      <View style={styles.sheet}>
+        <Text style={styles.title}>
+          {conflicts.length === 0
+            ? 'No conflicts'
+            : `Overlaps ${conflicts.length} ${conflicts.length === 1 ? 'event' : 'events'}`}
+        </Text>
+
+        <View style={styles.scopeContainer}>
+          {SCOPES.map(option => (
+            <TouchableOpacity
+              key={option.scope}
+              style={[styles.scopeOption, scope === option.scope && styles.selectedScopeOption]}
+              onPress={() => onScopeChange(option.scope)}
+            >
+              <Text style={[styles.scopeText, scope === option.scope && styles.selectedScopeText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ScrollView style={styles.list}>
+          {conflicts.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing else is booked at this time in this calendar.</Text>
+          ) : (
+            conflicts.map(conflict => (
+              <View key={conflict.event.id} style={styles.conflict}>
+                <View
+                  style={[
+                    styles.colorDot,
+                    { backgroundColor: conflict.event.color || conflict.event.calendar?.color || COLORS.PRIMARY },
+                  ]}
+                />
+                <View style={styles.conflictInfo}>
+                  <Text style={styles.conflictTitle} numberOfLines={1}>
+                    {conflict.event.title}
+                    {conflict.event.status === 'tentative' ? ' (tentative)' : ''}
+                  </Text>
+                  <Text style={styles.conflictTime}>{describeTime(conflict, timeZone)}</Text>
+                  {scope === 'all' && conflict.event.calendar?.name ? (
+                    <Text style={styles.conflictTime}>{conflict.event.calendar.name}</Text>
+                  ) : null}
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.option} onPress={onSaveAnyway}>
+          <Text style={styles.optionText}>{conflicts.length === 0 ? 'Save' : 'Save anyway'}</Text>
+        </TouchableOpacity>
+        {canMarkTentative && conflicts.length > 0 && (
+          <TouchableOpacity style={styles.option} onPress={onMarkTentative}>
+            <Text style={styles.optionText}>Save as tentative</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.cancelButton} onPress={onPickAnotherTime}>
+          <Text style={styles.cancelText}>Pick another time</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 12,
+  },
+  scopeContainer: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  scopeOption: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  selectedScopeOption: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  scopeText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '500',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  selectedScopeText: {
+    color: 'white',
+  },
+  list: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    paddingVertical: 8,
+  },
+  conflict: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 5,
+    marginRight: 10,
+  },
+  conflictInfo: {
+    flex: 1,
+  },
+  conflictTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '500',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  conflictTime: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 2,
+  },
+  option: {
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.PRIMARY,
+    fontWeight: '500',
+  },
+  cancelButton: {
+    paddingTop: 16,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '600',
+  },
+});
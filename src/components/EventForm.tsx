@@ -9,17 +9,37 @@ import {
   Alert,
   Switch,
 } from 'react-native';
-import { useSelector } from 'react-redux';
-import { Event, Calendar } from '../types';
+import { useDispatch, useSelector, useStore } from 'react-redux';
+import { Event, EventWriteData, Calendar, RecurrenceFrequency, RecurrenceRule, Weekday } from '../types';
 import { COLORS, FONT_SIZES } from '../constants/config';
-import { RootState } from '../store/store';
+import { AppDispatch, RootState } from '../store/store';
+import { fetchEventsInRange } from '../store/slices/eventsSlice';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  formatRRule,
+  isFormEditableRule,
+  parseRRule,
+} from '../utils/recurrence';
+import { REMINDER_PRESETS, formatReminderOffset } from '../utils/reminders';
+import reminderScheduler from '../services/reminders';
+import { addDays, joinDateTime, splitDateTime, todayKey } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+import { ConflictModal } from './ConflictModal';
+import { CONFLICT_HORIZON_DAYS, ConflictScope, findConflicts } from '../utils/conflicts';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]?\d|2[0-3]):[0-5]\d$/;
 
 interface EventFormProps {
   event?: Event;
-  onSave: (eventData: Partial<Event>) => void;
+  onSave: (eventData: EventWriteData) => void;
   onCancel: () => void;
   isLoading?: boolean;
   initialDate?: string;
+  initialStart?: string;  // ISO instants, e.g. a free slot picked in Find a Time
+  initialEnd?: string;
 }
 
 export const EventForm: React.FC<EventFormProps> = ({
@@ -28,49 +48,97 @@ export const EventForm: React.FC<EventFormProps> = ({
   onCancel,
   isLoading = false,
   initialDate,
+  initialStart,
+  initialEnd,
 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
   const { calendars } = useSelector((state: RootState) => state.calendars);
+  const { events } = useSelector((state: RootState) => state.events);
+  // Dates and times are typed in the user's zone and sent to the server as UTC
+  const timeZone = useTimeZone();
+  const initialStartFields = initialStart ? splitDateTime(initialStart, timeZone) : null;
+  const initialEndFields = initialEnd ? splitDateTime(initialEnd, timeZone) : null;
   
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     location: '',
-    startDate: initialDate || new Date().toISOString().split('T')[0],
-    startTime: '09:00',
-    endDate: initialDate || new Date().toISOString().split('T')[0],
-    endTime: '10:00',
+    startDate: initialStartFields?.date || initialDate || todayKey(timeZone),
+    startTime: initialStartFields?.time || '09:00',
+    endDate: initialEndFields?.date || initialDate || todayKey(timeZone),
+    endTime: initialEndFields?.time || '10:00',
     allDay: false,
     calendarId: calendars.length > 0 ? calendars[0].id : '',
     status: 'confirmed',
     isPrivate: false,
+    repeat: 'none',
+    repeatInterval: '1',
+    repeatDays: [] as Weekday[],
+    repeatEnd: 'never',
+    repeatCount: '10',
+    repeatUntil: '',
+    reminders: reminderScheduler.getSettings().defaultMinutes,
   });
 
+  // An existing rule is saved exactly as it was unless the repeat controls are changed -
+  // rebuilding it from the controls would drop anything they can't show
+  const [repeatTouched, setRepeatTouched] = useState(false);
+  const keepsOriginalRule = !!event?.recurrence_rule && !repeatTouched;
+  const isCustomRule = !!event?.recurrence_rule && !isFormEditableRule(event.recurrence_rule);
+
+  // Event data held back while the user decides what to do about overlaps
+  const [pendingSave, setPendingSave] = useState<EventWriteData | null>(null);
+  const [conflictScope, setConflictScope] = useState<ConflictScope>('all');
+  const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
+
   const statuses = ['confirmed', 'tentative', 'cancelled'];
+  const repeatOptions = ['none', 'daily', 'weekly', 'monthly', 'yearly'];
+  const repeatEndOptions = ['never', 'count', 'until'];
 
   useEffect(() => {
     if (event) {
-      const startDateTime = new Date(event.start_time);
-      const endDateTime = new Date(event.end_time);
+      // All-day events are stored as floating dates, so they're read as written
+      const start = event.all_day
+        ? { date: event.start_time.slice(0, 10), time: '09:00' }
+        : splitDateTime(event.start_time, timeZone);
+      const end = event.all_day
+        ? { date: event.end_time.slice(0, 10), time: '10:00' }
+        : splitDateTime(event.end_time, timeZone);
+
+      let rule: RecurrenceRule | null = null;
+      try {
+        rule = event.recurrence_rule ? parseRRule(event.recurrence_rule) : null;
+      } catch (error) {
+        console.warn('EventForm: Ignoring unreadable recurrence rule:', event.recurrence_rule);
+      }
       
       setFormData({
         title: event.title || '',
         description: event.description || '',
         location: event.location || '',
-        startDate: startDateTime.toISOString().split('T')[0],
-        startTime: startDateTime.toTimeString().slice(0, 5),
-        endDate: endDateTime.toISOString().split('T')[0],
-        endTime: endDateTime.toTimeString().slice(0, 5),
+        startDate: start.date,
+        startTime: start.time,
+        endDate: end.date,
+        endTime: end.time,
         allDay: event.all_day,
         calendarId: event.calendar.id,
         status: event.status,
         isPrivate: event.is_private,
+        repeat: rule ? rule.frequency : 'none',
+        repeatInterval: rule ? rule.interval.toString() : '1',
+        repeatDays: rule?.byDay?.map(d => d.day) || [],
+        repeatEnd: rule?.count ? 'count' : rule?.until ? 'until' : 'never',
+        repeatCount: rule?.count ? rule.count.toString() : '10',
+        repeatUntil: rule?.until ? splitDateTime(rule.until, timeZone).date : '',
+        reminders: event.reminders || [],
       });
     } else if (calendars.length > 0 && !formData.calendarId) {
       setFormData(prev => ({ ...prev, calendarId: calendars[0].id }));
     }
-  }, [event, calendars]);
+  }, [event, calendars, timeZone]);
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.title.trim()) {
       Alert.alert('Error', 'Please enter a title for your event');
       return;
@@ -81,15 +149,63 @@ export const EventForm: React.FC<EventFormProps> = ({
       return;
     }
 
+    if (!DATE_KEY.test(formData.startDate) || !DATE_KEY.test(formData.endDate)) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return;
+    }
+
+    if (!formData.allDay && (!TIME.test(formData.startTime) || !TIME.test(formData.endTime))) {
+      Alert.alert('Error', 'Please enter times as HH:MM');
+      return;
+    }
+
     const startDateTime = formData.allDay 
       ? `${formData.startDate}T00:00:00`
-      : `${formData.startDate}T${formData.startTime}:00`;
+      : joinDateTime(formData.startDate, formData.startTime, timeZone);
     
     const endDateTime = formData.allDay
       ? `${formData.endDate}T23:59:59`
-      : `${formData.endDate}T${formData.endTime}:00`;
+      : joinDateTime(formData.endDate, formData.endTime, timeZone);
+
+    let recurrenceRule: string | null = null;
+    if (keepsOriginalRule) {
+      recurrenceRule = event!.recurrence_rule!;
+    } else if (formData.repeat !== 'none') {
+      const interval = parseInt(formData.repeatInterval, 10);
+      if (!interval || interval < 1) {
+        Alert.alert('Error', 'Repeat interval must be a positive number');
+        return;
+      }
 
-    const eventData: any = {
+      const rule: RecurrenceRule = {
+        frequency: formData.repeat as RecurrenceFrequency,
+        interval,
+      };
+      if (formData.repeat === 'weekly') {
+        // Default to the weekday the event starts on
+        const days = formData.repeatDays.length > 0
+          ? formData.repeatDays
+          : [WEEKDAYS[new Date(`${formData.startDate}T00:00:00`).getDay()]];
+        rule.byDay = days.map(day => ({ day }));
+      }
+      if (formData.repeatEnd === 'count') {
+        const count = parseInt(formData.repeatCount, 10);
+        if (!count || count < 1) {
+          Alert.alert('Error', 'Please enter how many times the event repeats');
+          return;
+        }
+        rule.count = count;
+      } else if (formData.repeatEnd === 'until') {
+        if (!DATE_KEY.test(formData.repeatUntil)) {
+          Alert.alert('Error', 'Please enter the last repeat date as YYYY-MM-DD');
+          return;
+        }
+        rule.until = joinDateTime(formData.repeatUntil, '23:59', timeZone);
+      }
+      recurrenceRule = formatRRule(rule);
+    }
+
+    const eventData: EventWriteData = {
       title: formData.title.trim(),
       description: formData.description.trim() || undefined,
       location: formData.location.trim() || undefined,
@@ -99,12 +215,57 @@ export const EventForm: React.FC<EventFormProps> = ({
       calendar: formData.calendarId,  // Backend expects 'calendar' not 'calendar_id'
       status: formData.status as Event['status'],
       is_private: formData.isPrivate,
+      recurrence_rule: recurrenceRule,
+      reminders: [...formData.reminders].sort((a, b) => a - b),
     };
 
+    if (eventData.status !== 'cancelled') {
+      // The cache may not hold these dates yet - load them so the check sees every event there.
+      // Offline the fetch fails and the check falls back to what is cached.
+      const lastDay = recurrenceRule ? addDays(formData.startDate, CONFLICT_HORIZON_DAYS) : formData.endDate;
+      setIsCheckingConflicts(true);
+      await dispatch(fetchEventsInRange({ startDate: addDays(formData.startDate, -1), endDate: addDays(lastDay, 1) }));
+      setIsCheckingConflicts(false);
+
+      if (conflictsFor(eventData, conflictScope, store.getState().events.events).length > 0) {
+        setPendingSave(eventData);
+        return;
+      }
+    }
+
     console.log('EventForm: Sending event data:', eventData);
     onSave(eventData);
   };
 
+  // The form always fills in the calendar, times and all-day flag
+  const conflictsFor = (eventData: EventWriteData, scope: ConflictScope, candidates: Event[] = events) =>
+    findConflicts(
+      {
+        id: event?.id,
+        calendarId: eventData.calendar!,
+        start_time: eventData.start_time!,
+        end_time: eventData.end_time!,
+        all_day: eventData.all_day!,
+        recurrence_rule: eventData.recurrence_rule,
+      },
+      candidates,
+      scope,
+      timeZone
+    );
+
+  const conflicts = pendingSave ? conflictsFor(pendingSave, conflictScope) : [];
+
+  const resolveConflicts = (status?: Event['status']) => {
+    if (!pendingSave) return;
+    const eventData = status ? { ...pendingSave, status } : pendingSave;
+    setPendingSave(null);
+    if (status) {
+      updateFormData('status', status);
+    }
+    console.log('EventForm: Sending event data despite conflicts:', eventData);
+    onSave(eventData);
+  };
+
   const updateFormData = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -141,6 +302,154 @@ export const EventForm: React.FC<EventFormProps> = ({
     </View>
   );
 
+  const updateRepeat = (field: string, value: any) => {
+    setRepeatTouched(true);
+    updateFormData(field, value);
+  };
+
+  const toggleRepeatDay = (day: Weekday) => {
+    setRepeatTouched(true);
+    setFormData(prev => ({
+      ...prev,
+      repeatDays: prev.repeatDays.includes(day)
+        ? prev.repeatDays.filter(d => d !== day)
+        : [...prev.repeatDays, day],
+    }));
+  };
+
+  const renderRecurrenceOptions = () => (
+    <>
+      {isCustomRule && (
+        <View style={styles.customRuleNote}>
+          <Text style={styles.customRuleText}>
+            {repeatTouched
+              ? 'The custom repeat pattern will be replaced by the options below.'
+              : `Repeats with a custom pattern (${describeRecurrence(event!.recurrence_rule!)}). ` +
+                'It is kept as is unless you change the options below.'}
+          </Text>
+        </View>
+      )}
+
+      {renderDropdown(
+        'Repeat',
+        formData.repeat,
+        repeatOptions,
+        (value) => updateRepeat('repeat', value)
+      )}
+
+      {formData.repeat !== 'none' && (
+        <>
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Repeat every</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.repeatInterval}
+              onChangeText={(value) => updateRepeat('repeatInterval', value)}
+              placeholder="1"
+              keyboardType="numeric"
+            />
+          </View>
+
+          {formData.repeat === 'weekly' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>On</Text>
+              <View style={styles.dropdownContainer}>
+                {(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as Weekday[]).map((day) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.dropdownOption,
+                      formData.repeatDays.includes(day) && styles.selectedDropdownOption,
+                    ]}
+                    onPress={() => toggleRepeatDay(day)}
+                  >
+                    <Text
+                      style={[
+                        styles.dropdownOptionText,
+                        formData.repeatDays.includes(day) && styles.selectedDropdownOptionText,
+                      ]}
+                    >
+                      {WEEKDAY_LABELS[day]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {renderDropdown(
+            'Ends',
+            formData.repeatEnd,
+            repeatEndOptions,
+            (value) => updateRepeat('repeatEnd', value)
+          )}
+
+          {formData.repeatEnd === 'count' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Number of times</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.repeatCount}
+                onChangeText={(value) => updateRepeat('repeatCount', value)}
+                placeholder="10"
+                keyboardType="numeric"
+              />
+            </View>
+          )}
+
+          {formData.repeatEnd === 'until' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Last date</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.repeatUntil}
+                onChangeText={(value) => updateRepeat('repeatUntil', value)}
+                placeholder="YYYY-MM-DD"
+              />
+            </View>
+          )}
+        </>
+      )}
+    </>
+  );
+
+  const toggleReminder = (minutes: number) => {
+    setFormData(prev => ({
+      ...prev,
+      reminders: prev.reminders.includes(minutes)
+        ? prev.reminders.filter(m => m !== minutes)
+        : [...prev.reminders, minutes],
+    }));
+  };
+
+  // Presets plus anything set elsewhere (e.g. an imported event) so it can still be removed
+  const renderReminderOptions = () => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Reminders</Text>
+      <View style={styles.dropdownContainer}>
+        {[...new Set([...REMINDER_PRESETS, ...formData.reminders])].sort((a, b) => a - b).map((minutes) => (
+          <TouchableOpacity
+            key={minutes}
+            style={[
+              styles.dropdownOption,
+              formData.reminders.includes(minutes) && styles.selectedDropdownOption,
+            ]}
+            onPress={() => toggleReminder(minutes)}
+          >
+            <Text
+              style={[
+                styles.dropdownOptionText,
+                formData.reminders.includes(minutes) && styles.selectedDropdownOptionText,
+              ]}
+            >
+              {formatReminderOffset(minutes)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
   const renderCalendarSelector = () => (
     <View style={styles.inputContainer}>
       <Text style={styles.label}>Calendar *</Text>
@@ -283,6 +592,12 @@ export const EventForm: React.FC<EventFormProps> = ({
           </View>
         )}
 
+        {/* Recurrence */}
+        {renderRecurrenceOptions()}
+
+        {/* Reminders */}
+        {renderReminderOptions()}
+
         {/* Calendar Selection */}
         {renderCalendarSelector()}
 
@@ -307,17 +622,29 @@ export const EventForm: React.FC<EventFormProps> = ({
 
         {/* Save Button */}
         <TouchableOpacity
-          style={[styles.saveButton, isLoading && styles.disabledButton]}
+          style={[styles.saveButton, (isLoading || isCheckingConflicts) && styles.disabledButton]}
           onPress={handleSave}
-          disabled={isLoading}
+          disabled={isLoading || isCheckingConflicts}
         >
           <Text style={styles.saveButtonText}>
-            {isLoading ? 'Saving...' : event ? 'Update Event' : 'Create Event'}
+            {isLoading || isCheckingConflicts ? 'Saving...' : event ? 'Update Event' : 'Create Event'}
           </Text>
         </TouchableOpacity>
 
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <ConflictModal
+        visible={pendingSave !== null}
+        conflicts={conflicts}
+        scope={conflictScope}
+        timeZone={timeZone}
+        canMarkTentative={pendingSave?.status !== 'tentative'}
+        onScopeChange={setConflictScope}
+        onSaveAnyway={() => resolveConflicts()}
+        onMarkTentative={() => resolveConflicts('tentative')}
+        onPickAnotherTime={() => setPendingSave(null)}
+      />
     </View>
   );
 };
@@ -354,6 +681,19 @@ const styles = StyleSheet.create({
   inputContainer: {
     marginBottom: 20,
   },
+  customRuleNote: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.WARNING,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  customRuleText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    lineHeight: 18,
+  },
   label: {
     fontSize: FONT_SIZES.MEDIUM,
     fontWeight: '600',
@@ -9,21 +9,28 @@ import {
 } from 'react-native';
 import { Goal } from '../types';
 import { COLORS, FONT_SIZES } from '../constants/config';
+import { GoalStreak, formatStreak } from '../utils/goalPeriods';
 
 interface GoalCardProps {
   goal: Goal;
+  streak?: GoalStreak;
   onToggleCompletion: (goalId: string) => void;
   onPress?: () => void;
   onEdit?: () => void;
   onDelete?: () => void;
+  onCheckIn?: (amount: number) => void;  // +/- one step
+  onLogAmount?: () => void;              // ask for an amount and note
 }
 
 export const GoalCard: React.FC<GoalCardProps> = ({
   goal,
+  streak,
   onToggleCompletion,
   onPress,
   onEdit,
   onDelete,
+  onCheckIn,
+  onLogAmount,
 }) => {
   const priorityColor = COLORS.PRIORITY[goal.priority];
   const isCompleted = goal.is_completed;
@@ -116,6 +123,14 @@ export const GoalCard: React.FC<GoalCardProps> = ({
                 {goal.frequency.toUpperCase()}
               </Text>
             </View>
+
+            {streak && streak.current > 0 && (
+              <View style={[styles.tag, styles.streakTag]}>
+                <Text style={[styles.tagText, styles.streakText]}>
+                  🔥 {formatStreak(streak.current, goal.frequency)}
+                </Text>
+              </View>
+            )}
           </View>
 
           {/* Progress indicator */}
@@ -137,6 +152,32 @@ export const GoalCard: React.FC<GoalCardProps> = ({
               </View>
             </View>
           )}
+
+          {/* Quick check-ins */}
+          {!isCompleted && onCheckIn && (
+            <View style={styles.checkIns}>
+              <TouchableOpacity
+                style={[styles.stepButton, goal.current_value <= 0 && styles.disabledButton]}
+                onPress={() => onCheckIn(-1)}
+                disabled={goal.current_value <= 0}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              >
+                <Text style={styles.stepButtonText}>−</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.stepButton}
+                onPress={() => onCheckIn(1)}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+              >
+                <Text style={styles.stepButtonText}>+</Text>
+              </TouchableOpacity>
+              {onLogAmount && (
+                <TouchableOpacity style={styles.logButton} onPress={onLogAmount}>
+                  <Text style={styles.logButtonText}>Log amount</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -236,6 +277,14 @@ const styles = StyleSheet.create({
     color: COLORS.TEXT.SECONDARY,
   },
 
+  streakTag: {
+    backgroundColor: COLORS.WARNING + '20',
+  },
+
+  streakText: {
+    color: COLORS.WARNING,
+  },
+
   progress: {
     gap: 4,
   },
@@ -257,4 +306,43 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 2,
   },
+
+  checkIns: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  stepButtonText: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
+
+  disabledButton: {
+    opacity: 0.4,
+  },
+
+  logButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+  },
+
+  logButtonText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
 });
\ No newline at end of file
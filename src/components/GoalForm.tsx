@@ -11,6 +11,8 @@ import {
 } from 'react-native';
 import { Goal } from '../types';
 import { COLORS, FONT_SIZES } from '../constants/config';
+import { todayKey } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
 
 interface GoalFormProps {
   goal?: Goal;
@@ -25,6 +27,7 @@ export const GoalForm: React.FC<GoalFormProps> = ({
   onCancel,
   isLoading = false,
 }) => {
+  const timeZone = useTimeZone();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -36,7 +39,7 @@ export const GoalForm: React.FC<GoalFormProps> = ({
     unit: '',
     color: '#4CAF50',
     isActive: true,
-    startDate: new Date().toISOString().split('T')[0],
+    startDate: todayKey(timeZone),
     endDate: '',
   });
 
@@ -67,11 +70,11 @@ export const GoalForm: React.FC<GoalFormProps> = ({
         unit: goal.unit || '',
         color: goal.color || '#4CAF50',
         isActive: goal.is_active !== undefined ? goal.is_active : true,
-        startDate: goal.start_date ? goal.start_date.split('T')[0] : new Date().toISOString().split('T')[0],
+        startDate: goal.start_date ? goal.start_date.split('T')[0] : todayKey(timeZone),
         endDate: goal.end_date ? goal.end_date.split('T')[0] : '',
       });
     }
-  }, [goal]);
+  }, [goal, timeZone]);
 
   const handleSave = () => {
     if (!formData.title.trim()) {
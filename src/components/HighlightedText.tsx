@@ -0,0 +1,31 @@
+// Text with the parts matching a search query drawn in bold
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { COLORS } from '../constants/config';
+import { highlightMatches } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, style, numberOfLines }) => (
+  <Text style={style} numberOfLines={numberOfLines}>
+    {highlightMatches(text, query).map((segment, index) =>
+      segment.match ? (
+        <Text key={index} style={styles.match}>{segment.text}</Text>
+      ) : (
+        segment.text
+      )
+    )}
+  </Text>
+);
+
+const styles = StyleSheet.create({
+  match: {
+    fontWeight: '700',
+    color: COLORS.PRIMARY,
+  },
+});
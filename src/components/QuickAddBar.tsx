@@ -0,0 +1,301 @@
+// Type or paste an event in plain words, check what was understood, then create it
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Calendar, EventWriteData } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { QuickAddResult, parseQuickAdd } from '../utils/quickAdd';
+import { formatDateKey, formatTime } from '../utils/dateTime';
+import reminderScheduler from '../services/reminders';
+
+interface QuickAddBarProps {
+  referenceDate: string;  // the day "tomorrow" and "Fri" are counted from
+  timeZone: string;
+  calendars: Calendar[];
+  onCreate: (eventData: EventWriteData) => Promise<void>;
+}
+
+const describeWhen = (result: QuickAddResult, timeZone: string): string => {
+  const startDay = formatDateKey(result.startDate);
+  if (result.all_day) {
+    return result.endDate === result.startDate
+      ? `${startDay} · All day`
+      : `${startDay} – ${formatDateKey(result.endDate)} · All day`;
+  }
+  const endDay = result.endDate === result.startDate ? '' : `${formatDateKey(result.endDate)} `;
+  return `${startDay} · ${formatTime(result.start_time, timeZone)} – ${endDay}${formatTime(result.end_time, timeZone)}`;
+};
+
+export const QuickAddBar: React.FC<QuickAddBarProps> = ({
+  referenceDate,
+  timeZone,
+  calendars,
+  onCreate,
+}) => {
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<QuickAddResult | null>(null);
+  const [calendarId, setCalendarId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeCalendars = calendars.filter(calendar => calendar.is_active !== false);
+
+  // Keep the picked calendar valid as calendars load or change
+  useEffect(() => {
+    const usable = calendars.filter(calendar => calendar.is_active !== false);
+    if (usable.length > 0 && !usable.some(calendar => calendar.id === calendarId)) {
+      setCalendarId(usable[0].id);
+    }
+  }, [calendars, calendarId]);
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    const parsed = parseQuickAdd(text, referenceDate, timeZone);
+    if (!parsed) {
+      setError('Add a title, e.g. "Dentist Fri 3-4pm"');
+      return;
+    }
+    setError(null);
+    setResult(parsed);
+  };
+
+  const handleCreate = async () => {
+    if (!result || !calendarId) return;
+    try {
+      setIsSaving(true);
+      await onCreate({
+        title: result.title,
+        location: result.location,
+        start_time: result.start_time,
+        end_time: result.end_time,
+        all_day: result.all_day,
+        calendar: calendarId,
+        status: 'confirmed',
+        is_private: false,
+        reminders: reminderScheduler.getSettings().defaultMinutes,
+      });
+      setResult(null);
+      setText('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to create event');
+      setResult(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={value => {
+            setText(value);
+            setError(null);
+          }}
+          placeholder='Quick add, e.g. "Lunch with Sam tomorrow 1pm"'
+          placeholderTextColor={COLORS.TEXT.DISABLED}
+          multiline
+          blurOnSubmit
+          returnKeyType="done"
+          onSubmitEditing={handleSubmit}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !text.trim() && styles.disabledButton]}
+          onPress={handleSubmit}
+          disabled={!text.trim()}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Modal visible={result !== null} transparent animationType="fade" onRequestClose={() => setResult(null)}>
+        <View style={styles.backdrop}>
+          <View style={styles.sheet}>
+            <Text style={styles.title}>Add this event?</Text>
+            {result && (
+              <>
+                <Text style={styles.eventTitle}>{result.title}</Text>
+                <Text style={styles.detail}>🕒 {describeWhen(result, timeZone)}</Text>
+                {result.location && <Text style={styles.detail}>📍 {result.location}</Text>}
+              </>
+            )}
+
+            <View style={styles.calendarChips}>
+              {activeCalendars.map(calendar => (
+                <TouchableOpacity
+                  key={calendar.id}
+                  style={[styles.chip, calendarId === calendar.id && styles.selectedChip]}
+                  onPress={() => setCalendarId(calendar.id)}
+                >
+                  <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+                  <Text style={[styles.chipText, calendarId === calendar.id && styles.selectedChipText]}>
+                    {calendar.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {activeCalendars.length === 0 && (
+              <Text style={styles.errorText}>Create a calendar first to add events to it</Text>
+            )}
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setResult(null)}>
+                <Text style={styles.cancelText}>Change</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, (isSaving || !calendarId) && styles.disabledButton]}
+                onPress={handleCreate}
+                disabled={isSaving || !calendarId}
+              >
+                {isSaving ? (
+                  <ActivityIndicator color="white" size="small" />
+                ) : (
+                  <Text style={styles.saveText}>Create</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 96,
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  addButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.ERROR,
+    marginTop: 6,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 12,
+  },
+  eventTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  detail: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 4,
+  },
+  calendarChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  colorDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,104 @@
+// Asks which part of a repeating series an edit or delete applies to
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { RecurrenceScope } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+
+interface RecurrenceScopeModalProps {
+  visible: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+const OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'This event' },
+  { scope: 'following', label: 'This and following events' },
+  { scope: 'all', label: 'All events in the series' },
+];
+
+export const RecurrenceScopeModal: React.FC<RecurrenceScopeModalProps> = ({
+  visible,
+  action,
+  onSelect,
+  onCancel,
+}) => (
+  <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+    <View style={styles.backdrop}>
+      <View style={styles.sheet}>
+        <Text style={styles.title}>
+          {action === 'edit' ? 'Save changes to' : 'Delete'} a repeating event
+        </Text>
+
+        {OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.scope}
+            style={styles.option}
+            onPress={() => onSelect(option.scope)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                action === 'delete' && styles.destructiveText,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 16,
+  },
+  option: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.PRIMARY,
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: COLORS.ERROR,
+  },
+  cancelButton: {
+    paddingTop: 16,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '600',
+  },
+});
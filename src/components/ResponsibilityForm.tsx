@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { GoalFrequency, GoalPriority, Responsibility, ResponsibilityStatus } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { todayKey } from '../utils/dateTime';
+
+interface ResponsibilityFormProps {
+  responsibility?: Responsibility;
+  onSave: (data: Partial<Responsibility>) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const STATUS_HINTS: Record<ResponsibilityStatus, string> = {
+  active: 'On your plate right now',
+  paused: 'On hold - someone is covering, or it comes back later',
+  ended: 'Handed over or finished',
+};
+
+export const ResponsibilityForm: React.FC<ResponsibilityFormProps> = ({
+  responsibility,
+  onSave,
+  onCancel,
+  isLoading = false,
+}) => {
+  const [formData, setFormData] = useState({
+    title: '',
+    description: '',
+    category: '',
+    frequency: '' as GoalFrequency | '',
+    priority: 'medium' as GoalPriority,
+    status: 'active' as ResponsibilityStatus,
+    startDate: todayKey(),
+    endDate: '',
+    color: '#2196F3',
+  });
+
+  const frequencies: (GoalFrequency | '')[] = ['', 'daily', 'weekly', 'monthly', 'yearly'];
+  const priorities: GoalPriority[] = ['low', 'medium', 'high', 'critical'];
+  const statuses: ResponsibilityStatus[] = ['active', 'paused', 'ended'];
+  const categories = ['Work', 'Home', 'Family', 'Finance', 'Health'];
+  const colors = [
+    '#2196F3', // Blue
+    '#4CAF50', // Green
+    '#FF9800', // Orange
+    '#F44336', // Red
+    '#9C27B0', // Purple
+    '#009688', // Teal
+    '#795548', // Brown
+    '#607D8B', // Blue Grey
+  ];
+
+  useEffect(() => {
+    if (responsibility) {
+      setFormData({
+        title: responsibility.title || '',
+        description: responsibility.description || '',
+        category: responsibility.category || '',
+        frequency: responsibility.frequency || '',
+        priority: responsibility.priority || 'medium',
+        status: responsibility.status || 'active',
+        startDate: responsibility.start_date?.slice(0, 10) || todayKey(),
+        endDate: responsibility.end_date?.slice(0, 10) || '',
+        color: responsibility.color || '#2196F3',
+      });
+    }
+  }, [responsibility]);
+
+  const handleSave = () => {
+    if (!formData.title.trim()) {
+      Alert.alert('Error', 'Please enter a title for this responsibility');
+      return;
+    }
+
+    const startDate = formData.startDate.trim();
+    const endDate = formData.endDate.trim();
+    if (!DATE_KEY.test(startDate) || (endDate && !DATE_KEY.test(endDate))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      Alert.alert('Error', 'The end date must be on or after the start date');
+      return;
+    }
+
+    const data: Partial<Responsibility> = {
+      title: formData.title.trim(),
+      description: formData.description.trim() || undefined,
+      category: formData.category.trim() || undefined,
+      frequency: formData.frequency || undefined,
+      priority: formData.priority,
+      status: formData.status,
+      start_date: startDate,
+      end_date: endDate || undefined,
+      color: formData.color,
+    };
+
+    onSave(data);
+  };
+
+  const updateFormData = (field: string, value: any) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const renderDropdown = <T extends string>(
+    label: string,
+    value: T,
+    options: T[],
+    onSelect: (value: T) => void,
+    optionLabel: (option: T) => string = option => option.toUpperCase()
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.dropdownContainer}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option || 'none'}
+            style={[
+              styles.dropdownOption,
+              value === option && styles.selectedDropdownOption,
+            ]}
+            onPress={() => onSelect(option)}
+          >
+            <Text
+              style={[
+                styles.dropdownOptionText,
+                value === option && styles.selectedDropdownOptionText,
+              ]}
+            >
+              {optionLabel(option)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderColorPicker = () => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>Color</Text>
+      <View style={styles.colorContainer}>
+        {colors.map((color) => (
+          <TouchableOpacity
+            key={color}
+            style={[
+              styles.colorOption,
+              { backgroundColor: color },
+              formData.color === color && styles.selectedColorOption,
+            ]}
+            onPress={() => updateFormData('color', color)}
+          >
+            {formData.color === color && (
+              <Text style={styles.colorCheckmark}>✓</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {responsibility ? 'Edit Responsibility' : 'New Responsibility'}
+        </Text>
+        <TouchableOpacity onPress={onCancel} style={styles.closeButton}>
+          <Text style={styles.closeButtonText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.form} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Title */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Title *</Text>
+          <TextInput
+            style={styles.input}
+            value={formData.title}
+            onChangeText={(value) => updateFormData('title', value)}
+            placeholder="e.g., On-call, Payroll"
+            maxLength={200}
+          />
+        </View>
+
+        {/* Description */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={formData.description}
+            onChangeText={(value) => updateFormData('description', value)}
+            placeholder="What does it involve? (optional)"
+            multiline
+            numberOfLines={3}
+            maxLength={1000}
+          />
+        </View>
+
+        {/* Category */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Category</Text>
+          <TextInput
+            style={styles.input}
+            value={formData.category}
+            onChangeText={(value) => updateFormData('category', value)}
+            placeholder="e.g., Work (optional)"
+            maxLength={50}
+          />
+          <View style={[styles.dropdownContainer, styles.categoryChips]}>
+            {categories.map((category) => (
+              <TouchableOpacity
+                key={category}
+                style={[
+                  styles.dropdownOption,
+                  formData.category === category && styles.selectedDropdownOption,
+                ]}
+                onPress={() => updateFormData('category', category)}
+              >
+                <Text
+                  style={[
+                    styles.dropdownOptionText,
+                    formData.category === category && styles.selectedDropdownOptionText,
+                  ]}
+                >
+                  {category}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Status */}
+        {renderDropdown('Status', formData.status, statuses, (value) => updateFormData('status', value))}
+        <Text style={[styles.hint, styles.statusHint]}>{STATUS_HINTS[formData.status]}</Text>
+
+        {/* Frequency */}
+        {renderDropdown(
+          'Needs attention',
+          formData.frequency,
+          frequencies,
+          (value) => updateFormData('frequency', value),
+          (option) => (option ? option.toUpperCase() : 'ONGOING')
+        )}
+
+        {/* Priority */}
+        {renderDropdown('Priority', formData.priority, priorities, (value) => updateFormData('priority', value))}
+
+        {/* Dates */}
+        <View style={styles.dateRow}>
+          <View style={[styles.inputContainer, styles.dateField]}>
+            <Text style={styles.label}>Start Date *</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.startDate}
+              onChangeText={(value) => updateFormData('startDate', value)}
+              placeholder="YYYY-MM-DD"
+              autoCapitalize="none"
+            />
+          </View>
+          <View style={[styles.inputContainer, styles.dateField]}>
+            <Text style={styles.label}>End Date</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.endDate}
+              onChangeText={(value) => updateFormData('endDate', value)}
+              placeholder="YYYY-MM-DD"
+              autoCapitalize="none"
+            />
+          </View>
+        </View>
+
+        {/* Color Picker */}
+        {renderColorPicker()}
+
+        {/* Save Button */}
+        <TouchableOpacity
+          style={[styles.saveButton, isLoading && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={isLoading}
+        >
+          <Text style={styles.saveButtonText}>
+            {isLoading ? 'Saving...' : responsibility ? 'Update Responsibility' : 'Add Responsibility'}
+          </Text>
+        </TouchableOpacity>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  title: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  closeButton: {
+    padding: 8,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  form: {
+    flex: 1,
+    padding: 20,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  statusHint: {
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  dropdownContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  categoryChips: {
+    marginTop: 8,
+  },
+  dropdownOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  selectedDropdownOption: {
+    backgroundColor: COLORS.PRIMARY,
+    borderColor: COLORS.PRIMARY,
+  },
+  dropdownOptionText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedDropdownOptionText: {
+    color: 'white',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  colorContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  colorOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedColorOption: {
+    borderColor: COLORS.TEXT.PRIMARY,
+  },
+  colorCheckmark: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
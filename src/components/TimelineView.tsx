@@ -0,0 +1,318 @@
+// TimelineView - hour grid for the day, 3-day and week modes
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Calendar, Event } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { layoutDayEvents, overlapsDay } from '../utils/timelineLayout';
+import { formatDateKey, minutesSinceMidnight, toDateKey } from '../utils/dateTime';
+
+interface TimelineViewProps {
+  days: string[];  // date keys, left to right
+  events: Event[];  // already expanded (recurring occurrences included)
+  calendars: Calendar[];
+  timeZone: string;  // the grid's hours are in this zone
+  onEventPress: (event: Event) => void;
+  onSlotPress?: (dateKey: string, hour: number) => void;
+  hourHeight?: number;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const GUTTER_WIDTH = 48;
+
+const formatHour = (hour: number): string => {
+  if (hour === 0) return '12 AM';
+  if (hour === 12) return '12 PM';
+  return hour < 12 ? `${hour} AM` : `${hour - 12} PM`;
+};
+
+export const TimelineView: React.FC<TimelineViewProps> = ({
+  days,
+  events,
+  calendars,
+  timeZone,
+  onEventPress,
+  onSlotPress,
+  hourHeight = 60,
+}) => {
+  const scrollRef = useRef<ScrollView>(null);
+  const hasScrolled = useRef(false);
+  const [now, setNow] = useState(new Date());
+
+  // Keep the "now" line moving
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const today = toDateKey(now, timeZone);
+  const nowMinutes = minutesSinceMidnight(now, timeZone);
+
+  const columns = useMemo(() => days.map(dateKey => ({
+    dateKey,
+    allDay: events.filter(event => event.all_day && overlapsDay(event, dateKey, timeZone)),
+    blocks: layoutDayEvents(events, dateKey, timeZone),
+  })), [days, events, timeZone]);
+
+  const hasAllDay = columns.some(column => column.allDay.length > 0);
+
+  const getEventColor = (event: Event): string => {
+    const calendar = calendars.find(c => c.id === event.calendar?.id);
+    return event.color || calendar?.color || COLORS.PRIMARY;
+  };
+
+  // Start scrolled to an hour before now (or 8 AM on other days) instead of midnight
+  const scrollToInitialHour = () => {
+    if (hasScrolled.current) return;
+    hasScrolled.current = true;
+    const hour = days.includes(today) ? Math.max(Math.floor(nowMinutes / 60) - 1, 0) : 8;
+    scrollRef.current?.scrollTo({ y: hour * hourHeight, animated: false });
+  };
+
+  const renderDayHeader = (dateKey: string) => {
+    const isToday = dateKey === today;
+    return (
+      <View key={dateKey} style={styles.dayHeader}>
+        <Text style={[styles.dayHeaderWeekday, isToday && styles.todayText]}>
+          {formatDateKey(dateKey, { weekday: 'short' })}
+        </Text>
+        <View style={[styles.dayHeaderDateBadge, isToday && styles.todayBadge]}>
+          <Text style={[styles.dayHeaderDate, isToday && styles.todayBadgeText]}>
+            {Number(dateKey.slice(8, 10))}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Day headers */}
+      <View style={styles.headerRow}>
+        <View style={styles.gutter} />
+        {days.map(renderDayHeader)}
+      </View>
+
+      {/* All-day strip */}
+      {hasAllDay && (
+        <View style={styles.allDayRow}>
+          <View style={styles.gutter}>
+            <Text style={styles.allDayLabel}>all-day</Text>
+          </View>
+          {columns.map(column => (
+            <View key={column.dateKey} style={styles.allDayColumn}>
+              {column.allDay.map(event => (
+                <TouchableOpacity
+                  key={event.id}
+                  style={[styles.allDayEvent, { backgroundColor: getEventColor(event) }]}
+                  onPress={() => onEventPress(event)}
+                >
+                  <Text style={styles.allDayEventText} numberOfLines={1}>
+                    {event.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Hour grid */}
+      <ScrollView ref={scrollRef} onLayout={scrollToInitialHour}>
+        <View style={[styles.grid, { height: hourHeight * 24 }]}>
+          <View style={styles.gutter}>
+            {HOURS.map(hour => (
+              <Text key={hour} style={[styles.hourLabel, { top: hour * hourHeight - 7 }]}>
+                {hour === 0 ? '' : formatHour(hour)}
+              </Text>
+            ))}
+          </View>
+
+          {columns.map(column => (
+            <View key={column.dateKey} style={styles.dayColumn}>
+              {HOURS.map(hour => (
+                <TouchableOpacity
+                  key={hour}
+                  style={[styles.hourSlot, { height: hourHeight }]}
+                  onPress={() => onSlotPress?.(column.dateKey, hour)}
+                  disabled={!onSlotPress}
+                />
+              ))}
+
+              {column.blocks.map(block => (
+                <TouchableOpacity
+                  key={block.event.id}
+                  style={[
+                    styles.eventBlock,
+                    {
+                      top: (block.startMinutes / 60) * hourHeight,
+                      height: ((block.endMinutes - block.startMinutes) / 60) * hourHeight - 1,
+                      left: `${(block.column / block.columns) * 100}%`,
+                      width: `${100 / block.columns}%`,
+                      backgroundColor: getEventColor(block.event),
+                    },
+                    block.event.completed && styles.completedBlock,
+                  ]}
+                  onPress={() => onEventPress(block.event)}
+                >
+                  <Text style={styles.eventBlockTitle} numberOfLines={2}>
+                    {block.event.title}
+                  </Text>
+                  {block.endMinutes - block.startMinutes >= 45 && block.event.location && (
+                    <Text style={styles.eventBlockLocation} numberOfLines={1}>
+                      {block.event.location}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ))}
+
+              {column.dateKey === today && (
+                <View
+                  pointerEvents="none"
+                  style={[styles.nowLine, { top: (nowMinutes / 60) * hourHeight }]}
+                >
+                  <View style={styles.nowDot} />
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+    paddingVertical: 8,
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayHeaderWeekday: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  dayHeaderDateBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 2,
+  },
+  dayHeaderDate: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  todayText: {
+    color: COLORS.PRIMARY,
+  },
+  todayBadge: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  todayBadgeText: {
+    color: 'white',
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+    paddingVertical: 4,
+  },
+  allDayLabel: {
+    fontSize: 10,
+    color: COLORS.TEXT.SECONDARY,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  allDayColumn: {
+    flex: 1,
+    paddingHorizontal: 1,
+    gap: 2,
+  },
+  allDayEvent: {
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  allDayEventText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  grid: {
+    flexDirection: 'row',
+  },
+  hourLabel: {
+    position: 'absolute',
+    right: 6,
+    fontSize: 10,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  hourSlot: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  eventBlock: {
+    position: 'absolute',
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  completedBlock: {
+    opacity: 0.5,
+  },
+  eventBlockTitle: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  eventBlockLocation: {
+    color: 'white',
+    fontSize: 10,
+    opacity: 0.9,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: COLORS.ERROR,
+  },
+  nowDot: {
+    position: 'absolute',
+    left: -4,
+    top: -4,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: COLORS.ERROR,
+  },
+});
@@ -8,6 +8,7 @@ export const API_CONFIG = {
   ENDPOINTS: {
     AUTH: {
       LOGIN: '/api/auth/login/',
+      REGISTER: '/api/auth/register/',
       LOGOUT: '/api/auth/logout/',
       REFRESH: '/api/auth/token/refresh/',
       PROFILE: '/api/auth/profile/',
@@ -19,10 +20,20 @@ export const API_CONFIG = {
   }
 } as const; // 'as const' makes this read-only (like const in C++)
 
+// On-device cache of events and calendars
+export const CACHE_CONFIG = {
+  STALE_AFTER: 5 * 60 * 1000, // 5 minutes - older ranges are refetched in the background
+  MAX_AGE: 7 * 24 * 60 * 60 * 1000, // 1 week - range bookkeeping older than this is dropped
+} as const;
+
 export const STORAGE_KEYS = {
   ACCESS_TOKEN: '@calendar_app/access_token',
   REFRESH_TOKEN: '@calendar_app/refresh_token', 
   USER_DATA: '@calendar_app/user_data',
+  CALENDAR_VIEW_MODE: '@calendar_app/calendar_view_mode',
+  OUTBOX: '@calendar_app/outbox',
+  REMINDER_SETTINGS: '@calendar_app/reminder_settings',
+  GOAL_HISTORY: '@calendar_app/goal_history',
 } as const;
 
 export const COLORS = {
@@ -1,96 +1,74 @@
-// Calendar hook - Manage calendars
-import { useState, useEffect, useCallback } from 'react';
+// Calendar hook - calendars live in the store (calendarsSlice); visibility is a per-device filter
+import { useEffect, useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { Calendar } from '../types';
-import apiService from '../services/api';
+import { AppDispatch, RootState } from '../store/store';
+import { CACHE_CONFIG } from '../constants/config';
+import {
+  fetchCalendars,
+  createCalendar as createCalendarThunk,
+  toggleCalendarVisibility as toggleCalendarVisibilityAction,
+  showAllCalendars as showAllCalendarsAction,
+  clearError as clearCalendarsError,
+  selectCalendars,
+  selectHiddenCalendarIds,
+  selectVisibleCalendars,
+} from '../store/slices/calendarsSlice';
+
+// Thunks reject with a message string - callers expect an Error
+const asError = (message: unknown) => {
+  throw new Error(typeof message === 'string' ? message : 'Something went wrong');
+};
 
 export const useCalendars = () => {
-  const [calendars, setCalendars] = useState<Calendar[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const dispatch = useDispatch<AppDispatch>();
+  const calendars = useSelector(selectCalendars);
+  const visibleCalendars = useSelector(selectVisibleCalendars);
+  const hiddenCalendarIds = useSelector(selectHiddenCalendarIds);
+  const { isLoading, error, lastFetchedAt } = useSelector((state: RootState) => state.calendars);
 
   // Load calendars from API
   const loadCalendars = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      console.log('📅 Loading calendars...');
-      const calendarsData = await apiService.getCalendars();
-      setCalendars(calendarsData);
-      
-      console.log(`✅ Loaded ${calendarsData.length} calendars`);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to load calendars';
-      setError(errorMessage);
-      console.error('❌ Failed to load calendars:', errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    await dispatch(fetchCalendars());
+  }, [dispatch]);
 
   // Create new calendar
   const createCalendar = useCallback(async (calendarData: Partial<Calendar>): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      console.log('➕ Creating calendar:', calendarData.name);
-      const newCalendar = await apiService.createCalendar(calendarData);
-      setCalendars(prev => [...prev, newCalendar]);
-      
-      console.log('✅ Calendar created:', newCalendar.name);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to create calendar';
-      setError(errorMessage);
-      console.error('❌ Failed to create calendar:', errorMessage);
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    await dispatch(createCalendarThunk(calendarData)).unwrap().catch(asError);
+  }, [dispatch]);
 
-  // Toggle calendar visibility
-  const toggleCalendarVisibility = useCallback(async (calendarId: string): Promise<void> => {
-    const calendar = calendars.find(c => c.id === calendarId);
-    if (!calendar) return;
+  // Show or hide a calendar's events on this device - nothing is sent to the server
+  const toggleCalendarVisibility = useCallback((calendarId: string) => {
+    dispatch(toggleCalendarVisibilityAction(calendarId));
+  }, [dispatch]);
 
-    const newVisibility = !calendar.is_visible;
-    
-    // Update UI immediately
-    setCalendars(prev => prev.map(c => 
-      c.id === calendarId 
-        ? { ...c, is_visible: newVisibility }
-        : c
-    ));
+  const showAllCalendars = useCallback(() => {
+    dispatch(showAllCalendarsAction());
+  }, [dispatch]);
 
-    try {
-      // Sync with backend
-      await apiService.updateCalendar(calendarId, { is_visible: newVisibility });
-      console.log('✅ Calendar visibility toggled');
-    } catch (err) {
-      // Revert on error
-      setCalendars(prev => prev.map(c => 
-        c.id === calendarId 
-          ? { ...c, is_visible: !newVisibility }
-          : c
-      ));
-      console.error('❌ Failed to toggle visibility:', err);
-    }
-  }, [calendars]);
+  const isCalendarVisible = useCallback(
+    (calendarId: string) => !hiddenCalendarIds.includes(calendarId),
+    [hiddenCalendarIds]
+  );
 
-  // Load calendars on mount
+  // Cached calendars render straight away - refetch only when they're stale
   useEffect(() => {
-    loadCalendars();
-  }, [loadCalendars]);
+    if (lastFetchedAt === null || Date.now() - lastFetchedAt > CACHE_CONFIG.STALE_AFTER) {
+      dispatch(fetchCalendars());
+    }
+  }, [dispatch, lastFetchedAt]);
 
   return {
     calendars,
-    visibleCalendars: calendars.filter(c => c.is_visible),
+    visibleCalendars,
+    hiddenCalendarIds,
     isLoading,
     error,
     loadCalendars,
     createCalendar,
     toggleCalendarVisibility,
-    clearError: () => setError(null),
+    showAllCalendars,
+    isCalendarVisible,
+    clearError: () => dispatch(clearCalendarsError()),
   };
-};
\ No newline at end of file
+};
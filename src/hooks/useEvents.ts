@@ -1,9 +1,12 @@
 // Events hook - Manage calendar events
 import { useState, useEffect, useCallback } from 'react';
-import { Event } from '../types';
+import { Event, EventWriteData } from '../types';
 import apiService from '../services/api';
+import { eventDateKey, toDateKey } from '../utils/dateTime';
+import { useTimeZone } from './useTimeZone';
 
 export const useEvents = () => {
+  const timeZone = useTimeZone();
   const [events, setEvents] = useState<Event[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -33,7 +36,7 @@ export const useEvents = () => {
   }, []);
 
   // Create new event
-  const createEvent = useCallback(async (eventData: Partial<Event>): Promise<void> => {
+  const createEvent = useCallback(async (eventData: EventWriteData): Promise<void> => {
     try {
       setIsLoading(true);
       setError(null);
@@ -54,7 +57,7 @@ export const useEvents = () => {
   }, []);
 
   // Update event
-  const updateEvent = useCallback(async (eventId: string, updates: Partial<Event>): Promise<void> => {
+  const updateEvent = useCallback(async (eventId: string, updates: EventWriteData): Promise<void> => {
     try {
       console.log('✏️ Updating event:', eventId);
       const updatedEvent = await apiService.updateEvent(eventId, updates);
@@ -93,21 +96,18 @@ export const useEvents = () => {
     }
   }, []);
 
-  // Get events for a specific date
+  // Get events for a specific date (the calendar day of the given Date, as the device sees it)
   const getEventsForDate = useCallback((date: Date): Event[] => {
-    const dateString = date.toISOString().split('T')[0];
-    return events.filter(event => {
-      const eventDate = new Date(event.start_time).toISOString().split('T')[0];
-      return eventDate === dateString;
-    });
-  }, [events]);
+    const dateString = toDateKey(date);
+    return events.filter(event => eventDateKey(event, timeZone) === dateString);
+  }, [events, timeZone]);
 
   // Get events grouped by date (for calendar markers)
   const getEventsByDate = useCallback(() => {
     const eventsByDate: { [date: string]: Event[] } = {};
     
     events.forEach(event => {
-      const date = new Date(event.start_time).toISOString().split('T')[0];
+      const date = eventDateKey(event, timeZone);
       if (!eventsByDate[date]) {
         eventsByDate[date] = [];
       }
@@ -115,7 +115,7 @@ export const useEvents = () => {
     });
     
     return eventsByDate;
-  }, [events]);
+  }, [events, timeZone]);
 
   // Load events on mount
   useEffect(() => {
@@ -0,0 +1,29 @@
+// Goal streaks hook - current/longest streak for each goal, kept up to date with goal history
+import { useEffect, useMemo, useState } from 'react';
+import { Goal, GoalHistoryEntry } from '../types';
+import goalHistoryService from '../services/goalHistory';
+import { GoalStreak, goalStreak } from '../utils/goalPeriods';
+import { todayKey } from '../utils/dateTime';
+import { useTimeZone } from './useTimeZone';
+
+export const useGoalStreaks = (goals: Goal[]): Record<string, GoalStreak> => {
+  const [entries, setEntries] = useState<GoalHistoryEntry[]>([]);
+  const timeZone = useTimeZone();
+
+  useEffect(() => {
+    let cancelled = false;
+    goalHistoryService.getAll().then(all => {
+      if (!cancelled) setEntries(all);
+    });
+    const unsubscribe = goalHistoryService.subscribe(setEntries);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return useMemo(() => {
+    const today = todayKey(timeZone);
+    return Object.fromEntries(goals.map(goal => [goal.id, goalStreak(goal, entries, today, timeZone)]));
+  }, [goals, entries, timeZone]);
+};
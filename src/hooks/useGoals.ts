@@ -1,152 +1,68 @@
-// Goals hook - Clean state management for goals (no Provider headaches!)
-import { useState, useEffect, useCallback } from 'react';
+// Goals hook - goals live in the store (goalsSlice); this keeps the screens' familiar API
+import { useEffect, useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
 import { Goal } from '../types';
-import apiService from '../services/api';
+import { AppDispatch, RootState } from '../store/store';
+import {
+  fetchGoals,
+  createGoal as createGoalThunk,
+  updateGoal as updateGoalThunk,
+  deleteGoal as deleteGoalThunk,
+  toggleGoalCompletion as toggleGoalCompletionThunk,
+  checkInGoal,
+  clearError as clearGoalsError,
+  selectActiveGoals,
+  selectCompletedGoals,
+  selectGoals,
+  selectGoalsByPriority,
+} from '../store/slices/goalsSlice';
+
+// Thunks reject with a message string - callers expect an Error like before
+const asError = (message: unknown) => {
+  throw new Error(typeof message === 'string' ? message : 'Something went wrong');
+};
 
 export const useGoals = () => {
-  const [goals, setGoals] = useState<Goal[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const dispatch = useDispatch<AppDispatch>();
+  const goals = useSelector(selectGoals);
+  const activeGoals = useSelector(selectActiveGoals);
+  const completedGoals = useSelector(selectCompletedGoals);
+  const goalsByPriority = useSelector(selectGoalsByPriority);
+  const { isLoading, error } = useSelector((state: RootState) => state.goals);
 
-  // Load goals from API
+  // Load goals from API (pull to refresh - always asks the server)
   const loadGoals = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      console.log('📋 Loading goals...');
-      const goalsData = await apiService.getGoals();
-      setGoals(goalsData);
-      
-      console.log(`✅ Loaded ${goalsData.length} goals`);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to load goals';
-      setError(errorMessage);
-      console.error('❌ Failed to load goals:', errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    await dispatch(fetchGoals({ force: true }));
+  }, [dispatch]);
 
-  // Create new goal
   const createGoal = useCallback(async (goalData: Partial<Goal>): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      console.log('➕ Creating goal:', goalData.title);
-      const newGoal = await apiService.createGoal(goalData);
-      setGoals(prev => [...prev, newGoal]);
-      
-      console.log('✅ Goal created:', newGoal.title);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to create goal';
-      setError(errorMessage);
-      console.error('❌ Failed to create goal:', errorMessage);
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    await dispatch(createGoalThunk(goalData)).unwrap().catch(asError);
+  }, [dispatch]);
 
-  // Update goal
   const updateGoal = useCallback(async (goalId: string, updates: Partial<Goal>): Promise<void> => {
-    try {
-      console.log('✏️ Updating goal:', goalId);
-      const updatedGoal = await apiService.updateGoal(goalId, updates);
-      
-      setGoals(prev => prev.map(goal => 
-        goal.id === goalId ? updatedGoal : goal
-      ));
-      
-      console.log('✅ Goal updated:', updatedGoal.title);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to update goal';
-      setError(errorMessage);
-      console.error('❌ Failed to update goal:', errorMessage);
-      throw err;
-    }
-  }, []);
+    await dispatch(updateGoalThunk({ goalId, updates })).unwrap().catch(asError);
+  }, [dispatch]);
 
-  // Delete goal
   const deleteGoal = useCallback(async (goalId: string): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      console.log('🗑️ Deleting goal:', goalId);
-      await apiService.deleteGoal(goalId);
-      setGoals(prev => prev.filter(goal => goal.id !== goalId));
-      
-      console.log('✅ Goal deleted');
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to delete goal';
-      setError(errorMessage);
-      console.error('❌ Failed to delete goal:', errorMessage);
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    await dispatch(deleteGoalThunk(goalId)).unwrap().catch(asError);
+  }, [dispatch]);
 
   // THE MAIN EVENT: Toggle goal completion!
-  // This will update UI immediately, then sync with backend
+  // The UI updates immediately; a failure reverts it and shows up in `error`
   const toggleGoalCompletion = useCallback(async (goalId: string): Promise<void> => {
-    // Find the goal
-    const goal = goals.find(g => g.id === goalId);
-    if (!goal) return;
-
-    const newCompletionState = !goal.is_completed;
-    
-    // 🚀 INSTANT UI UPDATE (no waiting for server!)
-    setGoals(prev => prev.map(g => 
-      g.id === goalId 
-        ? { 
-            ...g, 
-            is_completed: newCompletionState,
-            status: newCompletionState ? 'completed' : 'active'
-          }
-        : g
-    ));
+    await dispatch(toggleGoalCompletionThunk(goalId));
+  }, [dispatch]);
 
-    try {
-      // Background API call (user doesn't wait for this!)
-      console.log(`🎯 Toggling goal completion: ${goal.title} -> ${newCompletionState ? 'completed' : 'active'}`);
-      
-      await apiService.toggleGoalCompletion(goalId, newCompletionState);
-      console.log('✅ Goal completion synced with server');
-      
-    } catch (err: any) {
-      // If API fails, revert the UI change
-      console.error('❌ Failed to sync completion state, reverting:', err);
-      
-      setGoals(prev => prev.map(g => 
-        g.id === goalId 
-          ? { 
-              ...g, 
-              is_completed: !newCompletionState,  // Revert
-              status: !newCompletionState ? 'completed' : 'active'
-            }
-          : g
-      ));
-      
-      setError('Failed to update goal completion');
-    }
-  }, [goals]);
+  // Log an amount against a goal (negative takes some back)
+  const checkIn = useCallback(async (goalId: string, amount: number, note?: string): Promise<void> => {
+    await dispatch(checkInGoal({ goalId, amount, note })).unwrap().catch(asError);
+  }, [dispatch]);
 
-  // Load goals on mount
+  // Cached goals render straight away - fetchGoals itself skips fresh or in-flight loads,
+  // so screens mounting together don't each ask the server
   useEffect(() => {
-    loadGoals();
-  }, [loadGoals]);
-
-  // Computed values (like getters in C++)
-  const activeGoals = goals.filter(goal => !goal.is_completed);
-  const completedGoals = goals.filter(goal => goal.is_completed);
-  const goalsByPriority = {
-    high: goals.filter(goal => goal.priority === 'high'),
-    medium: goals.filter(goal => goal.priority === 'medium'),
-    low: goals.filter(goal => goal.priority === 'low'),
-  };
+    dispatch(fetchGoals());
+  }, [dispatch]);
 
   return {
     // State
@@ -163,8 +79,9 @@ export const useGoals = () => {
     updateGoal,
     deleteGoal,
     toggleGoalCompletion,  // ⭐ The star method!
+    checkIn,
     
     // Utility
-    clearError: () => setError(null),
+    clearError: () => dispatch(clearGoalsError()),
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,43 @@
+// Outbox hook - live view of writes still waiting to reach the server
+import { useState, useEffect, useCallback } from 'react';
+import { OutboxItem } from '../types';
+import outboxService from '../services/outbox';
+
+export const useOutbox = () => {
+  const [items, setItems] = useState<OutboxItem[]>(outboxService.getItems());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = outboxService.subscribe(event => {
+      if (event.kind === 'changed') {
+        setItems(event.items);
+      }
+    });
+    outboxService.load().then(() => setItems(outboxService.getItems()));
+    return unsubscribe;
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await outboxService.flush();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  const retry = useCallback((itemId: string) => outboxService.retry(itemId), []);
+  const retryAll = useCallback(() => outboxService.retryAll(), []);
+  const discard = useCallback((itemId: string) => outboxService.discard(itemId), []);
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending').length,
+    failedItems: items.filter(item => item.status === 'failed'),
+    isSyncing,
+    syncNow,
+    retry,
+    retryAll,
+    discard,
+  };
+};
@@ -0,0 +1,29 @@
+// Reminders hook - reminder preferences and what's coming up next
+import { useState, useEffect, useCallback } from 'react';
+import { ReminderSettings, ScheduledReminder } from '../types';
+import reminderScheduler from '../services/reminders';
+import storageService from '../services/storage';
+
+export const useReminders = () => {
+  const [settings, setSettings] = useState<ReminderSettings>(reminderScheduler.getSettings());
+  const [upcoming, setUpcoming] = useState<ScheduledReminder[]>(reminderScheduler.getScheduled());
+
+  useEffect(() => {
+    return reminderScheduler.subscribe(scheduled => {
+      setUpcoming(scheduled);
+      setSettings(reminderScheduler.getSettings());
+    });
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<ReminderSettings>) => {
+    const next = { ...reminderScheduler.getSettings(), ...changes };
+    reminderScheduler.setSettings(next);
+    await storageService.saveReminderSettings(next);
+  }, []);
+
+  return {
+    settings,
+    upcoming,
+    updateSettings,
+  };
+};
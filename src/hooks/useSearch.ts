@@ -0,0 +1,72 @@
+// Search hook - cached events, goals and calendars straight away, server event matches once typing pauses
+import { useState, useEffect, useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { Event, SearchFilters } from '../types';
+import apiService from '../services/api';
+import { RootState } from '../store/store';
+import { mergeEvents, searchCalendars, searchEvents, searchGoals } from '../utils/search';
+import { useTimeZone } from './useTimeZone';
+
+// Wait for a pause in typing before asking the server
+const SERVER_SEARCH_DELAY = 400;
+const MIN_SERVER_QUERY = 2;
+
+export const useSearch = (query: string, filters: SearchFilters) => {
+  const timeZone = useTimeZone();
+  const { events } = useSelector((state: RootState) => state.events);
+  const { goals } = useSelector((state: RootState) => state.goals);
+  const { calendars } = useSelector((state: RootState) => state.calendars);
+
+  const [remoteEvents, setRemoteEvents] = useState<Event[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [remoteError, setRemoteError] = useState<string | null>(null);
+
+  const { startDate, endDate, calendarId, eventStatus } = filters;
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    setRemoteEvents([]);
+    setRemoteError(null);
+    if (trimmed.length < MIN_SERVER_QUERY) {
+      setIsSearching(false);
+      return;
+    }
+
+    // A newer query makes this one's answer irrelevant
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        console.log('🔍 Searching events on the server for:', trimmed);
+        const found = await apiService.searchEvents(trimmed, { startDate, endDate, calendarId, eventStatus });
+        if (!cancelled) setRemoteEvents(found);
+      } catch (err: any) {
+        console.error('❌ Server search failed:', err.message);
+        if (!cancelled) setRemoteError('Showing events saved on this device only');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SERVER_SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, startDate, endDate, calendarId, eventStatus]);
+
+  // The server's matches go through the same filters so highlighting and filtering stay consistent
+  const eventResults = useMemo(
+    () => searchEvents(mergeEvents(events, remoteEvents), query, filters, timeZone),
+    [events, remoteEvents, query, filters, timeZone]
+  );
+  const goalResults = useMemo(() => searchGoals(goals, query, filters), [goals, query, filters]);
+  const calendarResults = useMemo(() => searchCalendars(calendars, query), [calendars, query]);
+
+  return {
+    events: eventResults,
+    goals: goalResults,
+    calendars: calendarResults,
+    isSearching,
+    remoteError,
+  };
+};
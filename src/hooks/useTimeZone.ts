@@ -0,0 +1,10 @@
+// Time zone hook - the zone dates and times are shown in: the user's setting, else the device's
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { RootState } from '../store/store';
+import { resolveTimeZone } from '../utils/dateTime';
+
+export const useTimeZone = (): string => {
+  const userTimeZone = useSelector((state: RootState) => state.auth.user?.timezone);
+  return useMemo(() => resolveTimeZone(userTimeZone), [userTimeZone]);
+};
@@ -1,29 +1,56 @@
 // Main App Navigator - Clean navigation structure
 import React, { useEffect } from 'react';
-import { Text, View, ActivityIndicator, StyleSheet } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { Text, View, ActivityIndicator, StyleSheet, TouchableOpacity } from 'react-native';
+import { NavigationContainer, useNavigation } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { useSelector, useDispatch } from 'react-redux';
+import { useSelector, useDispatch, useStore } from 'react-redux';
 
 import { LoginScreen } from '../screens/LoginScreen';
+import { RegisterScreen } from '../screens/RegisterScreen';
 import { GoalsScreen } from '../screens/GoalsScreen';
 import { HomeScreen } from '../screens/HomeScreen';
 import { ProfileScreen } from '../screens/ProfileScreen';
 import { CreateGoalScreen } from '../screens/CreateGoalScreen';
 import { EditGoalScreen } from '../screens/EditGoalScreen';
+import { GoalDetailScreen } from '../screens/GoalDetailScreen';
 import { CreateEventScreen } from '../screens/CreateEventScreen';
 import { EditEventScreen } from '../screens/EditEventScreen';
 import { EventDetailScreen } from '../screens/EventDetailScreen';
+import { OutboxScreen } from '../screens/OutboxScreen';
+import { ImportCalendarScreen } from '../screens/ImportCalendarScreen';
+import { ExportCalendarScreen } from '../screens/ExportCalendarScreen';
+import { RemindersScreen } from '../screens/RemindersScreen';
+import { CalendarsScreen } from '../screens/CalendarsScreen';
+import { CalendarFormScreen } from '../screens/CalendarFormScreen';
+import { FindTimeScreen } from '../screens/FindTimeScreen';
+import { SearchScreen } from '../screens/SearchScreen';
+import { ResponsibilitiesScreen } from '../screens/ResponsibilitiesScreen';
+import { ResponsibilityFormScreen } from '../screens/ResponsibilityFormScreen';
 
-import { RootStackParamList, BottomTabParamList } from '../types/navigation';
+import { RootStackParamList, BottomTabParamList, AuthStackParamList } from '../types/navigation';
 import { COLORS } from '../constants/config';
 import { logger } from '../utils/logger';
 import { RootState, AppDispatch } from '../store/store';
 import { checkAuthStatus } from '../store/slices/authSlice';
+import { applyOutboxEvent } from '../store/outboxSync';
+import { startReminderSync } from '../store/reminderSync';
+import { startGoalRollover } from '../store/goalRollover';
+import outboxService from '../services/outbox';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<BottomTabParamList>();
+const AuthStack = createNativeStackNavigator<AuthStackParamList>();
+
+// Sign in / sign up (for signed-out users)
+const AuthNavigator = () => {
+  return (
+    <AuthStack.Navigator screenOptions={{ headerShown: false }}>
+      <AuthStack.Screen name="Login" component={LoginScreen} />
+      <AuthStack.Screen name="Register" component={RegisterScreen} />
+    </AuthStack.Navigator>
+  );
+};
 
 // Main tab navigator (for authenticated users)
 const MainTabNavigator = () => {
@@ -56,6 +83,7 @@ const MainTabNavigator = () => {
         options={{
           title: 'Calendar',
           tabBarLabel: 'Calendar',
+          headerRight: renderSearchButton,
           tabBarIcon: ({ color }) => (
             <TabIcon icon="📅" color={color} />
           ),
@@ -67,11 +95,23 @@ const MainTabNavigator = () => {
         options={{
           title: 'Goals',
           tabBarLabel: 'Goals',
+          headerRight: renderSearchButton,
           tabBarIcon: ({ color }) => (
             <TabIcon icon="🎯" color={color} />
           ),
         }}
       />
+      <Tab.Screen 
+        name="ResponsibilitiesTab" 
+        component={ResponsibilitiesScreen}
+        options={{
+          title: 'Responsibilities',
+          tabBarLabel: 'Duties',
+          tabBarIcon: ({ color }) => (
+            <TabIcon icon="📋" color={color} />
+          ),
+        }}
+      />
       <Tab.Screen 
         name="ProfileTab" 
         component={ProfileScreen}
@@ -92,6 +132,17 @@ const TabIcon = ({ icon, color }: { icon: string; color: string }) => (
   <Text style={{ fontSize: 24, color }}>{icon}</Text>
 );
 
+// Opens search from the tab headers
+const SearchButton = () => {
+  const navigation = useNavigation();
+  return (
+    <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Search' as never)}>
+      <Text style={styles.headerButtonText}>🔍</Text>
+    </TouchableOpacity>
+  );
+};
+const renderSearchButton = () => <SearchButton />;
+
 // Loading screen component
 const LoadingScreen = () => (
   <View style={styles.loadingContainer}>
@@ -103,6 +154,7 @@ const LoadingScreen = () => (
 // Main app navigator
 export const AppNavigator = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
   const { user, isAuthenticated, isLoading } = useSelector((state: RootState) => state.auth);
 
   // Check auth status on app start
@@ -110,6 +162,29 @@ export const AppNavigator = () => {
     dispatch(checkAuthStatus());
   }, [dispatch]);
 
+  // Replay offline writes while signed in and mirror the results into the store
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const unsubscribe = outboxService.subscribe(event => dispatch(applyOutboxEvent(event)));
+    const stop = outboxService.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [dispatch, isAuthenticated]);
+
+  // Keep reminders scheduled for the signed-in user's events
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startReminderSync(store);
+  }, [store, isAuthenticated]);
+
+  // Reset recurring goals when their period ends
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startGoalRollover(store);
+  }, [store, isAuthenticated]);
+
   // Log navigation state changes
   useEffect(() => {
     logger.navigation('Navigation state', {
@@ -154,6 +229,14 @@ export const AppNavigator = () => {
                 presentation: 'modal',
               }}
             />
+            <Stack.Screen 
+              name="GoalDetail" 
+              component={GoalDetailScreen}
+              options={{
+                headerShown: false,
+                presentation: 'card',
+              }}
+            />
             <Stack.Screen 
               name="CreateEvent" 
               component={CreateEventScreen}
@@ -178,10 +261,86 @@ export const AppNavigator = () => {
                 presentation: 'card',
               }}
             />
+            <Stack.Screen 
+              name="Outbox" 
+              component={OutboxScreen}
+              options={{
+                headerShown: true,
+                title: 'Sync Queue',
+              }}
+            />
+            <Stack.Screen 
+              name="ImportCalendar" 
+              component={ImportCalendarScreen}
+              options={{
+                headerShown: true,
+                title: 'Import Calendar',
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="ExportCalendar" 
+              component={ExportCalendarScreen}
+              options={{
+                headerShown: true,
+                title: 'Export Calendar',
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="Reminders" 
+              component={RemindersScreen}
+              options={{
+                headerShown: true,
+                title: 'Notifications',
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="FindTime" 
+              component={FindTimeScreen}
+              options={{
+                headerShown: true,
+                title: 'Find a Time',
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="Search" 
+              component={SearchScreen}
+              options={{
+                headerShown: true,
+                title: 'Search',
+              }}
+            />
+            <Stack.Screen 
+              name="Calendars" 
+              component={CalendarsScreen}
+              options={{
+                headerShown: true,
+                title: 'Calendars',
+              }}
+            />
+            <Stack.Screen 
+              name="CalendarForm" 
+              component={CalendarFormScreen}
+              options={{
+                headerShown: false,
+                presentation: 'modal',
+              }}
+            />
+            <Stack.Screen 
+              name="ResponsibilityForm" 
+              component={ResponsibilityFormScreen}
+              options={{
+                headerShown: false,
+                presentation: 'modal',
+              }}
+            />
           </>
         ) : (
           // Unauthenticated user flow
-          <Stack.Screen name="Auth" component={LoginScreen} />
+          <Stack.Screen name="Auth" component={AuthNavigator} />
         )}
       </Stack.Navigator>
     </NavigationContainer>
@@ -200,4 +359,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: COLORS.TEXT.SECONDARY,
   },
+  headerButton: {
+    paddingHorizontal: 16,
+  },
+  headerButtonText: {
+    fontSize: 20,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useDispatch } from 'react-redux';
+import { CalendarForm } from '../components/CalendarForm';
+import { Calendar } from '../types';
+import { AppDispatch } from '../store/store';
+import { createCalendar, updateCalendar } from '../store/slices/calendarsSlice';
+
+type CalendarFormScreenRouteProp = RouteProp<{
+  CalendarForm: { calendar?: Calendar };
+}, 'CalendarForm'>;
+
+export const CalendarFormScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<CalendarFormScreenRouteProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const calendar = route.params?.calendar;
+
+  const handleSave = async (calendarData: Partial<Calendar>) => {
+    try {
+      setIsLoading(true);
+      if (calendar) {
+        await dispatch(updateCalendar({ calendarId: calendar.id, updates: calendarData })).unwrap();
+      } else {
+        await dispatch(createCalendar(calendarData)).unwrap();
+      }
+
+      Alert.alert(
+        'Success',
+        calendar ? 'Calendar updated successfully!' : 'Calendar created successfully!',
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.message || `Failed to ${calendar ? 'update' : 'create'} calendar. Please try again.`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <CalendarForm
+        calendar={calendar}
+        onSave={handleSave}
+        onCancel={handleCancel}
+        isLoading={isLoading}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,199 @@
+// Calendars Screen - Create, edit and delete calendars
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useDispatch, useSelector } from 'react-redux';
+import { Calendar } from '../types';
+import { RootStackParamList } from '../types/navigation';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState, AppDispatch } from '../store/store';
+import { deleteCalendar, fetchCalendars } from '../store/slices/calendarsSlice';
+
+type CalendarsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const CalendarsScreen: React.FC = () => {
+  const navigation = useNavigation<CalendarsScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { calendars, isLoading } = useSelector((state: RootState) => state.calendars);
+  const { events } = useSelector((state: RootState) => state.events);
+
+  // The server's count covers events we haven't loaded; fall back to what's cached
+  const countEvents = (calendar: Calendar): number =>
+    calendar.event_count ?? events.filter(event => event.calendar?.id === calendar.id).length;
+
+  const handleDeleteCalendar = (calendar: Calendar) => {
+    const count = countEvents(calendar);
+    const message = count > 0
+      ? `Deleting "${calendar.name}" also permanently deletes its ${count} ${count === 1 ? 'event' : 'events'}, ` +
+        'including every repeat of recurring events. This can\'t be undone.'
+      : `"${calendar.name}" has no events. Deleting it can't be undone.`;
+
+    Alert.alert(
+      'Delete Calendar',
+      message,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dispatch(deleteCalendar(calendar.id)).unwrap();
+              Alert.alert('Success', 'Calendar deleted successfully');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete calendar');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCalendar = ({ item: calendar }: { item: Calendar }) => {
+    const count = countEvents(calendar);
+    return (
+      <TouchableOpacity
+        style={[styles.calendarCard, !calendar.is_active && styles.inactiveCard]}
+        onPress={() => navigation.navigate('CalendarForm', { calendar })}
+      >
+        <View style={[styles.colorBar, { backgroundColor: calendar.color }]} />
+        <View style={styles.calendarInfo}>
+          <Text style={styles.calendarName} numberOfLines={1}>{calendar.name}</Text>
+          {calendar.description ? (
+            <Text style={styles.calendarDescription} numberOfLines={2}>{calendar.description}</Text>
+          ) : null}
+          <Text style={styles.calendarMeta}>
+            {calendar.visibility} · {calendar.timezone} · {count} {count === 1 ? 'event' : 'events'}
+            {calendar.is_active ? '' : ' · inactive'}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => handleDeleteCalendar(calendar)}
+        >
+          <Text style={styles.deleteButtonText}>🗑️</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={calendars}
+        keyExtractor={(item) => item.id}
+        renderItem={renderCalendar}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={() => dispatch(fetchCalendars())} />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No calendars</Text>
+            <Text style={styles.emptySubtitle}>Create a calendar to start adding events</Text>
+          </View>
+        }
+      />
+
+      {/* Create Calendar FAB */}
+      <TouchableOpacity style={styles.fab} onPress={() => navigation.navigate('CalendarForm', {})}>
+        <Text style={styles.fabIcon}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  calendarCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  colorBar: {
+    width: 6,
+    alignSelf: 'stretch',
+  },
+  calendarInfo: {
+    flex: 1,
+    padding: 16,
+  },
+  calendarName: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  calendarDescription: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 4,
+  },
+  calendarMeta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 6,
+  },
+  deleteButton: {
+    padding: 16,
+  },
+  deleteButtonText: {
+    fontSize: 18,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 64,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  fab: {
+    position: 'absolute',
+    bottom: 24,
+    right: 24,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: COLORS.PRIMARY,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  fabIcon: {
+    fontSize: 24,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
@@ -3,12 +3,12 @@ import { View, StyleSheet, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useDispatch } from 'react-redux';
 import { EventForm } from '../components/EventForm';
-import { Event } from '../types';
+import { EventWriteData } from '../types';
 import { AppDispatch } from '../store/store';
 import { createEvent } from '../store/slices/eventsSlice';
 
 type CreateEventScreenRouteProp = RouteProp<{
-  CreateEvent: { date?: string };
+  CreateEvent: { date?: string; start?: string; end?: string };
 }, 'CreateEvent'>;
 
 export const CreateEventScreen: React.FC = () => {
@@ -18,8 +18,10 @@ export const CreateEventScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
 
   const initialDate = route.params?.date;
+  const initialStart = route.params?.start;
+  const initialEnd = route.params?.end;
 
-  const handleSave = async (eventData: Partial<Event>) => {
+  const handleSave = async (eventData: EventWriteData) => {
     try {
       setIsLoading(true);
       await dispatch(createEvent(eventData)).unwrap();
@@ -55,6 +57,8 @@ export const CreateEventScreen: React.FC = () => {
         onCancel={handleCancel}
         isLoading={isLoading}
         initialDate={initialDate}
+        initialStart={initialStart}
+        initialEnd={initialEnd}
       />
     </View>
   );
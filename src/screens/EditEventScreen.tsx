@@ -3,9 +3,11 @@ import { View, StyleSheet, Alert } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useDispatch } from 'react-redux';
 import { EventForm } from '../components/EventForm';
-import { Event } from '../types';
+import { RecurrenceScopeModal } from '../components/RecurrenceScopeModal';
+import { Event, EventWriteData, RecurrenceScope } from '../types';
 import { AppDispatch } from '../store/store';
-import { updateEvent } from '../store/slices/eventsSlice';
+import { updateEvent, updateRecurringEvent } from '../store/slices/eventsSlice';
+import { isOccurrence } from '../utils/recurrence';
 
 type EditEventScreenRouteProp = RouteProp<{
   EditEvent: { event: Event };
@@ -16,6 +18,8 @@ export const EditEventScreen: React.FC = () => {
   const route = useRoute<EditEventScreenRouteProp>();
   const dispatch = useDispatch<AppDispatch>();
   const [isLoading, setIsLoading] = useState(false);
+  // Form data waiting for the user to pick which occurrences it applies to
+  const [pendingUpdates, setPendingUpdates] = useState<EventWriteData | null>(null);
 
   const event = route.params?.event;
 
@@ -25,10 +29,14 @@ export const EditEventScreen: React.FC = () => {
     return null;
   }
 
-  const handleSave = async (eventData: Partial<Event>) => {
+  const saveEvent = async (eventData: EventWriteData, scope?: RecurrenceScope) => {
     try {
       setIsLoading(true);
-      await dispatch(updateEvent({ id: event.id, updates: eventData })).unwrap();
+      if (scope && isOccurrence(event)) {
+        await dispatch(updateRecurringEvent({ occurrence: event, updates: eventData, scope })).unwrap();
+      } else {
+        await dispatch(updateEvent({ eventId: event.id, updates: eventData })).unwrap();
+      }
       
       Alert.alert(
         'Success',
@@ -50,6 +58,22 @@ export const EditEventScreen: React.FC = () => {
     }
   };
 
+  const handleSave = (eventData: EventWriteData) => {
+    if (isOccurrence(event)) {
+      setPendingUpdates(eventData);
+    } else {
+      saveEvent(eventData);
+    }
+  };
+
+  const handleScopeSelected = (scope: RecurrenceScope) => {
+    const updates = pendingUpdates;
+    setPendingUpdates(null);
+    if (updates) {
+      saveEvent(updates, scope);
+    }
+  };
+
   const handleCancel = () => {
     navigation.goBack();
   };
@@ -62,6 +86,12 @@ export const EditEventScreen: React.FC = () => {
         onCancel={handleCancel}
         isLoading={isLoading}
       />
+      <RecurrenceScopeModal
+        visible={pendingUpdates !== null}
+        action="edit"
+        onSelect={handleScopeSelected}
+        onCancel={() => setPendingUpdates(null)}
+      />
     </View>
   );
 };
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -10,10 +10,15 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useDispatch, useSelector } from 'react-redux';
-import { Event } from '../types';
+import { Event, RecurrenceScope } from '../types';
 import { COLORS, FONT_SIZES } from '../constants/config';
 import { AppDispatch, RootState } from '../store/store';
-import { deleteEvent, toggleEventCompletion } from '../store/slices/eventsSlice';
+import { deleteEvent, deleteRecurringEvent, toggleEventCompletion } from '../store/slices/eventsSlice';
+import { RecurrenceScopeModal } from '../components/RecurrenceScopeModal';
+import { describeRecurrence, isOccurrence } from '../utils/recurrence';
+import { serializeICal, shareICal } from '../utils/ical';
+import { formatDateKey, resolveTimeZone } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
 
 type EventDetailScreenRouteProp = RouteProp<{
   EventDetail: { event: Event };
@@ -24,6 +29,9 @@ export const EventDetailScreen: React.FC = () => {
   const route = useRoute<EventDetailScreenRouteProp>();
   const dispatch = useDispatch<AppDispatch>();
   const { calendars } = useSelector((state: RootState) => state.calendars);
+  const { events } = useSelector((state: RootState) => state.events);
+  const [showScopePicker, setShowScopePicker] = useState(false);
+  const timeZone = useTimeZone();
 
   const event = route.params?.event;
 
@@ -41,13 +49,48 @@ export const EventDetailScreen: React.FC = () => {
 
   const handleToggleCompletion = async () => {
     try {
-      await dispatch(toggleEventCompletion(event.id)).unwrap();
+      // Occurrences share completion with their series
+      const eventId = isOccurrence(event) ? event.series_id : event.id;
+      await dispatch(toggleEventCompletion(eventId)).unwrap();
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to toggle completion');
     }
   };
 
+  const showDeletedAndGoBack = () => {
+    Alert.alert(
+      'Success',
+      'Event deleted successfully!',
+      [
+        {
+          text: 'OK',
+          onPress: () => navigation.goBack(),
+        },
+      ]
+    );
+  };
+
+  const handleDeleteOccurrence = async (scope: RecurrenceScope) => {
+    setShowScopePicker(false);
+    if (!isOccurrence(event)) return;
+
+    try {
+      await dispatch(deleteRecurringEvent({ occurrence: event, scope })).unwrap();
+      showDeletedAndGoBack();
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.message || 'Failed to delete event. Please try again.'
+      );
+    }
+  };
+
   const handleDelete = () => {
+    if (isOccurrence(event)) {
+      setShowScopePicker(true);
+      return;
+    }
+
     Alert.alert(
       'Delete Event',
       `Are you sure you want to delete "${event.title}"?`,
@@ -59,16 +102,7 @@ export const EventDetailScreen: React.FC = () => {
           onPress: async () => {
             try {
               await dispatch(deleteEvent(event.id)).unwrap();
-              Alert.alert(
-                'Success',
-                'Event deleted successfully!',
-                [
-                  {
-                    text: 'OK',
-                    onPress: () => navigation.goBack(),
-                  },
-                ]
-              );
+              showDeletedAndGoBack();
             } catch (error: any) {
               Alert.alert(
                 'Error',
@@ -81,11 +115,24 @@ export const EventDetailScreen: React.FC = () => {
     );
   };
 
+  const handleExport = async () => {
+    // Share the whole series rather than one generated instance of it
+    const source = isOccurrence(event) ? events.find(e => e.id === event.series_id) || event : event;
+    try {
+      const ics = serializeICal([source], {
+        calendarName: calendar?.name,
+        timeZone: resolveTimeZone(calendar?.timezone, timeZone),
+      });
+      await shareICal(source.title, ics);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export event');
+    }
+  };
+
   const formatDateTime = (dateTimeString: string, allDay: boolean): string => {
-    const date = new Date(dateTimeString);
-    
+    // All-day dates are floating - show the day as written
     if (allDay) {
-      return date.toLocaleDateString('en-US', {
+      return formatDateKey(dateTimeString.slice(0, 10), {
         weekday: 'long',
         year: 'numeric',
         month: 'long',
@@ -93,7 +140,8 @@ export const EventDetailScreen: React.FC = () => {
       });
     }
     
-    return date.toLocaleString('en-US', {
+    return new Date(dateTimeString).toLocaleString('en-US', {
+      timeZone,
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -202,6 +250,14 @@ export const EventDetailScreen: React.FC = () => {
             <Text style={styles.dateTimeLabel}>Duration:</Text>
             <Text style={styles.dateTimeValue}>{formatDuration()}</Text>
           </View>
+          {event.recurrence_rule && (
+            <View style={styles.dateTimeInfo}>
+              <Text style={styles.dateTimeLabel}>Repeats:</Text>
+              <Text style={styles.dateTimeValue}>
+                🔁 {describeRecurrence(event.recurrence_rule)}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Description Section */}
@@ -227,11 +283,11 @@ export const EventDetailScreen: React.FC = () => {
             {event.creator.full_name || `${event.creator.first_name} ${event.creator.last_name}`}
           </Text>
           <Text style={styles.createdDate}>
-            Created: {new Date(event.created_at).toLocaleString()}
+            Created: {new Date(event.created_at).toLocaleString('en-US', { timeZone })}
           </Text>
           {event.updated_at !== event.created_at && (
             <Text style={styles.updatedDate}>
-              Last updated: {new Date(event.updated_at).toLocaleString()}
+              Last updated: {new Date(event.updated_at).toLocaleString('en-US', { timeZone })}
             </Text>
           )}
         </View>
@@ -252,8 +308,19 @@ export const EventDetailScreen: React.FC = () => {
           )}
         </View>
 
+        <TouchableOpacity style={styles.exportButton} onPress={handleExport}>
+          <Text style={styles.exportButtonText}>📤 Export as .ics</Text>
+        </TouchableOpacity>
+
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <RecurrenceScopeModal
+        visible={showScopePicker}
+        action="delete"
+        onSelect={handleDeleteOccurrence}
+        onCancel={() => setShowScopePicker(false)}
+      />
     </View>
   );
 };
@@ -302,6 +369,18 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.SMALL,
     fontWeight: '600',
   },
+  exportButton: {
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
   deleteButtonText: {
     color: 'white',
   },
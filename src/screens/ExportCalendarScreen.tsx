@@ -0,0 +1,313 @@
+// Export Calendar Screen - Share a calendar or a date range as an iCalendar (.ics) file
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState } from '../store/store';
+import { Event } from '../types';
+import apiService from '../services/api';
+import { expandEvents, isRecurring } from '../utils/recurrence';
+import { serializeICal, shareICal } from '../utils/ical';
+import { addDays, eventDayRange, parseDateKey, resolveTimeZone, todayKey } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+
+type Scope = 'all' | 'range';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Does the event (or any repeat of it) fall inside start..end, end day included?
+const overlapsRange = (event: Event, startKey: string, endKey: string, timeZone: string): boolean => {
+  if (isRecurring(event)) {
+    const rangeStart = parseDateKey(startKey, timeZone);
+    const rangeEnd = parseDateKey(addDays(endKey, 1), timeZone);
+    return expandEvents([event], rangeStart, rangeEnd, timeZone).length > 0;
+  }
+  const days = eventDayRange(event, timeZone);
+  return days.start <= endKey && days.end >= startKey;
+};
+
+// Events in start..end (end day included) together with every recurring series
+const fetchRange = async (startKey: string, endKey: string, calendarId: string): Promise<Event[]> => {
+  const [inRange, series] = await Promise.all([
+    apiService.getEvents(startKey, addDays(endKey, 1), calendarId || undefined),
+    apiService.getRecurringEvents(),
+  ]);
+  const ids = new Set(inRange.map(event => event.id));
+  return [
+    ...inRange,
+    ...series.filter(event => !ids.has(event.id) && (!calendarId || event.calendar?.id === calendarId)),
+  ];
+};
+
+export const ExportCalendarScreen: React.FC = () => {
+  const { calendars } = useSelector((state: RootState) => state.calendars);
+  const { events: cachedEvents } = useSelector((state: RootState) => state.events);
+  const timeZone = useTimeZone();
+
+  const [calendarId, setCalendarId] = useState<string>('');  // '' = every calendar
+  const [scope, setScope] = useState<Scope>('all');
+  const [startDate, setStartDate] = useState(todayKey(timeZone));
+  const [endDate, setEndDate] = useState(addDays(todayKey(timeZone), 30));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const calendar = calendars.find(c => c.id === calendarId);
+
+  const handleExport = async () => {
+    if (scope === 'range') {
+      if (!DATE_KEY.test(startDate) || !DATE_KEY.test(endDate)) {
+        Alert.alert('Error', 'Please enter dates as YYYY-MM-DD');
+        return;
+      }
+      if (endDate < startDate) {
+        Alert.alert('Error', 'The end date must be on or after the start date');
+        return;
+      }
+    }
+
+    try {
+      setIsExporting(true);
+
+      // Ask the server so nothing outside the loaded ranges is missed - for a date range, just
+      // that range plus the recurring series, which may have started before it
+      let source: Event[];
+      try {
+        source = scope === 'range'
+          ? await fetchRange(startDate, endDate, calendarId)
+          : await apiService.getEvents(undefined, undefined, calendarId || undefined);
+      } catch (error: any) {
+        console.warn('⚠️ Export: server unavailable, using cached events:', error.message);
+        source = calendarId ? cachedEvents.filter(event => event.calendar?.id === calendarId) : cachedEvents;
+      }
+
+      const selected = scope === 'range'
+        ? source.filter(event => overlapsRange(event, startDate, endDate, timeZone))
+        : source;
+
+      if (selected.length === 0) {
+        Alert.alert('Nothing to Export', 'There are no events in that selection.');
+        return;
+      }
+
+      const name = calendar?.name || 'All Calendars';
+      const ics = serializeICal(selected, {
+        calendarName: name,
+        timeZone: resolveTimeZone(calendar?.timezone, timeZone),
+      });
+      console.log(`📤 Exporting ${selected.length} events from ${name}`);
+      await shareICal(name, ics);
+    } catch (error: any) {
+      console.error('❌ Export failed:', error);
+      Alert.alert('Error', error.message || 'Failed to export calendar');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.label}>Calendar</Text>
+        <View style={styles.chips}>
+          <TouchableOpacity
+            style={[styles.chip, calendarId === '' && styles.selectedChip]}
+            onPress={() => setCalendarId('')}
+          >
+            <Text style={[styles.chipText, calendarId === '' && styles.selectedChipText]}>All calendars</Text>
+          </TouchableOpacity>
+          {calendars.map(c => (
+            <TouchableOpacity
+              key={c.id}
+              style={[styles.chip, calendarId === c.id && styles.selectedChip]}
+              onPress={() => setCalendarId(c.id)}
+            >
+              <View style={[styles.colorDot, { backgroundColor: c.color }]} />
+              <Text style={[styles.chipText, calendarId === c.id && styles.selectedChipText]}>{c.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Events</Text>
+        <View style={styles.segmented}>
+          {(['all', 'range'] as Scope[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, scope === option && styles.activeSegment]}
+              onPress={() => setScope(option)}
+            >
+              <Text style={[styles.segmentText, scope === option && styles.activeSegmentText]}>
+                {option === 'all' ? 'Everything' : 'Date range'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {scope === 'range' && (
+          <View style={styles.dateRow}>
+            <View style={styles.dateField}>
+              <Text style={styles.dateLabel}>From</Text>
+              <TextInput
+                style={styles.input}
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={COLORS.TEXT.DISABLED}
+                autoCapitalize="none"
+              />
+            </View>
+            <View style={styles.dateField}>
+              <Text style={styles.dateLabel}>To</Text>
+              <TextInput
+                style={styles.input}
+                value={endDate}
+                onChangeText={setEndDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={COLORS.TEXT.DISABLED}
+                autoCapitalize="none"
+              />
+            </View>
+          </View>
+        )}
+
+        <Text style={styles.hint}>
+          Times are written in {resolveTimeZone(calendar?.timezone, timeZone)}. Repeating events are
+          exported as a series, so any calendar app can show every repeat.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, isExporting && styles.disabledButton]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Export & Share</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  section: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  activeSegment: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  segmentText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '500',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  activeSegmentText: {
+    color: 'white',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  dateLabel: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 16,
+  },
+  hint: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
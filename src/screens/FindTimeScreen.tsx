@@ -0,0 +1,374 @@
+// Find Time Screen - Free slots across every calendar, tap one to book it
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootStackParamList } from '../types/navigation';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState, AppDispatch } from '../store/store';
+import { fetchEventsInRange } from '../store/slices/eventsSlice';
+import { FreeSlot, FreeSlotOptions, findFreeSlots } from '../utils/freeSlots';
+import { addDays, formatDateKey, formatTime, todayKey } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+
+type FindTimeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type FindTimeScreenRouteProp = RouteProp<RootStackParamList, 'FindTime'>;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+// Keeps the search (and the events it has to load) to a sensible size
+const MAX_RANGE_DAYS = 31;
+
+const formatDuration = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} h`.replace('.5 h', '½ h');
+
+export const FindTimeScreen: React.FC = () => {
+  const navigation = useNavigation<FindTimeScreenNavigationProp>();
+  const route = useRoute<FindTimeScreenRouteProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const timeZone = useTimeZone();
+  const { events } = useSelector((state: RootState) => state.events);
+
+  const initialStart = route.params?.date && route.params.date > todayKey(timeZone)
+    ? route.params.date
+    : todayKey(timeZone);
+
+  const [form, setForm] = useState({
+    duration: 60,
+    startDate: initialStart,
+    endDate: addDays(initialStart, 6),
+    useWorkingHours: true,
+    workStart: '09:00',
+    workEnd: '17:00',
+    weekdaysOnly: true,
+  });
+  const [error, setError] = useState<string | null>(null);
+  // The criteria behind the list on screen - only replaced when the form is valid
+  const [search, setSearch] = useState<Omit<FreeSlotOptions, 'timeZone' | 'now'>>({
+    startDate: form.startDate,
+    endDate: form.endDate,
+    durationMinutes: form.duration,
+    workingHours: { start: form.workStart, end: form.workEnd },
+    weekdaysOnly: form.weekdaysOnly,
+  });
+
+  useEffect(() => {
+    dispatch(fetchEventsInRange({ startDate: search.startDate, endDate: search.endDate }));
+  }, [dispatch, search.startDate, search.endDate]);
+
+  const sections = useMemo(() => {
+    const slots = findFreeSlots(events, { ...search, timeZone, now: new Date() });
+    const byDate: { [date: string]: FreeSlot[] } = {};
+    slots.forEach(slot => {
+      (byDate[slot.date] = byDate[slot.date] || []).push(slot);
+    });
+    return Object.keys(byDate).map(date => ({ date, data: byDate[date] }));
+  }, [events, search, timeZone]);
+
+  const updateForm = (field: string, value: any) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSearch = () => {
+    if (!DATE_KEY.test(form.startDate) || !DATE_KEY.test(form.endDate)) {
+      setError('Enter dates as YYYY-MM-DD');
+      return;
+    }
+    if (form.endDate < form.startDate) {
+      setError('The end date must be on or after the start date');
+      return;
+    }
+    if (addDays(form.startDate, MAX_RANGE_DAYS - 1) < form.endDate) {
+      setError(`Search at most ${MAX_RANGE_DAYS} days at a time`);
+      return;
+    }
+    if (form.useWorkingHours) {
+      if (!TIME.test(form.workStart) || !TIME.test(form.workEnd)) {
+        setError('Enter working hours as HH:MM');
+        return;
+      }
+      if (form.workEnd.padStart(5, '0') <= form.workStart.padStart(5, '0')) {
+        setError('Working hours must end after they start');
+        return;
+      }
+    }
+
+    setSearch({
+      startDate: form.startDate,
+      endDate: form.endDate,
+      durationMinutes: form.duration,
+      workingHours: form.useWorkingHours ? { start: form.workStart, end: form.workEnd } : null,
+      weekdaysOnly: form.weekdaysOnly,
+    });
+  };
+
+  // Books the start of the gap; the form still lets them move it within it
+  const handleSlotPress = (slot: FreeSlot) => {
+    const end = new Date(new Date(slot.start).getTime() + search.durationMinutes * 60000).toISOString();
+    navigation.navigate('CreateEvent', { date: slot.date, start: slot.start, end });
+  };
+
+  const renderSlot = ({ item }: { item: FreeSlot }) => (
+    <TouchableOpacity style={styles.slotCard} onPress={() => handleSlotPress(item)}>
+      <Text style={styles.slotTime}>
+        {formatTime(item.start, timeZone)} – {formatTime(item.end, timeZone)}
+      </Text>
+      <Text style={styles.slotAction}>Book ›</Text>
+    </TouchableOpacity>
+  );
+
+  const header = (
+    <View style={styles.section}>
+      <Text style={styles.label}>Duration</Text>
+      <View style={styles.chips}>
+        {DURATIONS.map(minutes => (
+          <TouchableOpacity
+            key={minutes}
+            style={[styles.chip, form.duration === minutes && styles.selectedChip]}
+            onPress={() => updateForm('duration', minutes)}
+          >
+            <Text style={[styles.chipText, form.duration === minutes && styles.selectedChipText]}>
+              {formatDuration(minutes)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>From</Text>
+          <TextInput
+            style={styles.input}
+            value={form.startDate}
+            onChangeText={value => updateForm('startDate', value)}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>To</Text>
+          <TextInput
+            style={styles.input}
+            value={form.endDate}
+            onChangeText={value => updateForm('endDate', value)}
+            placeholder="YYYY-MM-DD"
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>Working hours only</Text>
+        <Switch
+          value={form.useWorkingHours}
+          onValueChange={value => updateForm('useWorkingHours', value)}
+          trackColor={{ false: '#767577', true: COLORS.PRIMARY }}
+          thumbColor={form.useWorkingHours ? '#fff' : '#f4f3f4'}
+        />
+      </View>
+      {form.useWorkingHours && (
+        <View style={styles.row}>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Start</Text>
+            <TextInput
+              style={styles.input}
+              value={form.workStart}
+              onChangeText={value => updateForm('workStart', value)}
+              placeholder="HH:MM"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>End</Text>
+            <TextInput
+              style={styles.input}
+              value={form.workEnd}
+              onChangeText={value => updateForm('workEnd', value)}
+              placeholder="HH:MM"
+            />
+          </View>
+        </View>
+      )}
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>Weekdays only</Text>
+        <Switch
+          value={form.weekdaysOnly}
+          onValueChange={value => updateForm('weekdaysOnly', value)}
+          trackColor={{ false: '#767577', true: COLORS.PRIMARY }}
+          thumbColor={form.weekdaysOnly ? '#fff' : '#f4f3f4'}
+        />
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <TouchableOpacity style={styles.searchButton} onPress={handleSearch}>
+        <Text style={styles.searchButtonText}>Find times</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SectionList
+      style={styles.container}
+      sections={sections}
+      keyExtractor={item => item.start}
+      renderItem={renderSlot}
+      renderSectionHeader={({ section }) => (
+        <Text style={styles.sectionTitle}>
+          {formatDateKey(section.date, { weekday: 'long', month: 'short', day: 'numeric' })}
+        </Text>
+      )}
+      stickySectionHeadersEnabled={false}
+      ListHeaderComponent={header}
+      contentContainerStyle={styles.list}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyIcon}>📭</Text>
+          <Text style={styles.emptyText}>
+            No {formatDuration(search.durationMinutes)} gaps in this range
+          </Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  list: {
+    padding: 16,
+  },
+  section: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.ERROR,
+    marginTop: 4,
+  },
+  searchButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  searchButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  slotCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.SUCCESS,
+  },
+  slotTime: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  slotAction: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+});
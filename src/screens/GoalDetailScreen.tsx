@@ -0,0 +1,410 @@
+// Goal Detail Screen - Everything about one goal plus a timeline of how it changed
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Goal, GoalHistoryEntry } from '../types';
+import { RootStackParamList } from '../types/navigation';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { useGoals } from '../hooks/useGoals';
+import { useTimeZone } from '../hooks/useTimeZone';
+import goalHistoryService from '../services/goalHistory';
+import { describeHistoryEntry } from '../utils/goalHistory';
+import { progressPercentage } from '../utils/goalProgress';
+import { formatStreak, goalStreak, periodUnit } from '../utils/goalPeriods';
+import { formatDateKey, todayKey } from '../utils/dateTime';
+
+type GoalDetailRouteProp = RouteProp<{ GoalDetail: { goal: Goal } }, 'GoalDetail'>;
+type GoalDetailNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const HISTORY_ICONS: Record<GoalHistoryEntry['type'], string> = {
+  created: '✨',
+  progress: '📈',
+  checkin: '📝',
+  target: '🎯',
+  completed: '✅',
+  reopened: '↩️',
+  status: '🔄',
+  rollover: '📦',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const GoalDetailScreen: React.FC = () => {
+  const navigation = useNavigation<GoalDetailNavigationProp>();
+  const route = useRoute<GoalDetailRouteProp>();
+  const { goals, deleteGoal, toggleGoalCompletion } = useGoals();
+  const [history, setHistory] = useState<GoalHistoryEntry[]>([]);
+  const timeZone = useTimeZone();
+
+  // Prefer the store's copy - the route param is a snapshot from the list
+  const goal = goals.find(g => g.id === route.params.goal.id) ?? route.params.goal;
+
+  const loadHistory = useCallback(async () => {
+    setHistory(await goalHistoryService.getForGoal(route.params.goal.id));
+  }, [route.params.goal.id]);
+
+  // Follow new history as it's recorded (edits, check-ins, rollovers)
+  useEffect(() => {
+    loadHistory();
+    return goalHistoryService.subscribe(() => {
+      loadHistory();
+    });
+  }, [loadHistory]);
+
+  const handleEdit = () => {
+    navigation.navigate('EditGoal', { goal });
+  };
+
+  const handleToggleCompletion = () => {
+    toggleGoalCompletion(goal.id);
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Goal',
+      `Are you sure you want to delete "${goal.title}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteGoal(goal.id);
+              navigation.goBack();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete goal');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDay = (value: string) =>
+    formatDateKey(value.slice(0, 10), { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' });
+
+  const formatWhen = (value: string) =>
+    new Date(value).toLocaleString('en-US', {
+      timeZone,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  // Goals made on another device have no local "created" entry - fall back to the server's timestamp
+  const timeline = history.some(entry => entry.type === 'created')
+    ? history
+    : [...history, { id: 'server_created', goalId: goal.id, type: 'created' as const, timestamp: goal.created_at }];
+
+  const priorityColor = COLORS.PRIORITY[goal.priority];
+  const progress = progressPercentage(goal);
+  const streak = goalStreak(goal, history, todayKey(timeZone), timeZone);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Goal Details</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={handleEdit} style={styles.actionButton}>
+            <Text style={styles.actionButtonText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDelete} style={[styles.actionButton, styles.deleteButton]}>
+            <Text style={styles.actionButtonText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.content}>
+        {/* Title Section */}
+        <View style={styles.section}>
+          <Text style={[styles.title, goal.is_completed && styles.completedTitle]}>{goal.title}</Text>
+          <View style={styles.tags}>
+            <View style={[styles.tag, { backgroundColor: priorityColor + '20' }]}>
+              <Text style={[styles.tagText, { color: priorityColor }]}>{goal.priority.toUpperCase()}</Text>
+            </View>
+            <View style={styles.tag}>
+              <Text style={styles.tagText}>{goal.frequency.toUpperCase()}</Text>
+            </View>
+            <View style={styles.tag}>
+              <Text style={styles.tagText}>{goal.status.toUpperCase()}</Text>
+            </View>
+          </View>
+        </View>
+
+        {goal.description ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Description</Text>
+            <Text style={styles.description}>{goal.description}</Text>
+          </View>
+        ) : null}
+
+        {/* Progress Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Progress</Text>
+          <Text style={styles.progressValue}>
+            {goal.current_value}
+            {goal.target_value ? ` / ${goal.target_value}` : ''}
+            {goal.unit ? ` ${goal.unit}` : ''}
+          </Text>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress}%`, backgroundColor: priorityColor }]} />
+          </View>
+          <Text style={styles.meta}>{progress}% · {capitalize(goal.frequency)} goal</Text>
+        </View>
+
+        {/* Streak Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Streak</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Current:</Text>
+            <Text style={styles.rowValue}>
+              {streak.current > 0 ? `🔥 ${formatStreak(streak.current, goal.frequency)}` : 'None yet'}
+            </Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Longest:</Text>
+            <Text style={styles.rowValue}>
+              {streak.longest > 0 ? formatStreak(streak.longest, goal.frequency) : '—'}
+            </Text>
+          </View>
+          <Text style={styles.meta}>
+            {streak.completedThisPeriod
+              ? `Done for this ${periodUnit(goal.frequency)}`
+              : 'Paused periods don\'t break a streak'}
+          </Text>
+        </View>
+
+        {/* Dates Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dates</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Starts:</Text>
+            <Text style={styles.rowValue}>{formatDay(goal.start_date)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Ends:</Text>
+            <Text style={styles.rowValue}>{goal.end_date ? formatDay(goal.end_date) : 'No end date'}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.toggleButton} onPress={handleToggleCompletion}>
+          <Text style={styles.toggleButtonText}>
+            {goal.is_completed ? '↩️ Mark as Not Complete' : '✅ Mark as Complete'}
+          </Text>
+        </TouchableOpacity>
+
+        {/* History Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          {timeline.map((entry, index) => (
+            <View key={entry.id} style={styles.entry}>
+              <View style={styles.entryMarker}>
+                <Text style={styles.entryIcon}>{HISTORY_ICONS[entry.type]}</Text>
+                {index < timeline.length - 1 && <View style={styles.entryLine} />}
+              </View>
+              <View style={styles.entryBody}>
+                <Text style={styles.entryText}>{describeHistoryEntry(entry, goal.unit)}</Text>
+                {entry.note ? <Text style={styles.entryNote}>“{entry.note}”</Text> : null}
+                <Text style={styles.meta}>{formatWhen(entry.timestamp)}</Text>
+              </View>
+            </View>
+          ))}
+          <Text style={styles.hint}>Changes are recorded on this device as you make them.</Text>
+        </View>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  backButton: {
+    padding: 8,
+  },
+  backButtonText: {
+    fontSize: 24,
+    color: COLORS.PRIMARY,
+    fontWeight: 'bold',
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.PRIMARY,
+  },
+  deleteButton: {
+    backgroundColor: COLORS.ERROR,
+  },
+  actionButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: FONT_SIZES.TITLE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 12,
+  },
+  completedTitle: {
+    textDecorationLine: 'line-through',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tag: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  tagText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    lineHeight: 22,
+  },
+  progressValue: {
+    fontSize: FONT_SIZES.EXTRA_LARGE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  meta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  row: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  rowLabel: {
+    width: 70,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  toggleButton: {
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  toggleButtonText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  entryMarker: {
+    width: 32,
+    alignItems: 'center',
+  },
+  entryIcon: {
+    fontSize: FONT_SIZES.MEDIUM,
+  },
+  entryLine: {
+    flex: 1,
+    width: 2,
+    marginVertical: 4,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  entryBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  entryText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 2,
+  },
+  entryNote: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontStyle: 'italic',
+    marginBottom: 2,
+  },
+  hint: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.DISABLED,
+    fontStyle: 'italic',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
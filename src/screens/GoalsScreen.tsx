@@ -12,7 +12,9 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useGoals } from '../hooks/useGoals';
+import { useGoalStreaks } from '../hooks/useGoalStreaks';
 import { GoalCard } from '../components/GoalCard';
+import { CheckInModal } from '../components/CheckInModal';
 import { Goal } from '../types';
 import { RootStackParamList } from '../types/navigation';
 import { COLORS, FONT_SIZES } from '../constants/config';
@@ -30,17 +32,19 @@ export const GoalsScreen: React.FC = () => {
     loadGoals,
     deleteGoal,
     toggleGoalCompletion,  // ⭐ The magic method!
+    checkIn,
     clearError,
   } = useGoals();
 
+  const streaks = useGoalStreaks(goals);
   const [showCompleted, setShowCompleted] = useState(false);
+  const [loggingGoal, setLoggingGoal] = useState<Goal | null>(null);
 
   // Get the goals to display based on filter
   const displayGoals = showCompleted ? completedGoals : activeGoals;
 
   const handleGoalPress = (goal: Goal) => {
-    // TODO: Navigate to goal details
-    console.log('Goal pressed:', goal.title);
+    navigation.navigate('GoalDetail', { goal });
   };
 
   const handleEditGoal = (goal: Goal) => {
@@ -75,6 +79,16 @@ export const GoalsScreen: React.FC = () => {
     // That's it! No state management hell, no Provider updates, just works!
   };
 
+  // Failures revert the card and show in the error banner
+  const handleCheckIn = (goal: Goal, amount: number, note?: string) => {
+    checkIn(goal.id, amount, note).catch(() => {});
+  };
+
+  const handleLogAmount = (amount: number, note?: string) => {
+    if (loggingGoal) handleCheckIn(loggingGoal, amount, note);
+    setLoggingGoal(null);
+  };
+
   const handleCreateGoal = () => {
     navigation.navigate('CreateGoal');
   };
@@ -82,10 +96,13 @@ export const GoalsScreen: React.FC = () => {
   const renderGoalCard = ({ item: goal }: { item: Goal }) => (
     <GoalCard
       goal={goal}
+      streak={streaks[goal.id]}
       onToggleCompletion={handleToggleCompletion}
       onPress={() => handleGoalPress(goal)}
       onEdit={() => handleEditGoal(goal)}
       onDelete={() => handleDeleteGoal(goal)}
+      onCheckIn={amount => handleCheckIn(goal, amount)}
+      onLogAmount={() => setLoggingGoal(goal)}
     />
   );
 
@@ -179,6 +196,13 @@ export const GoalsScreen: React.FC = () => {
         showsVerticalScrollIndicator={false}
       />
 
+      <CheckInModal
+        visible={loggingGoal !== null}
+        goal={loggingGoal}
+        onSubmit={handleLogAmount}
+        onCancel={() => setLoggingGoal(null)}
+      />
+
       {/* Create Goal FAB */}
       <TouchableOpacity style={styles.fab} onPress={handleCreateGoal}>
         <Text style={styles.fabIcon}>+</Text>
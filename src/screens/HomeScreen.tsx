@@ -8,24 +8,55 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 import { Calendar, DateData } from 'react-native-calendars';
 import { useSelector, useDispatch } from 'react-redux';
 import { useNavigation } from '@react-navigation/native';
 import { COLORS, FONT_SIZES } from '../constants/config';
-import { Event } from '../types';
+import { CalendarViewMode, Event, EventWriteData } from '../types';
 import { logger } from '../utils/logger';
 import { RootState, AppDispatch } from '../store/store';
-import { fetchEvents, deleteEvent } from '../store/slices/eventsSlice';
-import { fetchCalendars } from '../store/slices/calendarsSlice';
+import { fetchEventsInRange, fetchRecurringEvents, deleteEvent, createEvent } from '../store/slices/eventsSlice';
+import {
+  fetchCalendars,
+  selectHiddenCalendarIds,
+  showAllCalendars,
+  toggleCalendarVisibility,
+} from '../store/slices/calendarsSlice';
+import { expandEvents } from '../utils/recurrence';
+import { DayEntry, buildPeriodMarks, groupEventsByDay } from '../utils/multiDay';
+import {
+  addDays,
+  addMonths,
+  formatDateKey,
+  formatTime,
+  monthRange,
+  parseDateKey,
+  startOfWeek,
+  todayKey,
+} from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+import storageService from '../services/storage';
+import { CalendarViewSwitcher } from '../components/CalendarViewSwitcher';
+import { TimelineView } from '../components/TimelineView';
+import { AgendaView } from '../components/AgendaView';
+import { QuickAddBar } from '../components/QuickAddBar';
+import { CalendarFilterDrawer } from '../components/CalendarFilterDrawer';
 
 export const HomeScreen: React.FC = () => {
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const timeZone = useTimeZone();
+  const [selectedDate, setSelectedDate] = useState(() => todayKey(timeZone));
+  const [viewMode, setViewMode] = useState<CalendarViewMode>('month');
+  const [showFilter, setShowFilter] = useState(false);
+  const [visibleMonth, setVisibleMonth] = useState(() => todayKey(timeZone).slice(0, 7));
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const dispatch = useDispatch<AppDispatch>();
   const navigation = useNavigation();
   
   const { events, isLoading: eventsLoading } = useSelector((state: RootState) => state.events);
   const { calendars, isLoading: calendarsLoading } = useSelector((state: RootState) => state.calendars);
+  const hiddenCalendarIds = useSelector(selectHiddenCalendarIds);
 
   // Initialize data loading like Flutter does
   useEffect(() => {
@@ -33,76 +64,148 @@ export const HomeScreen: React.FC = () => {
     logger.debug('HomeScreen: Current events count:', events.length);
     logger.debug('HomeScreen: Current calendars count:', calendars.length);
     
-    // Load events and calendars with Redux
-    dispatch(fetchEvents());
     dispatch(fetchCalendars());
+    // Series that began before the loaded months still repeat into them
+    dispatch(fetchRecurringEvents());
   }, [dispatch]);
 
-  // Get events for selected date
-  const selectedDateEvents = useMemo(() => {
-    const selectedDateObj = new Date(selectedDate);
-    const dateString = selectedDateObj.toISOString().split('T')[0];
-    
-    const filteredEvents = events.filter(event => {
-      const eventDate = new Date(event.start_time).toISOString().split('T')[0];
-      return eventDate === dateString;
-    });
-    
-    logger.debug('HomeScreen: Events for date', selectedDate, 'Total events:', events.length, 'Filtered:', filteredEvents.length);
-    return filteredEvents;
-  }, [selectedDate, events]);
+  // The month being looked at - the grid's own paging in month view, otherwise the selected day's month
+  const focusMonth = viewMode === 'month' ? visibleMonth : selectedDate.slice(0, 7);
 
-  // Get events grouped by date (for calendar markers)
-  const eventsByDate = useMemo(() => {
-    const grouped: { [date: string]: Event[] } = {};
-    
-    events.forEach(event => {
-      const date = new Date(event.start_time).toISOString().split('T')[0];
-      if (!grouped[date]) {
-        grouped[date] = [];
+  // Cached months render straight away; this loads the focused month and its neighbours
+  // (for the spill-over days on the grid and the next swipe). Fresh months are skipped by the thunk.
+  useEffect(() => {
+    logger.debug('HomeScreen: Loading events around', focusMonth);
+    dispatch(fetchEventsInRange(monthRange(focusMonth)));
+    dispatch(fetchEventsInRange(monthRange(addMonths(focusMonth, -1))));
+    dispatch(fetchEventsInRange(monthRange(addMonths(focusMonth, 1))));
+  }, [dispatch, focusMonth]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    dispatch(fetchCalendars());
+    await Promise.all([
+      dispatch(fetchEventsInRange({ ...monthRange(focusMonth), force: true })),
+      dispatch(fetchRecurringEvents({ force: true })),
+    ]);
+    setIsRefreshing(false);
+  };
+
+  // Restore the last view the user picked
+  useEffect(() => {
+    storageService.getCalendarViewMode().then(savedMode => {
+      if (savedMode) {
+        setViewMode(savedMode);
       }
-      grouped[date].push(event);
     });
-    
-    return grouped;
-  }, [events]);
+  }, []);
+
+  // Calendars switched off in the filter drawer drop out of every view
+  const visibleEvents = useMemo(
+    () => (hiddenCalendarIds.length === 0
+      ? events
+      : events.filter(event => !hiddenCalendarIds.includes(event.calendar?.id))),
+    [events, hiddenCalendarIds]
+  );
+
+  // Days around the focused month that recurring events are expanded into
+  const monthWindow = useMemo(() => {
+    const monthStart = `${focusMonth}-01`;
+    return { start: addDays(monthStart, -31), end: addDays(monthStart, 61) };
+  }, [focusMonth]);
+
+  // Expand recurring events into occurrences around the selected month
+  const displayEvents = useMemo(() => {
+    const windowStart = parseDateKey(monthWindow.start, timeZone);
+    const windowEnd = parseDateKey(addDays(monthWindow.end, 1), timeZone);
+    return expandEvents(visibleEvents, windowStart, windowEnd, timeZone);
+  }, [monthWindow, visibleEvents, timeZone]);
+
+  // Events listed under every day they cover - a three-day conference shows on all three
+  const eventsByDate = useMemo(
+    () => groupEventsByDay(displayEvents, timeZone, monthWindow),
+    [displayEvents, timeZone, monthWindow]
+  );
 
-  // Prepare marked dates for calendar
+  // Get events for selected date - ones already under way (multi-day) first, then by start time
+  const selectedDateEvents = useMemo(() => {
+    const entries = [...(eventsByDate[selectedDate] || [])].sort((a, b) =>
+      Number(a.dayIndex === 1) - Number(b.dayIndex === 1) ||
+      new Date(a.event.start_time).getTime() - new Date(b.event.start_time).getTime()
+    );
+
+    logger.debug('HomeScreen: Events for date', selectedDate, 'Total events:', events.length, 'Filtered:', entries.length);
+    return entries;
+  }, [selectedDate, eventsByDate, events.length]);
+
+  // Prepare marked dates for calendar - each event is a bar running across the days it covers
   const markedDates = useMemo(() => {
     const marks: any = {};
-    
-    // Mark all dates with events
-    Object.keys(eventsByDate).forEach(date => {
-      const dayEvents = eventsByDate[date];
-      marks[date] = {
-        marked: true,
-        dots: dayEvents.slice(0, 3).map((event, index) => {
-          const calendar = calendars.find(c => c.id === event.calendar.id);
-          return {
-            key: `event-${index}`,
-            color: calendar?.color || COLORS.PRIMARY,
-          };
-        }),
-      };
+    const periodsByDate = buildPeriodMarks(
+      displayEvents,
+      timeZone,
+      event => calendars.find(c => c.id === event.calendar?.id)?.color || COLORS.PRIMARY,
+      monthWindow
+    );
+
+    Object.keys(periodsByDate).forEach(date => {
+      marks[date] = { periods: periodsByDate[date] };
     });
-    
+
     // Mark selected date
     marks[selectedDate] = {
       ...marks[selectedDate],
       selected: true,
       selectedColor: COLORS.PRIMARY,
     };
-    
+
     return marks;
-  }, [selectedDate, eventsByDate, calendars]);
+  }, [selectedDate, displayEvents, timeZone, monthWindow, calendars]);
 
   const getCalendarColor = (calendarId: string): string => {
     const calendar = calendars.find(c => c.id === calendarId);
     return calendar?.color || COLORS.PRIMARY;
   };
 
+  // Days shown by the timeline views
+  const timelineDays = useMemo(() => {
+    const count = viewMode === 'week' ? 7 : viewMode === '3day' ? 3 : 1;
+    const firstDay = viewMode === 'week' ? startOfWeek(selectedDate) : selectedDate;
+    return Array.from({ length: count }, (_, index) => addDays(firstDay, index));
+  }, [viewMode, selectedDate]);
+
+  const timelineTitle = useMemo(() => {
+    const first = timelineDays[0];
+    const last = timelineDays[timelineDays.length - 1];
+    if (timelineDays.length === 1) {
+      return formatDateKey(first, { weekday: 'long', month: 'short', day: 'numeric' });
+    }
+    const format = (dateKey: string) => formatDateKey(dateKey, { month: 'short', day: 'numeric' });
+    return `${format(first)} – ${format(last)}, ${last.slice(0, 4)}`;
+  }, [timelineDays]);
+
+  const handleViewModeChange = (mode: CalendarViewMode) => {
+    setViewMode(mode);
+    // The month grid opens on the selected day's month
+    setVisibleMonth(selectedDate.slice(0, 7));
+    storageService.saveCalendarViewMode(mode);
+  };
+
+  const shiftTimeline = (direction: 1 | -1) => {
+    setSelectedDate(addDays(selectedDate, direction * timelineDays.length));
+  };
+
+  const handleSlotPress = (dateKey: string) => {
+    navigation.navigate('CreateEvent' as never, { date: dateKey } as never);
+  };
+
   const handleDayPress = (day: DateData) => {
     setSelectedDate(day.dateString);
+    setVisibleMonth(day.dateString.slice(0, 7));
+  };
+
+  const handleMonthChange = (month: DateData) => {
+    setVisibleMonth(month.dateString.slice(0, 7));
   };
 
   const handleEventPress = (event: Event) => {
@@ -124,28 +227,31 @@ export const HomeScreen: React.FC = () => {
     );
   };
 
+  const handleQuickAdd = async (eventData: EventWriteData) => {
+    await dispatch(createEvent(eventData)).unwrap();
+  };
+
+  const handleFindTime = () => {
+    navigation.navigate('FindTime' as never, { date: selectedDate } as never);
+  };
+
   const handleCreateEvent = () => {
     navigation.navigate('CreateEvent' as never, { date: selectedDate } as never);
   };
 
-  const formatEventTime = (event: Event): string => {
-    const start = new Date(event.start_time);
-    const end = new Date(event.end_time);
-    
+  // Timed events spanning days show where this day sits in them
+  const formatEventTime = ({ event, dayIndex, dayCount }: DayEntry): string => {
     if (event.all_day) return 'All day';
-    
-    const formatTime = (date: Date) => {
-      return date.toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      });
-    };
-    
-    return `${formatTime(start)} - ${formatTime(end)}`;
+    if (dayCount > 1) {
+      if (dayIndex === 1) return `From ${formatTime(event.start_time, timeZone)}`;
+      if (dayIndex === dayCount) return `Until ${formatTime(event.end_time, timeZone)}`;
+      return 'All day';
+    }
+    return `${formatTime(event.start_time, timeZone)} - ${formatTime(event.end_time, timeZone)}`;
   };
 
-  const renderEventCard = (event: Event) => {
+  const renderEventCard = (entry: DayEntry) => {
+    const { event, dayIndex, dayCount } = entry;
     const calendar = calendars.find(c => c.id === event.calendar.id);
     const calendarColor = calendar?.color || COLORS.PRIMARY;
     
@@ -160,8 +266,11 @@ export const HomeScreen: React.FC = () => {
             styles.eventTimeText,
             event.completed && styles.completedText
           ]}>
-            {formatEventTime(event)}
+            {formatEventTime(entry)}
           </Text>
+          {dayCount > 1 && (
+            <Text style={styles.eventDayText}>Day {dayIndex} of {dayCount}</Text>
+          )}
         </View>
         
         <View style={styles.eventContent}>
@@ -169,7 +278,7 @@ export const HomeScreen: React.FC = () => {
             styles.eventTitle,
             event.completed && styles.completedText
           ]} numberOfLines={1}>
-            {event.title}
+            {event.recurrence_rule ? '🔁 ' : ''}{event.title}
           </Text>
           {event.location && (
             <Text style={[
@@ -200,66 +309,136 @@ export const HomeScreen: React.FC = () => {
     );
   }
 
+  const renderTimeline = () => (
+    <View style={styles.timelineContainer}>
+      <View style={styles.timelineToolbar}>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => shiftTimeline(-1)}>
+          <Text style={styles.toolbarArrow}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.timelineTitle}>{timelineTitle}</Text>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => shiftTimeline(1)}>
+          <Text style={styles.toolbarArrow}>›</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.todayButton} onPress={() => setSelectedDate(todayKey(timeZone))}>
+          <Text style={styles.todayButtonText}>Today</Text>
+        </TouchableOpacity>
+      </View>
+      <TimelineView
+        days={timelineDays}
+        events={displayEvents}
+        calendars={calendars}
+        timeZone={timeZone}
+        onEventPress={handleEventPress}
+        onSlotPress={handleSlotPress}
+      />
+    </View>
+  );
+
   return (
     <View style={styles.container}>
-      <ScrollView>
-        {/* Calendar Component */}
-        <View style={styles.calendarContainer}>
-          <Calendar
-            current={selectedDate}
-            onDayPress={handleDayPress}
-            markedDates={markedDates}
-            markingType={'multi-dot'}
-            theme={{
-              backgroundColor: COLORS.BACKGROUND.PRIMARY,
-              calendarBackground: COLORS.BACKGROUND.CARD,
-              selectedDayBackgroundColor: COLORS.PRIMARY,
-              selectedDayTextColor: 'white',
-              todayTextColor: COLORS.PRIMARY,
-              dayTextColor: COLORS.TEXT.PRIMARY,
-              textDisabledColor: COLORS.TEXT.DISABLED,
-              dotColor: COLORS.PRIMARY,
-              arrowColor: COLORS.PRIMARY,
-              monthTextColor: COLORS.TEXT.PRIMARY,
-              textDayFontWeight: '400',
-              textMonthFontWeight: '600',
-              textDayHeaderFontWeight: '500',
-              textDayFontSize: 16,
-              textMonthFontSize: 18,
-              textDayHeaderFontSize: 14,
-            }}
-          />
-        </View>
-
-        {/* Selected Date Header */}
-        <View style={styles.dateHeader}>
-          <Text style={styles.dateTitle}>
-            {new Date(selectedDate).toLocaleDateString('en-US', {
-              weekday: 'long',
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric',
-            })}
+      <QuickAddBar
+        referenceDate={selectedDate}
+        timeZone={timeZone}
+        calendars={calendars}
+        onCreate={handleQuickAdd}
+      />
+      <View style={styles.toolbarRow}>
+        <CalendarViewSwitcher
+          value={viewMode}
+          onChange={handleViewModeChange}
+          style={styles.viewSwitcher}
+        />
+        <TouchableOpacity
+          style={[styles.filterButton, hiddenCalendarIds.length > 0 && styles.filterButtonActive]}
+          onPress={() => setShowFilter(true)}
+        >
+          <Text style={[styles.filterButtonText, hiddenCalendarIds.length > 0 && styles.filterButtonTextActive]}>
+            {hiddenCalendarIds.length > 0 ? `${hiddenCalendarIds.length} hidden` : 'Calendars'}
           </Text>
-          <Text style={styles.eventCount}>
-            {selectedDateEvents.length} {selectedDateEvents.length === 1 ? 'event' : 'events'}
-          </Text>
-        </View>
+        </TouchableOpacity>
+      </View>
 
-        {/* Events List */}
-        <View style={styles.eventsContainer}>
-          {selectedDateEvents.length === 0 ? (
-            <View style={styles.emptyState}>
-              <Text style={styles.emptyTitle}>No events</Text>
-              <Text style={styles.emptySubtitle}>
-                Tap the + button to create an event for this date
+      {viewMode === 'agenda' ? (
+        <AgendaView events={visibleEvents} calendars={calendars} timeZone={timeZone} onEventPress={handleEventPress} />
+      ) : viewMode !== 'month' ? renderTimeline() : (
+        <ScrollView
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={COLORS.PRIMARY} />
+          }
+        >
+          {/* Calendar Component */}
+          <View style={styles.calendarContainer}>
+            <Calendar
+              current={selectedDate}
+              onDayPress={handleDayPress}
+              onMonthChange={handleMonthChange}
+              markedDates={markedDates}
+              markingType={'multi-period'}
+              theme={{
+                backgroundColor: COLORS.BACKGROUND.PRIMARY,
+                calendarBackground: COLORS.BACKGROUND.CARD,
+                selectedDayBackgroundColor: COLORS.PRIMARY,
+                selectedDayTextColor: 'white',
+                todayTextColor: COLORS.PRIMARY,
+                dayTextColor: COLORS.TEXT.PRIMARY,
+                textDisabledColor: COLORS.TEXT.DISABLED,
+                dotColor: COLORS.PRIMARY,
+                arrowColor: COLORS.PRIMARY,
+                monthTextColor: COLORS.TEXT.PRIMARY,
+                textDayFontWeight: '400',
+                textMonthFontWeight: '600',
+                textDayHeaderFontWeight: '500',
+                textDayFontSize: 16,
+                textMonthFontSize: 18,
+                textDayHeaderFontSize: 14,
+              }}
+            />
+          </View>
+
+          {/* Selected Date Header */}
+          <View style={styles.dateHeader}>
+            <Text style={styles.dateTitle}>
+              {formatDateKey(selectedDate, {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </Text>
+            <View style={styles.dateHeaderRow}>
+              <Text style={styles.eventCount}>
+                {selectedDateEvents.length} {selectedDateEvents.length === 1 ? 'event' : 'events'}
               </Text>
+              <TouchableOpacity style={styles.findTimeButton} onPress={handleFindTime}>
+                <Text style={styles.findTimeButtonText}>Find a time</Text>
+              </TouchableOpacity>
             </View>
-          ) : (
-            selectedDateEvents.map(renderEventCard)
-          )}
-        </View>
-      </ScrollView>
+          </View>
+
+          {/* Events List */}
+          <View style={styles.eventsContainer}>
+            {selectedDateEvents.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyTitle}>No events</Text>
+                <Text style={styles.emptySubtitle}>
+                  Tap the + button to create an event for this date
+                </Text>
+              </View>
+            ) : (
+              selectedDateEvents.map(renderEventCard)
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <CalendarFilterDrawer
+        visible={showFilter}
+        calendars={calendars}
+        hiddenCalendarIds={hiddenCalendarIds}
+        onToggle={calendarId => dispatch(toggleCalendarVisibility(calendarId))}
+        onShowAll={() => dispatch(showAllCalendars())}
+        onClose={() => setShowFilter(false)}
+      />
 
       {/* Create Event FAB */}
       <TouchableOpacity style={styles.fab} onPress={handleCreateEvent}>
@@ -288,6 +467,87 @@ const styles = StyleSheet.create({
     color: COLORS.TEXT.SECONDARY,
   },
 
+  toolbarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginRight: 16,
+  },
+
+  viewSwitcher: {
+    flex: 1,
+    marginTop: 0,
+    marginRight: 8,
+  },
+
+  filterButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+  },
+
+  filterButtonActive: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+
+  filterButtonText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+
+  filterButtonTextActive: {
+    color: 'white',
+  },
+
+  timelineContainer: {
+    flex: 1,
+    marginTop: 8,
+  },
+
+  timelineToolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+
+  toolbarButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+
+  toolbarArrow: {
+    fontSize: 24,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+
+  timelineTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+
+  todayButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+    marginLeft: 4,
+  },
+
+  todayButtonText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+
   calendarContainer: {
     backgroundColor: COLORS.BACKGROUND.CARD,
     margin: 16,
@@ -311,10 +571,30 @@ const styles = StyleSheet.create({
     color: COLORS.TEXT.PRIMARY,
   },
 
+  dateHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+
   eventCount: {
     fontSize: FONT_SIZES.MEDIUM,
     color: COLORS.TEXT.SECONDARY,
-    marginTop: 4,
+  },
+
+  findTimeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.PRIMARY,
+  },
+
+  findTimeButtonText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
   },
 
   eventsContainer: {
@@ -349,6 +629,14 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  eventDayText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.PRIMARY,
+    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+
   eventContent: {
     flex: 1,
     padding: 16,
@@ -0,0 +1,459 @@
+// Import Calendar Screen - Bring events in from an iCalendar (.ics) file
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState, AppDispatch } from '../store/store';
+import { createEvent } from '../store/slices/eventsSlice';
+import { fetchCalendars } from '../store/slices/calendarsSlice';
+import { ICalEvent, ICalParseResult, findDuplicate, parseICal, toEventData } from '../utils/ical';
+import { describeRecurrence } from '../utils/recurrence';
+import { formatDate, formatDateKey, formatTime } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+
+type Source = 'paste' | 'url';
+
+interface ImportFailure {
+  title: string;
+  message: string;
+}
+
+const formatWhen = (event: ICalEvent, timeZone: string): string => {
+  if (event.all_day) return `${formatDateKey(event.start_time.slice(0, 10))} · All day`;
+  return `${formatDate(event.start_time, timeZone)} · ${formatTime(event.start_time, timeZone)}`;
+};
+
+export const ImportCalendarScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigation = useNavigation();
+  const { calendars } = useSelector((state: RootState) => state.calendars);
+  const { events } = useSelector((state: RootState) => state.events);
+  const timeZone = useTimeZone();
+
+  const [source, setSource] = useState<Source>('paste');
+  const [text, setText] = useState('');
+  const [url, setUrl] = useState('');
+  const [calendarId, setCalendarId] = useState<string>('');
+  const [preview, setPreview] = useState<ICalParseResult | null>(null);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  useEffect(() => {
+    if (calendars.length === 0) {
+      dispatch(fetchCalendars());
+    }
+  }, [dispatch, calendars.length]);
+
+  // Default to the first calendar once they're loaded
+  useEffect(() => {
+    if (!calendarId && calendars.length > 0) {
+      setCalendarId(calendars[0].id);
+    }
+  }, [calendarId, calendars]);
+
+  const duplicates = useMemo(
+    () => (preview?.events || []).map(event => !!findDuplicate(event, events, calendarId)),
+    [preview, events, calendarId]
+  );
+
+  const selectedCount = selected.filter(Boolean).length;
+
+  const handlePreview = async () => {
+    try {
+      setIsFetching(true);
+      let content = text;
+      if (source === 'url') {
+        // webcal:// is just a hint to open a calendar app - the file is served over https
+        const response = await fetch(url.trim().replace(/^webcal:/i, 'https:'));
+        if (!response.ok) {
+          throw new Error(`Download failed (${response.status})`);
+        }
+        content = await response.text();
+      }
+
+      const result = parseICal(content);
+      setPreview(result);
+      setFailures([]);
+      // Everything except likely duplicates starts ticked
+      setSelected(result.events.map(event => !findDuplicate(event, events, calendarId)));
+      console.log(`📥 Parsed ${result.events.length} events, ${result.errors.length} unreadable`);
+    } catch (error: any) {
+      console.error('❌ Failed to read calendar file:', error);
+      Alert.alert('Error', error.message || 'Could not read that calendar file');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => prev.map((value, i) => (i === index ? !value : value)));
+  };
+
+  const handleImport = async () => {
+    if (!preview || !calendarId) return;
+
+    const toImport = preview.events.map((_, index) => index).filter(index => selected[index]);
+    const importFailures: ImportFailure[] = [];
+    const failedIndexes = new Set<number>();
+    setIsImporting(true);
+    setProgress(0);
+
+    // One at a time so a bad event doesn't take the rest down with it
+    for (const index of toImport) {
+      const event = preview.events[index];
+      try {
+        await dispatch(createEvent(toEventData(event, calendarId))).unwrap();
+      } catch (error: any) {
+        failedIndexes.add(index);
+        importFailures.push({ title: event.title, message: String(error?.message || error || 'Failed to create event') });
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    setIsImporting(false);
+    setFailures(importFailures);
+
+    const imported = toImport.length - importFailures.length;
+    if (importFailures.length === 0) {
+      Alert.alert(
+        'Success',
+        `Imported ${imported} event${imported === 1 ? '' : 's'}!`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } else {
+      Alert.alert(
+        'Import Finished',
+        `Imported ${imported} of ${toImport.length} events. The ones that failed are listed below.`
+      );
+      // Leave only the failed ones ticked so they can be retried
+      setSelected(preview.events.map((_, index) => failedIndexes.has(index)));
+    }
+  };
+
+  const renderSource = () => (
+    <View style={styles.section}>
+      <View style={styles.segmented}>
+        {(['paste', 'url'] as Source[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.segment, source === option && styles.activeSegment]}
+            onPress={() => setSource(option)}
+          >
+            <Text style={[styles.segmentText, source === option && styles.activeSegmentText]}>
+              {option === 'paste' ? 'Paste .ics' : 'From URL'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {source === 'paste' ? (
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={text}
+          onChangeText={setText}
+          placeholder="BEGIN:VCALENDAR..."
+          placeholderTextColor={COLORS.TEXT.DISABLED}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      ) : (
+        <TextInput
+          style={styles.input}
+          value={url}
+          onChangeText={setUrl}
+          placeholder="https://example.com/calendar.ics"
+          placeholderTextColor={COLORS.TEXT.DISABLED}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+      )}
+
+      <Text style={styles.label}>Import into</Text>
+      <View style={styles.chips}>
+        {calendars.map(calendar => (
+          <TouchableOpacity
+            key={calendar.id}
+            style={[styles.chip, calendarId === calendar.id && styles.selectedChip]}
+            onPress={() => setCalendarId(calendar.id)}
+          >
+            <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+            <Text style={[styles.chipText, calendarId === calendar.id && styles.selectedChipText]}>
+              {calendar.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, (isFetching || !calendarId) && styles.disabledButton]}
+        onPress={handlePreview}
+        disabled={isFetching || !calendarId || (source === 'paste' ? !text.trim() : !url.trim())}
+      >
+        {isFetching ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Preview</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          {preview.calendarName ? `${preview.calendarName} · ` : ''}
+          {preview.events.length} event{preview.events.length === 1 ? '' : 's'}
+        </Text>
+
+        {preview.events.map((event, index) => (
+          <TouchableOpacity
+            key={`${event.uid || event.title}-${index}`}
+            style={styles.eventRow}
+            onPress={() => toggleSelected(index)}
+            disabled={isImporting}
+          >
+            <Text style={styles.checkbox}>{selected[index] ? '☑️' : '⬜️'}</Text>
+            <View style={styles.eventInfo}>
+              <Text style={styles.eventTitle} numberOfLines={1}>{event.title}</Text>
+              <Text style={styles.eventMeta}>{formatWhen(event, timeZone)}</Text>
+              {event.recurrence_rule && (
+                <Text style={styles.eventMeta}>🔁 {describeRecurrence(event.recurrence_rule)}</Text>
+              )}
+              {event.location && <Text style={styles.eventMeta} numberOfLines={1}>📍 {event.location}</Text>}
+              {duplicates[index] && <Text style={styles.duplicateText}>Looks like it's already in your calendar</Text>}
+              {event.warnings.map(warning => (
+                <Text key={warning} style={styles.warningText}>{warning}</Text>
+              ))}
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        {preview.errors.length > 0 && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorTitle}>
+              {preview.errors.length} event{preview.errors.length === 1 ? '' : 's'} couldn't be read
+            </Text>
+            {preview.errors.map(error => (
+              <Text key={error.index} style={styles.errorText}>
+                • {error.summary || `Event ${error.index + 1}`}: {error.message}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {failures.length > 0 && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorTitle}>Failed to import</Text>
+            {failures.map((failure, index) => (
+              <Text key={index} style={styles.errorText}>• {failure.title}: {failure.message}</Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (isImporting || selectedCount === 0) && styles.disabledButton]}
+          onPress={handleImport}
+          disabled={isImporting || selectedCount === 0}
+        >
+          {isImporting ? (
+            <Text style={styles.primaryButtonText}>Importing {progress} of {selectedCount}...</Text>
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              Import {selectedCount} event{selectedCount === 1 ? '' : 's'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      {renderSource()}
+      {renderPreview()}
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  section: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 12,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  activeSegment: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  segmentText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '500',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  activeSegmentText: {
+    color: 'white',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 16,
+  },
+  textArea: {
+    height: 160,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+    fontSize: FONT_SIZES.SMALL,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  checkbox: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  eventMeta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 2,
+  },
+  duplicateText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.WARNING,
+    marginTop: 4,
+  },
+  warningText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.WARNING,
+    marginTop: 2,
+  },
+  errorBox: {
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  errorTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.ERROR,
+    marginBottom: 4,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.PRIMARY,
+    marginTop: 2,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
@@ -12,11 +12,17 @@ import {
   Platform,
 } from 'react-native';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { COLORS, FONT_SIZES } from '../constants/config';
 import { RootState, AppDispatch } from '../store/store';
 import { loginUser } from '../store/slices/authSlice';
+import { AuthStackParamList } from '../types/navigation';
+
+type LoginScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Login'>;
 
 export const LoginScreen: React.FC = () => {
+  const navigation = useNavigation<LoginScreenNavigationProp>();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const dispatch = useDispatch<AppDispatch>();
@@ -107,7 +113,7 @@ export const LoginScreen: React.FC = () => {
         <View style={styles.footer}>
           <Text style={styles.footerText}>
             Don't have an account?{' '}
-            <Text style={styles.footerLink}>Sign Up</Text>
+            <Text style={styles.footerLink} onPress={() => navigation.navigate('Register')}>Sign Up</Text>
           </Text>
         </View>
       </ScrollView>
@@ -0,0 +1,248 @@
+// Outbox Screen - Writes made offline that haven't reached the server yet
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { OutboxItem, OutboxMutationType } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { useOutbox } from '../hooks/useOutbox';
+import { useTimeZone } from '../hooks/useTimeZone';
+
+const ACTION_LABELS: Record<OutboxMutationType, string> = {
+  createEvent: 'New event',
+  updateEvent: 'Event change',
+  deleteEvent: 'Event deletion',
+  createCalendar: 'New calendar',
+  updateCalendar: 'Calendar change',
+  deleteCalendar: 'Calendar deletion',
+  createGoal: 'New goal',
+  updateGoal: 'Goal change',
+  deleteGoal: 'Goal deletion',
+  createResponsibility: 'New responsibility',
+  updateResponsibility: 'Responsibility change',
+  deleteResponsibility: 'Responsibility deletion',
+};
+
+export const OutboxScreen: React.FC = () => {
+  const { items, pendingCount, failedItems, isSyncing, syncNow, retry, retryAll, discard } = useOutbox();
+  const timeZone = useTimeZone();
+
+  const handleDiscard = (item: OutboxItem) => {
+    Alert.alert(
+      'Discard Change',
+      'This change will be thrown away and your data reloaded from the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => discard(item.id) },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: OutboxItem }) => {
+    const isFailed = item.status === 'failed';
+    const name = item.payload?.title || item.payload?.name;
+
+    return (
+      <View style={[styles.itemCard, isFailed && styles.failedCard]}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemAction}>{ACTION_LABELS[item.type]}</Text>
+          <Text style={[styles.itemStatus, isFailed && styles.failedStatus]}>
+            {isFailed ? 'Failed' : 'Waiting'}
+          </Text>
+        </View>
+        {name && <Text style={styles.itemName} numberOfLines={1}>{name}</Text>}
+        <Text style={styles.itemMeta}>
+          Saved {new Date(item.createdAt).toLocaleString('en-US', { timeZone })}
+          {item.attempts > 0 ? ` · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}` : ''}
+        </Text>
+        {item.lastError && <Text style={styles.itemError}>{item.lastError}</Text>}
+
+        {isFailed && (
+          <View style={styles.itemActions}>
+            <TouchableOpacity style={styles.retryButton} onPress={() => retry(item.id)}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.discardButton} onPress={() => handleDiscard(item)}>
+              <Text style={styles.discardButtonText}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          {items.length === 0
+            ? 'Everything is synced'
+            : `${pendingCount} waiting · ${failedItems.length} failed`}
+        </Text>
+        <View style={styles.summaryActions}>
+          {failedItems.length > 1 && (
+            <TouchableOpacity style={styles.summaryButton} onPress={retryAll}>
+              <Text style={styles.summaryButtonText}>Retry All</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.summaryButton, (isSyncing || pendingCount === 0) && styles.disabledButton]}
+            onPress={syncNow}
+            disabled={isSyncing || pendingCount === 0}
+          >
+            {isSyncing ? (
+              <ActivityIndicator color="white" size="small" />
+            ) : (
+              <Text style={styles.summaryButtonText}>Sync Now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>✅</Text>
+            <Text style={styles.emptyText}>No changes waiting to sync</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  summaryText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    fontWeight: '500',
+  },
+  summaryActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  summaryButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  summaryButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  list: {
+    padding: 16,
+  },
+  itemCard: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.WARNING,
+  },
+  failedCard: {
+    borderLeftColor: COLORS.ERROR,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  itemAction: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  itemStatus: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.WARNING,
+  },
+  failedStatus: {
+    color: COLORS.ERROR,
+  },
+  itemName: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  itemError: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.ERROR,
+    marginTop: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  retryButton: {
+    flex: 1,
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+  },
+  retryButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  discardButton: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 10,
+    alignItems: 'center',
+  },
+  discardButtonText: {
+    color: COLORS.ERROR,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 64,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+});
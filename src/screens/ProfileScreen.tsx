@@ -10,18 +10,26 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
 import { COLORS, FONT_SIZES } from '../constants/config';
 import { RootState, AppDispatch } from '../store/store';
 import { logoutUser } from '../store/slices/authSlice';
+import { useOutbox } from '../hooks/useOutbox';
+import { useGoals } from '../hooks/useGoals';
 
 export const ProfileScreen: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
+  const navigation = useNavigation();
   const { user, isLoading } = useSelector((state: RootState) => state.auth);
+  const { items: unsyncedItems, failedItems } = useOutbox();
+  const { goals, completedGoals } = useGoals();
 
   const handleLogout = () => {
     Alert.alert(
       'Logout',
-      'Are you sure you want to logout?',
+      unsyncedItems.length > 0
+        ? `You have ${unsyncedItems.length} change(s) that haven't synced yet. Logging out will lose them.`
+        : 'Are you sure you want to logout?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -48,10 +56,37 @@ export const ProfileScreen: React.FC = () => {
       icon: '⚙️',
       onPress: () => console.log('Account settings'),
     },
+    {
+      title: 'Calendars',
+      icon: '📅',
+      onPress: () => navigation.navigate('Calendars' as never),
+    },
+    {
+      title: 'Find a Time',
+      icon: '🔎',
+      onPress: () => navigation.navigate('FindTime' as never),
+    },
     {
       title: 'Notifications',
       icon: '🔔',
-      onPress: () => console.log('Notifications'),
+      onPress: () => navigation.navigate('Reminders' as never),
+    },
+    {
+      title: unsyncedItems.length > 0
+        ? `Sync Queue (${unsyncedItems.length}${failedItems.length > 0 ? `, ${failedItems.length} failed` : ''})`
+        : 'Sync Queue',
+      icon: failedItems.length > 0 ? '⚠️' : '🔄',
+      onPress: () => navigation.navigate('Outbox' as never),
+    },
+    {
+      title: 'Import Calendar (.ics)',
+      icon: '📥',
+      onPress: () => navigation.navigate('ImportCalendar' as never),
+    },
+    {
+      title: 'Export Calendar (.ics)',
+      icon: '📤',
+      onPress: () => navigation.navigate('ExportCalendar' as never),
     },
     {
       title: 'Privacy',
@@ -92,12 +127,12 @@ export const ProfileScreen: React.FC = () => {
       {/* Stats */}
       <View style={styles.statsSection}>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>0</Text>
+          <Text style={styles.statNumber}>{goals.length}</Text>
           <Text style={styles.statLabel}>Goals Created</Text>
         </View>
         
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>0</Text>
+          <Text style={styles.statNumber}>{completedGoals.length}</Text>
           <Text style={styles.statLabel}>Goals Completed</Text>
         </View>
         
@@ -0,0 +1,320 @@
+// Register Screen - Create an account, then sign straight in
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TextInputProps,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { useDispatch } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { AppDispatch } from '../store/store';
+import { loginUser } from '../store/slices/authSlice';
+import apiService from '../services/api';
+import { AuthStackParamList } from '../types/navigation';
+import { RegisterRequest } from '../types';
+import { deviceTimeZone } from '../utils/dateTime';
+import { ApiValidationError, FieldErrors, passwordStrength, validateRegistration } from '../utils/validation';
+
+type RegisterScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Register'>;
+
+const STRENGTH_COLORS = [COLORS.ERROR, COLORS.ERROR, COLORS.WARNING, COLORS.SUCCESS, COLORS.SUCCESS];
+
+export const RegisterScreen: React.FC = () => {
+  const navigation = useNavigation<RegisterScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const [form, setForm] = useState<RegisterRequest>({
+    email: '',
+    username: '',
+    first_name: '',
+    last_name: '',
+    password: '',
+    password_confirm: '',
+    timezone: deviceTimeZone(),
+  });
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const strength = passwordStrength(form.password);
+
+  const updateField = (field: keyof RegisterRequest, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    // The message no longer applies once the field is edited
+    if (errors[field]) {
+      setErrors(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== field)));
+    }
+  };
+
+  const handleRegister = async () => {
+    const validationErrors = validateRegistration(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    const data: RegisterRequest = {
+      ...form,
+      email: form.email.trim(),
+      username: form.username.trim(),
+      first_name: form.first_name?.trim(),
+      last_name: form.last_name?.trim(),
+      timezone: form.timezone.trim(),
+    };
+
+    try {
+      setIsSubmitting(true);
+      await apiService.register(data);
+    } catch (error: any) {
+      setIsSubmitting(false);
+      if (error instanceof ApiValidationError) {
+        setErrors(error.fieldErrors);
+        // Messages for fields this form doesn't show would otherwise be lost
+        const shown = ['email', 'username', 'first_name', 'last_name', 'password', 'password_confirm', 'timezone'];
+        const other = Object.entries(error.fieldErrors).find(([field]) => !shown.includes(field));
+        if (other) {
+          Alert.alert('Sign Up Failed', other[1]);
+        }
+        return;
+      }
+      Alert.alert('Sign Up Failed', error.message || 'An unexpected error occurred');
+      return;
+    }
+
+    // The account exists now - sign in the same way the login screen does
+    const result = await dispatch(loginUser({ email: data.email, password: data.password }));
+    setIsSubmitting(false);
+    if (!loginUser.fulfilled.match(result)) {
+      Alert.alert(
+        'Account Created',
+        'Your account is ready, but we couldn\'t sign you in. Please sign in with your new details.',
+        [{ text: 'OK', onPress: () => navigation.navigate('Login') }]
+      );
+    }
+  };
+
+  const renderField = (
+    field: keyof RegisterRequest,
+    label: string,
+    props: TextInputProps = {}
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, errors[field] && styles.inputError]}
+        value={form[field]}
+        onChangeText={(value) => updateField(field, value)}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isSubmitting}
+        {...props}
+      />
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.title}>Create Account</Text>
+          <Text style={styles.subtitle}>Start organising your calendar</Text>
+        </View>
+
+        <View style={styles.form}>
+          {renderField('email', 'Email', { placeholder: 'you@example.com', keyboardType: 'email-address' })}
+          {renderField('username', 'Username', { placeholder: 'Choose a username' })}
+
+          <View style={styles.row}>
+            <View style={styles.halfWidth}>
+              {renderField('first_name', 'First Name', { placeholder: 'Optional', autoCapitalize: 'words' })}
+            </View>
+            <View style={styles.halfWidth}>
+              {renderField('last_name', 'Last Name', { placeholder: 'Optional', autoCapitalize: 'words' })}
+            </View>
+          </View>
+
+          {renderField('password', 'Password', { placeholder: 'At least 8 characters', secureTextEntry: true })}
+          {form.password.length > 0 && !errors.password && (
+            <View style={styles.strengthContainer}>
+              <View style={styles.strengthTrack}>
+                {[1, 2, 3, 4].map(step => (
+                  <View
+                    key={step}
+                    style={[
+                      styles.strengthSegment,
+                      step <= strength.score && { backgroundColor: STRENGTH_COLORS[strength.score] },
+                    ]}
+                  />
+                ))}
+              </View>
+              <Text style={[styles.strengthLabel, { color: STRENGTH_COLORS[strength.score] }]}>
+                {strength.label}
+              </Text>
+            </View>
+          )}
+
+          {renderField('password_confirm', 'Confirm Password', { placeholder: 'Type it again', secureTextEntry: true })}
+          {renderField('timezone', 'Time Zone', { placeholder: 'e.g., Europe/Berlin' })}
+
+          <TouchableOpacity
+            style={[styles.registerButton, isSubmitting && styles.disabledButton]}
+            onPress={handleRegister}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.registerButtonText}>
+              {isSubmitting ? 'Creating Account...' : 'Sign Up'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>
+            Already have an account?{' '}
+            <Text style={styles.footerLink} onPress={() => navigation.navigate('Login')}>Sign In</Text>
+          </Text>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+
+  title: {
+    fontSize: FONT_SIZES.TITLE,
+    fontWeight: 'bold',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+
+  subtitle: {
+    fontSize: FONT_SIZES.LARGE,
+    color: COLORS.TEXT.SECONDARY,
+  },
+
+  form: {
+    marginBottom: 32,
+  },
+
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+
+  halfWidth: {
+    flex: 1,
+  },
+
+  inputContainer: {
+    marginBottom: 20,
+  },
+
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+
+  input: {
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+
+  inputError: {
+    borderColor: COLORS.ERROR,
+  },
+
+  errorText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.ERROR,
+    marginTop: 6,
+  },
+
+  strengthContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: -12,
+    marginBottom: 20,
+  },
+
+  strengthTrack: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 4,
+  },
+
+  strengthSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+
+  strengthLabel: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+  },
+
+  registerButton: {
+    backgroundColor: COLORS.PRIMARY,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+
+  disabledButton: {
+    opacity: 0.6,
+  },
+
+  registerButtonText: {
+    color: 'white',
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+  },
+
+  footer: {
+    alignItems: 'center',
+  },
+
+  footerText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+
+  footerLink: {
+    color: COLORS.PRIMARY,
+    fontWeight: '600',
+  },
+});
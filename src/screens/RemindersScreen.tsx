@@ -0,0 +1,202 @@
+// Reminders Screen - Notification preferences and the reminders due in the next day
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+} from 'react-native';
+import { ScheduledReminder } from '../types';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { useReminders } from '../hooks/useReminders';
+import { REMINDER_PRESETS, formatReminderOffset } from '../utils/reminders';
+import { formatTime } from '../utils/dateTime';
+import { useTimeZone } from '../hooks/useTimeZone';
+
+export const RemindersScreen: React.FC = () => {
+  const { settings, upcoming, updateSettings } = useReminders();
+  const timeZone = useTimeZone();
+
+  const toggleDefault = (minutes: number) => {
+    const defaultMinutes = settings.defaultMinutes.includes(minutes)
+      ? settings.defaultMinutes.filter(m => m !== minutes)
+      : [...settings.defaultMinutes, minutes].sort((a, b) => a - b);
+    updateSettings({ defaultMinutes });
+  };
+
+  const renderReminder = ({ item }: { item: ScheduledReminder }) => (
+    <View style={styles.reminderCard}>
+      <Text style={styles.reminderTime}>
+        {formatTime(item.fireAt, timeZone)}
+      </Text>
+      <View style={styles.reminderInfo}>
+        <Text style={styles.reminderTitle} numberOfLines={1}>{item.title}</Text>
+        <Text style={styles.reminderBody} numberOfLines={1}>
+          {formatReminderOffset(item.minutesBefore)} · {item.body}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const header = (
+    <>
+      <View style={styles.section}>
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>Event reminders</Text>
+          <Switch
+            value={settings.enabled}
+            onValueChange={(enabled) => updateSettings({ enabled })}
+            trackColor={{ false: '#767577', true: COLORS.PRIMARY }}
+            thumbColor={settings.enabled ? '#fff' : '#f4f3f4'}
+          />
+        </View>
+        <Text style={styles.hint}>
+          Reminders show while the app is open. Each event keeps its own reminder times.
+        </Text>
+
+        <Text style={[styles.label, styles.defaultsLabel]}>Default for new events</Text>
+        <View style={styles.chips}>
+          {REMINDER_PRESETS.map(minutes => {
+            const selected = settings.defaultMinutes.includes(minutes);
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[styles.chip, selected && styles.selectedChip]}
+                onPress={() => toggleDefault(minutes)}
+              >
+                <Text style={[styles.chipText, selected && styles.selectedChipText]}>
+                  {formatReminderOffset(minutes)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Next 24 hours</Text>
+    </>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={settings.enabled ? upcoming : []}
+      keyExtractor={item => item.key}
+      renderItem={renderReminder}
+      ListHeaderComponent={header}
+      contentContainerStyle={styles.list}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyIcon}>🔕</Text>
+          <Text style={styles.emptyText}>
+            {settings.enabled ? 'No reminders coming up' : 'Reminders are turned off'}
+          </Text>
+        </View>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  list: {
+    padding: 16,
+  },
+  section: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  defaultsLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 12,
+  },
+  reminderCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  reminderTime: {
+    width: 72,
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
+  reminderInfo: {
+    flex: 1,
+  },
+  reminderTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  reminderBody: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+});
@@ -0,0 +1,257 @@
+// Responsibilities Screen - Ongoing duties, grouped by whether they're still yours
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useDispatch, useSelector } from 'react-redux';
+import { Responsibility } from '../types';
+import { RootStackParamList } from '../types/navigation';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState, AppDispatch } from '../store/store';
+import {
+  clearError,
+  deleteResponsibility,
+  fetchResponsibilities,
+  selectResponsibilitiesByStatus,
+} from '../store/slices/responsibilitiesSlice';
+
+type ResponsibilitiesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export const ResponsibilitiesScreen: React.FC = () => {
+  const navigation = useNavigation<ResponsibilitiesScreenNavigationProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const { isLoading, error } = useSelector((state: RootState) => state.responsibilities);
+  const { active, paused, ended } = useSelector(selectResponsibilitiesByStatus);
+
+  useEffect(() => {
+    dispatch(fetchResponsibilities());
+  }, [dispatch]);
+
+  const sections = [
+    { title: 'Active', data: active },
+    { title: 'Paused', data: paused },
+    { title: 'Ended', data: ended },
+  ].filter(section => section.data.length > 0);
+
+  const handleDeleteResponsibility = (responsibility: Responsibility) => {
+    Alert.alert(
+      'Delete Responsibility',
+      `Are you sure you want to delete "${responsibility.title}"? If you've just handed it over, ` +
+        'you can mark it as ended instead.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dispatch(deleteResponsibility(responsibility.id)).unwrap();
+              Alert.alert('Success', 'Responsibility deleted successfully');
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to delete responsibility');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderResponsibility = ({ item: responsibility }: { item: Responsibility }) => {
+    const meta = [
+      responsibility.category,
+      responsibility.frequency || 'ongoing',
+      `${responsibility.priority} priority`,
+      responsibility.end_date
+        ? `${responsibility.start_date.slice(0, 10)} → ${responsibility.end_date.slice(0, 10)}`
+        : `since ${responsibility.start_date.slice(0, 10)}`,
+    ].filter(Boolean);
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, responsibility.status !== 'active' && styles.inactiveCard]}
+        onPress={() => navigation.navigate('ResponsibilityForm', { responsibility })}
+      >
+        <View style={[styles.colorBar, { backgroundColor: responsibility.color }]} />
+        <View style={styles.info}>
+          <Text style={styles.title} numberOfLines={1}>{responsibility.title}</Text>
+          {responsibility.description ? (
+            <Text style={styles.description} numberOfLines={2}>{responsibility.description}</Text>
+          ) : null}
+          <Text style={styles.meta}>{meta.join(' · ')}</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => handleDeleteResponsibility(responsibility)}
+        >
+          <Text style={styles.deleteButtonText}>🗑️</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={() => dispatch(clearError())}>
+            <Text style={styles.errorDismiss}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderResponsibility}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionHeader}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.list}
+        refreshControl={
+          <RefreshControl refreshing={isLoading} onRefresh={() => dispatch(fetchResponsibilities())} />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No responsibilities</Text>
+            <Text style={styles.emptySubtitle}>
+              Add the ongoing duties you look after - they don't need a finish line
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Create Responsibility FAB */}
+      <TouchableOpacity style={styles.fab} onPress={() => navigation.navigate('ResponsibilityForm', {})}>
+        <Text style={styles.fabIcon}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  sectionHeader: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  colorBar: {
+    width: 6,
+    alignSelf: 'stretch',
+  },
+  info: {
+    flex: 1,
+    padding: 16,
+  },
+  title: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  description: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 6,
+  },
+  deleteButton: {
+    padding: 16,
+  },
+  deleteButtonText: {
+    fontSize: 18,
+  },
+  errorContainer: {
+    backgroundColor: COLORS.ERROR,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  errorText: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    flex: 1,
+  },
+  errorDismiss: {
+    color: 'white',
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 64,
+    paddingHorizontal: 32,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.LARGE,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+    textAlign: 'center',
+  },
+  fab: {
+    position: 'absolute',
+    bottom: 24,
+    right: 24,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: COLORS.PRIMARY,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  fabIcon: {
+    fontSize: 24,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
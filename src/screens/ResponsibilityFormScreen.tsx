@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useDispatch } from 'react-redux';
+import { ResponsibilityForm } from '../components/ResponsibilityForm';
+import { Responsibility } from '../types';
+import { AppDispatch } from '../store/store';
+import { createResponsibility, updateResponsibility } from '../store/slices/responsibilitiesSlice';
+
+type ResponsibilityFormScreenRouteProp = RouteProp<{
+  ResponsibilityForm: { responsibility?: Responsibility };
+}, 'ResponsibilityForm'>;
+
+export const ResponsibilityFormScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<ResponsibilityFormScreenRouteProp>();
+  const dispatch = useDispatch<AppDispatch>();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const responsibility = route.params?.responsibility;
+
+  const handleSave = async (data: Partial<Responsibility>) => {
+    try {
+      setIsLoading(true);
+      if (responsibility) {
+        await dispatch(updateResponsibility({ responsibilityId: responsibility.id, updates: data })).unwrap();
+      } else {
+        await dispatch(createResponsibility(data)).unwrap();
+      }
+
+      Alert.alert(
+        'Success',
+        responsibility ? 'Responsibility updated successfully!' : 'Responsibility added successfully!',
+        [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]
+      );
+    } catch (error: any) {
+      Alert.alert(
+        'Error',
+        error.message || `Failed to ${responsibility ? 'update' : 'add'} responsibility. Please try again.`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <ResponsibilityForm
+        responsibility={responsibility}
+        onSave={handleSave}
+        onCancel={handleCancel}
+        isLoading={isLoading}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
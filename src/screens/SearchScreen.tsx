@@ -0,0 +1,486 @@
+// Search Screen - One box for events, goals and calendars
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSelector } from 'react-redux';
+import { Calendar, Event, Goal, GoalPriority, GoalStatus, SearchFilters, SearchKind } from '../types';
+import { RootStackParamList } from '../types/navigation';
+import { COLORS, FONT_SIZES } from '../constants/config';
+import { RootState } from '../store/store';
+import { useSearch } from '../hooks/useSearch';
+import { useTimeZone } from '../hooks/useTimeZone';
+import { HighlightedText } from '../components/HighlightedText';
+import { formatDate, formatDateKey, formatTime } from '../utils/dateTime';
+
+type SearchScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+type SearchResult =
+  | { kind: 'event'; item: Event }
+  | { kind: 'goal'; item: Goal }
+  | { kind: 'calendar'; item: Calendar };
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const KINDS: { kind: SearchKind; label: string }[] = [
+  { kind: 'all', label: 'All' },
+  { kind: 'events', label: 'Events' },
+  { kind: 'goals', label: 'Goals' },
+  { kind: 'calendars', label: 'Calendars' },
+];
+const EVENT_STATUSES: Event['status'][] = ['confirmed', 'tentative', 'cancelled'];
+const GOAL_STATUSES: GoalStatus[] = ['active', 'completed', 'paused', 'cancelled'];
+const PRIORITIES: GoalPriority[] = ['low', 'medium', 'high', 'critical'];
+
+export const SearchScreen: React.FC = () => {
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const timeZone = useTimeZone();
+  const { calendars } = useSelector((state: RootState) => state.calendars);
+
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState<SearchKind>('all');
+  const [showFilters, setShowFilters] = useState(false);
+  const [dates, setDates] = useState({ startDate: '', endDate: '' });
+  const [choices, setChoices] = useState<Omit<SearchFilters, 'startDate' | 'endDate'>>({});
+
+  // Half-typed dates are ignored until they're complete
+  const filters = useMemo<SearchFilters>(() => ({
+    ...choices,
+    startDate: DATE_KEY.test(dates.startDate) ? dates.startDate : undefined,
+    endDate: DATE_KEY.test(dates.endDate) ? dates.endDate : undefined,
+  }), [choices, dates]);
+
+  const results = useSearch(query, filters);
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+  const sections = useMemo(() => {
+    const all: { title: string; data: SearchResult[] }[] = [
+      {
+        title: 'Events',
+        data: kind === 'all' || kind === 'events'
+          ? results.events.map(item => ({ kind: 'event' as const, item }))
+          : [],
+      },
+      {
+        title: 'Goals',
+        data: kind === 'all' || kind === 'goals'
+          ? results.goals.map(item => ({ kind: 'goal' as const, item }))
+          : [],
+      },
+      {
+        title: 'Calendars',
+        data: kind === 'all' || kind === 'calendars'
+          ? results.calendars.map(item => ({ kind: 'calendar' as const, item }))
+          : [],
+      },
+    ];
+    return all.filter(section => section.data.length > 0);
+  }, [kind, results.events, results.goals, results.calendars]);
+
+  const toggleChoice = <K extends keyof typeof choices>(field: K, value: (typeof choices)[K]) => {
+    setChoices(prev => ({ ...prev, [field]: prev[field] === value ? undefined : value }));
+  };
+
+  const handleResultPress = (result: SearchResult) => {
+    if (result.kind === 'event') {
+      navigation.navigate('EventDetail', { event: result.item });
+    } else if (result.kind === 'goal') {
+      navigation.navigate('GoalDetail', { goal: result.item });
+    } else {
+      navigation.navigate('CalendarForm', { calendar: result.item });
+    }
+  };
+
+  const describeEventTime = (event: Event): string =>
+    event.all_day
+      ? `${formatDateKey(event.start_time.slice(0, 10))} · All day`
+      : `${formatDate(event.start_time, timeZone)} · ${formatTime(event.start_time, timeZone)}`;
+
+  const renderResult = ({ item: result }: { item: SearchResult }) => {
+    if (result.kind === 'event') {
+      const event = result.item;
+      return (
+        <TouchableOpacity
+          style={[styles.resultCard, { borderLeftColor: event.calendar?.color || COLORS.PRIMARY }]}
+          onPress={() => handleResultPress(result)}
+        >
+          <HighlightedText style={styles.resultTitle} text={event.title} query={query} numberOfLines={1} />
+          <Text style={styles.resultMeta}>
+            {describeEventTime(event)}
+            {event.status !== 'confirmed' ? ` · ${event.status}` : ''}
+          </Text>
+          {event.location ? (
+            <HighlightedText style={styles.resultMeta} text={`📍 ${event.location}`} query={query} numberOfLines={1} />
+          ) : null}
+          {event.description ? (
+            <HighlightedText style={styles.resultBody} text={event.description} query={query} numberOfLines={2} />
+          ) : null}
+        </TouchableOpacity>
+      );
+    }
+
+    if (result.kind === 'goal') {
+      const goal = result.item;
+      return (
+        <TouchableOpacity
+          style={[styles.resultCard, { borderLeftColor: COLORS.PRIORITY[goal.priority] }]}
+          onPress={() => handleResultPress(result)}
+        >
+          <HighlightedText style={styles.resultTitle} text={goal.title} query={query} numberOfLines={1} />
+          <Text style={styles.resultMeta}>
+            {goal.status} · {goal.priority} priority · {goal.frequency}
+          </Text>
+          {goal.description ? (
+            <HighlightedText style={styles.resultBody} text={goal.description} query={query} numberOfLines={2} />
+          ) : null}
+        </TouchableOpacity>
+      );
+    }
+
+    const calendar = result.item;
+    return (
+      <TouchableOpacity
+        style={[styles.resultCard, { borderLeftColor: calendar.color }]}
+        onPress={() => handleResultPress(result)}
+      >
+        <HighlightedText style={styles.resultTitle} text={calendar.name} query={query} numberOfLines={1} />
+        {calendar.description ? (
+          <HighlightedText style={styles.resultBody} text={calendar.description} query={query} numberOfLines={2} />
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderChips = <T extends string>(
+    label: string,
+    options: T[],
+    selected: T | undefined,
+    onPress: (value: T) => void,
+    optionLabel: (value: T) => string = value => value,
+  ) => (
+    <View style={styles.filterGroup}>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, selected === option && styles.selectedChip]}
+            onPress={() => onPress(option)}
+          >
+            <Text style={[styles.chipText, selected === option && styles.selectedChipText]}>
+              {optionLabel(option)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <View style={styles.filterGroup}>
+        <Text style={styles.filterLabel}>Dates</Text>
+        <View style={styles.dateRow}>
+          <TextInput
+            style={[styles.dateInput, dates.startDate && !filters.startDate && styles.invalidInput]}
+            value={dates.startDate}
+            onChangeText={value => setDates(prev => ({ ...prev, startDate: value }))}
+            placeholder="From YYYY-MM-DD"
+            placeholderTextColor={COLORS.TEXT.DISABLED}
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={[styles.dateInput, dates.endDate && !filters.endDate && styles.invalidInput]}
+            value={dates.endDate}
+            onChangeText={value => setDates(prev => ({ ...prev, endDate: value }))}
+            placeholder="To YYYY-MM-DD"
+            placeholderTextColor={COLORS.TEXT.DISABLED}
+            autoCapitalize="none"
+          />
+        </View>
+      </View>
+
+      {(kind === 'all' || kind === 'events') && calendars.length > 0 && renderChips(
+        'Calendar',
+        calendars.map(calendar => calendar.id),
+        choices.calendarId,
+        value => toggleChoice('calendarId', value),
+        value => calendars.find(calendar => calendar.id === value)?.name || value
+      )}
+      {(kind === 'all' || kind === 'events') && renderChips(
+        'Event status',
+        EVENT_STATUSES,
+        choices.eventStatus,
+        value => toggleChoice('eventStatus', value)
+      )}
+      {(kind === 'all' || kind === 'goals') && renderChips(
+        'Goal status',
+        GOAL_STATUSES,
+        choices.goalStatus,
+        value => toggleChoice('goalStatus', value)
+      )}
+      {(kind === 'all' || kind === 'goals') && renderChips(
+        'Priority',
+        PRIORITIES,
+        choices.priority,
+        value => toggleChoice('priority', value)
+      )}
+
+      {activeFilterCount > 0 && (
+        <TouchableOpacity
+          onPress={() => {
+            setChoices({});
+            setDates({ startDate: '', endDate: '' });
+          }}
+        >
+          <Text style={styles.clearFilters}>Clear filters</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search events, goals and calendars"
+          placeholderTextColor={COLORS.TEXT.DISABLED}
+          autoFocus
+          autoCapitalize="none"
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {results.isSearching && <ActivityIndicator size="small" color={COLORS.PRIMARY} />}
+      </View>
+
+      <View style={styles.toolbar}>
+        <View style={styles.kinds}>
+          {KINDS.map(option => (
+            <TouchableOpacity
+              key={option.kind}
+              style={[styles.kindOption, kind === option.kind && styles.activeKindOption]}
+              onPress={() => setKind(option.kind)}
+            >
+              <Text style={[styles.kindText, kind === option.kind && styles.activeKindText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.filterToggle} onPress={() => setShowFilters(!showFilters)}>
+          <Text style={styles.filterToggleText}>
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && renderFilters()}
+      {results.remoteError && <Text style={styles.notice}>{results.remoteError}</Text>}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={result => `${result.kind}:${result.item.id}`}
+        renderItem={renderResult}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title} ({section.data.length})</Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🔍</Text>
+            <Text style={styles.emptyText}>
+              {query.trim() ? `Nothing matches "${query.trim()}"` : 'Type to search'}
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 16,
+    paddingBottom: 8,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+  },
+  kinds: {
+    flex: 1,
+    flexDirection: 'row',
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 4,
+  },
+  kindOption: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  activeKindOption: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  kindText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '500',
+    color: COLORS.TEXT.SECONDARY,
+  },
+  activeKindText: {
+    color: 'white',
+  },
+  filterToggle: {
+    marginLeft: 12,
+  },
+  filterToggleText: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.PRIMARY,
+  },
+  filters: {
+    padding: 16,
+    paddingTop: 0,
+    backgroundColor: COLORS.BACKGROUND.PRIMARY,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  filterGroup: {
+    marginBottom: 12,
+  },
+  filterLabel: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    marginBottom: 6,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: COLORS.BACKGROUND.SECONDARY,
+    borderRadius: 8,
+    padding: 8,
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.PRIMARY,
+  },
+  invalidInput: {
+    borderColor: COLORS.ERROR,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: COLORS.BACKGROUND.SECONDARY,
+  },
+  selectedChip: {
+    backgroundColor: COLORS.PRIMARY,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  clearFilters: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.ERROR,
+  },
+  notice: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    textAlign: 'center',
+    paddingTop: 8,
+  },
+  list: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.SMALL,
+    fontWeight: '600',
+    color: COLORS.TEXT.SECONDARY,
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  resultCard: {
+    backgroundColor: COLORS.BACKGROUND.CARD,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+  },
+  resultTitle: {
+    fontSize: FONT_SIZES.MEDIUM,
+    fontWeight: '600',
+    color: COLORS.TEXT.PRIMARY,
+  },
+  resultMeta: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 4,
+  },
+  resultBody: {
+    fontSize: FONT_SIZES.SMALL,
+    color: COLORS.TEXT.SECONDARY,
+    marginTop: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.MEDIUM,
+    color: COLORS.TEXT.SECONDARY,
+  },
+});
@@ -3,13 +3,20 @@ import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
 import { API_CONFIG } from '../constants/config';
 import storageService from './storage';
 import { logger } from '../utils/logger';
+import { ApiValidationError, parseFieldErrors } from '../utils/validation';
+import { ListResponse, collectPages, toPage } from '../utils/pagination';
 import { 
   User, 
   Goal, 
+  Responsibility,
   Calendar, 
   Event, 
+  EventWriteData,
+  SearchFilters,
+  PaginatedResponse,
   LoginRequest, 
   LoginResponse, 
+  RegisterRequest,
   ApiResponse 
 } from '../types';
 
@@ -136,6 +143,16 @@ class ApiService {
     return response.data;
   }
 
+  // List endpoints - follows `next` until every page is in; onPage sees each page as it lands
+  private async getList<T>(url: string, onPage?: (items: T[]) => void): Promise<T[]> {
+    return await collectPages(pageUrl => this.get<ListResponse<T>>(pageUrl), url, onPage);
+  }
+
+  // One page of a list - pass a previous page's `next` to continue
+  async getPage<T>(url: string): Promise<PaginatedResponse<T>> {
+    return toPage(await this.get<ListResponse<T>>(url));
+  }
+
   private async post<T, U>(url: string, data?: U): Promise<T> {
     const response: AxiosResponse<T> = await this.client.post(url, data);
     return response.data;
@@ -203,6 +220,30 @@ class ApiService {
     }
   }
 
+  // Creates the account only - callers sign in afterwards with login()
+  async register(data: RegisterRequest): Promise<User> {
+    console.log('📝 Registering account:', data.email);
+
+    try {
+      const response = await this.post<User | { user: User }, RegisterRequest>(
+        API_CONFIG.ENDPOINTS.AUTH.REGISTER,
+        data
+      );
+      console.log('✅ Registration successful:', data.email);
+      return 'user' in response ? response.user : response;
+    } catch (error: any) {
+      console.error('❌ Registration failed:', error.response?.data || error.message);
+      if (error.response?.status === 400) {
+        const fieldErrors = parseFieldErrors(error.response.data, { password2: 'password_confirm' });
+        throw new ApiValidationError(
+          fieldErrors.general || 'Please fix the highlighted fields',
+          fieldErrors
+        );
+      }
+      throw new Error(error.response?.data?.detail || error.message || 'Registration failed');
+    }
+  }
+
   async logout(): Promise<void> {
     console.log('🚪 Starting logout API call...');
     console.log('🔗 Logout URL:', `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AUTH.LOGOUT}`);
@@ -241,9 +282,9 @@ class ApiService {
   }
 
   // Goals methods
-  async getGoals(): Promise<Goal[]> {
+  async getGoals(onPage?: (goals: Goal[]) => void): Promise<Goal[]> {
     console.log('📋 Fetching goals from API');
-    return await this.get<Goal[]>(API_CONFIG.ENDPOINTS.GOALS);
+    return await this.getList<Goal>(API_CONFIG.ENDPOINTS.GOALS, onPage);
   }
 
   async createGoal(goalData: Partial<Goal>): Promise<Goal> {
@@ -273,10 +314,34 @@ class ApiService {
     });
   }
 
+  // Responsibilities methods
+  async getResponsibilities(): Promise<Responsibility[]> {
+    logger.debug('Fetching responsibilities');
+    return await this.getList<Responsibility>(API_CONFIG.ENDPOINTS.RESPONSIBILITIES);
+  }
+
+  async createResponsibility(data: Partial<Responsibility>): Promise<Responsibility> {
+    logger.debug('Creating responsibility:', data.title);
+    return await this.post<Responsibility, Partial<Responsibility>>(API_CONFIG.ENDPOINTS.RESPONSIBILITIES, data);
+  }
+
+  async updateResponsibility(responsibilityId: string, updates: Partial<Responsibility>): Promise<Responsibility> {
+    logger.debug('Updating responsibility:', responsibilityId);
+    return await this.patch<Responsibility, Partial<Responsibility>>(
+      `${API_CONFIG.ENDPOINTS.RESPONSIBILITIES}${responsibilityId}/`,
+      updates
+    );
+  }
+
+  async deleteResponsibility(responsibilityId: string): Promise<void> {
+    logger.debug('Deleting responsibility:', responsibilityId);
+    await this.delete(`${API_CONFIG.ENDPOINTS.RESPONSIBILITIES}${responsibilityId}/`);
+  }
+
   // Calendar methods
   async getCalendars(): Promise<Calendar[]> {
     logger.debug('Fetching calendars');
-    return await this.get<Calendar[]>(API_CONFIG.ENDPOINTS.CALENDARS);
+    return await this.getList<Calendar>(API_CONFIG.ENDPOINTS.CALENDARS);
   }
 
   async createCalendar(calendar: Partial<Calendar>): Promise<Calendar> {
@@ -311,15 +376,43 @@ class ApiService {
     }
 
     console.log('📅 Fetching events from:', url);
-    return await this.get<Event[]>(url);
+    return await this.getList<Event>(url);
+  }
+
+  async getEvent(eventId: string): Promise<Event> {
+    return await this.get<Event>(`${API_CONFIG.ENDPOINTS.EVENTS}${eventId}/`);
   }
 
-  async createEvent(event: Partial<Event>): Promise<Event> {
-    return await this.post<Event, Partial<Event>>(API_CONFIG.ENDPOINTS.EVENTS, event);
+  // First page of the events from a day onwards, in start order - follow `next` with getPage
+  async getEventsPage(startDate: string): Promise<PaginatedResponse<Event>> {
+    return await this.getPage<Event>(`${API_CONFIG.ENDPOINTS.EVENTS}?start_date=${startDate}`);
   }
 
-  async updateEvent(eventId: string, updates: Partial<Event>): Promise<Event> {
-    return await this.patch<Event, Partial<Event>>(
+  // Every repeating event, however long ago its series began - a month's range query misses
+  // series that started before the month
+  async getRecurringEvents(): Promise<Event[]> {
+    const events = await this.getList<Event>(`${API_CONFIG.ENDPOINTS.EVENTS}?recurring=true`);
+    return events.filter(event => !!event.recurrence_rule);
+  }
+
+  // Full-text search on the server - finds events outside the ranges cached on the device
+  async searchEvents(query: string, filters: SearchFilters = {}): Promise<Event[]> {
+    const params = new URLSearchParams();
+    params.append('search', query);
+    if (filters.startDate) params.append('start_date', filters.startDate);
+    if (filters.endDate) params.append('end_date', filters.endDate);
+    if (filters.calendarId) params.append('calendar_id', filters.calendarId);
+    if (filters.eventStatus) params.append('status', filters.eventStatus);
+
+    return await this.getList<Event>(`${API_CONFIG.ENDPOINTS.EVENTS}?${params.toString()}`);
+  }
+
+  async createEvent(event: EventWriteData): Promise<Event> {
+    return await this.post<Event, EventWriteData>(API_CONFIG.ENDPOINTS.EVENTS, event);
+  }
+
+  async updateEvent(eventId: string, updates: EventWriteData): Promise<Event> {
+    return await this.patch<Event, EventWriteData>(
       `${API_CONFIG.ENDPOINTS.EVENTS}${eventId}/`,
       updates
     );
@@ -342,6 +435,11 @@ class ApiService {
   }
 }
 
+// True when the request never reached the server (offline, DNS, timeout) -
+// as opposed to the server answering with an error status
+export const isNetworkError = (error: any): boolean =>
+  !!error?.isAxiosError && !error.response;
+
 // Export singleton instance
 export const apiService = new ApiService();
 export default apiService;
\ No newline at end of file
@@ -0,0 +1,127 @@
+// Goal History Service - Records goal changes made on this device for the goal timeline
+// History is stored per account, so logging out and back in keeps it.
+import storageService from './storage';
+import { logger } from '../utils/logger';
+import { checkInEntry, diffGoal, rolloverEntry, trimGoalHistory } from '../utils/goalHistory';
+import { Goal, GoalHistoryEntry, GoalPeriodOutcome } from '../types';
+
+// Oldest entries go first once a goal has this many (rollovers are always kept)
+const MAX_ENTRIES_PER_GOAL = 200;
+
+type GoalHistoryListener = (entries: GoalHistoryEntry[]) => void;
+
+class GoalHistoryService {
+  private userId: number | null = null;
+  private entries: GoalHistoryEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<GoalHistoryListener>();
+
+  // Switch to the signed-in account's history (null once logged out)
+  setUser(userId: number | null): void {
+    if (userId === this.userId) return;
+
+    this.userId = userId;
+    this.entries = [];
+    this.loaded = null;
+    this.listeners.forEach(listener => listener([]));
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      const userId = this.userId;
+      this.loaded = userId === null
+        ? Promise.resolve()
+        : storageService.getGoalHistory(userId).then(entries => {
+          // The account may have changed while this was reading
+          if (this.userId === userId) this.entries = entries;
+        });
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: GoalHistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async getAll(): Promise<GoalHistoryEntry[]> {
+    await this.load();
+    return [...this.entries];
+  }
+
+  // Newest first
+  async getForGoal(goalId: string): Promise<GoalHistoryEntry[]> {
+    await this.load();
+    return this.entries
+      .filter(entry => entry.goalId === goalId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  async recordChange(before: Goal | undefined, after: Partial<Goal> & { id: string }): Promise<void> {
+    await this.append(after.id, diffGoal(before, after));
+  }
+
+  async recordCheckIn(goal: Goal, amount: number, note?: string): Promise<void> {
+    await this.append(goal.id, [checkInEntry(goal, amount, note)]);
+  }
+
+  /**
+   * Archive how a period turned out before the goal is reset for the next one.
+   * Resolves false when that period was already rolled over (another screen got there first).
+   */
+  async recordRollover(goal: Goal, period: string, outcome: GoalPeriodOutcome): Promise<boolean> {
+    await this.load();
+    const done = this.entries.some(entry =>
+      entry.goalId === goal.id && entry.type === 'rollover' && entry.period === period
+    );
+    if (done) return false;
+
+    // No await between the check and the write, so two callers can't both claim it
+    this.add(goal.id, [rolloverEntry(goal, period, outcome)]);
+    await this.persist();
+    return true;
+  }
+
+  // A goal created offline got its real id
+  async replaceGoalId(tempId: string, goalId: string): Promise<void> {
+    await this.load();
+    this.entries = this.entries.map(entry => (entry.goalId === tempId ? { ...entry, goalId } : entry));
+    await this.persist();
+  }
+
+  async removeGoal(goalId: string): Promise<void> {
+    await this.load();
+    this.entries = this.entries.filter(entry => entry.goalId !== goalId);
+    await this.persist();
+  }
+
+  private async append(goalId: string, added: GoalHistoryEntry[]) {
+    if (added.length === 0) return;
+
+    await this.load();
+    this.add(goalId, added);
+    await this.persist();
+  }
+
+  private add(goalId: string, added: GoalHistoryEntry[]) {
+    this.entries = trimGoalHistory([...this.entries, ...added], goalId, MAX_ENTRIES_PER_GOAL);
+  }
+
+  private async persist() {
+    if (this.userId !== null) {
+      try {
+        await storageService.saveGoalHistory(this.userId, this.entries);
+      } catch (error) {
+        logger.error('Failed to persist goal history:', error);
+      }
+    }
+    const entries = [...this.entries];
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+// Export singleton instance
+export const goalHistoryService = new GoalHistoryService();
+export default goalHistoryService;
@@ -0,0 +1,386 @@
+// Outbox Service - Keeps writes made while offline and replays them in order
+import { AppState, AppStateStatus } from 'react-native';
+import apiService, { isNetworkError } from './api';
+import storageService from './storage';
+import { logger } from '../utils/logger';
+import { OutboxItem, OutboxMutationType } from '../types';
+
+// What callers hand to submit() - the outbox fills in the bookkeeping fields
+export interface OutboxMutation {
+  type: OutboxMutationType;
+  entityId?: string;
+  payload?: Record<string, any>;
+}
+
+export type SubmitResult<T> =
+  | { queued: false; result: T }
+  | { queued: true; item: OutboxItem };
+
+export type OutboxEvent =
+  | { kind: 'synced'; item: OutboxItem; result: any }
+  | { kind: 'failed'; item: OutboxItem }
+  | { kind: 'discarded'; item: OutboxItem }
+  | { kind: 'changed'; items: OutboxItem[] };
+
+type OutboxListener = (event: OutboxEvent) => void;
+
+// What a mutation type is about - 'updateGoal' -> 'Goal'
+export type OutboxEntity = 'Event' | 'Calendar' | 'Goal' | 'Responsibility';
+
+const TEMP_ID_PREFIX = 'tmp_';
+
+// Retry delays while the server is unreachable: 15s, 30s, 1m ... capped at 5m
+const BASE_RETRY_MS = 15 * 1000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+// The request may succeed if we simply try again later
+const isTransientError = (error: any): boolean => {
+  if (isNetworkError(error)) return true;
+  const status = error?.response?.status;
+  // 401 means the session ran out - keep the write until the user signs in again
+  return status === 401 || status === 408 || status === 429 || status >= 500;
+};
+
+const describeError = (error: any): string => {
+  const data = error?.response?.data;
+  if (data?.detail) return data.detail;
+  if (data && typeof data === 'object') {
+    const [field, messages] = Object.entries(data)[0] || [];
+    if (field) return `${field}: ${Array.isArray(messages) ? messages[0] : messages}`;
+  }
+  return error?.message || 'Request failed';
+};
+
+class OutboxService {
+  private items: OutboxItem[] = [];
+  private loaded: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = BASE_RETRY_MS;
+  private inFlightId: string | null = null;
+
+  // Read the persisted queue once per app launch
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = storageService.getOutbox().then(items => {
+        this.items = items;
+        logger.debug(`Outbox loaded with ${items.length} items`);
+        this.emit({ kind: 'changed', items: this.getItems() });
+      });
+    }
+    return this.loaded;
+  }
+
+  // Begin replaying: now, whenever the app comes back to the foreground, and on a backoff timer
+  start(): () => void {
+    this.load().then(() => this.flush());
+
+    const subscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.flush();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      this.clearRetryTimer();
+    };
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItems(): OutboxItem[] {
+    return [...this.items];
+  }
+
+  hasPending(): boolean {
+    return this.items.some(item => item.status === 'pending');
+  }
+
+  isTempId(id?: string | null): boolean {
+    return typeof id === 'string' && id.startsWith(TEMP_ID_PREFIX);
+  }
+
+  // Ids of existing entities with an update or delete still waiting (or failed) in the queue
+  pendingWrites(entity: OutboxEntity): { updated: Set<string>; deleted: Set<string> } {
+    const updated = new Set<string>();
+    const deleted = new Set<string>();
+    this.items.forEach(item => {
+      if (!item.entityId || !item.type.endsWith(entity)) return;
+      if (item.type.startsWith('delete')) deleted.add(item.entityId);
+      else if (item.type.startsWith('update')) updated.add(item.entityId);
+    });
+    return { updated, deleted };
+  }
+
+  /**
+   * A freshly fetched list merged with what the store shows. Until the queue replays them,
+   * offline edits keep their optimistic copy, offline deletes stay gone and offline creates stay.
+   */
+  mergeFetched<T extends { id: string }>(entity: OutboxEntity, fetched: T[], cached: T[]): T[] {
+    const { updated, deleted } = this.pendingWrites(entity);
+    const cachedById = new Map(cached.map(existing => [existing.id, existing]));
+    return [
+      ...fetched
+        .filter(item => !deleted.has(item.id))
+        .map(item => (updated.has(item.id) && cachedById.get(item.id)) || item),
+      ...cached.filter(existing => this.isTempId(existing.id)),
+    ];
+  }
+
+  /**
+   * Send a write straight away when possible, otherwise queue it.
+   * Anything queued behind earlier writes also waits, so the server sees them in order.
+   * Errors the server actually answered with (validation etc.) are rethrown as before.
+   */
+  async submit<T>(mutation: OutboxMutation, send: () => Promise<T>): Promise<SubmitResult<T>> {
+    await this.load();
+
+    const mustWait = this.hasPending() || this.isTempId(mutation.entityId) ||
+      this.isTempId(mutation.payload?.calendar);
+    if (!mustWait) {
+      try {
+        return { queued: false, result: await send() };
+      } catch (error: any) {
+        if (!isNetworkError(error)) throw error;
+        logger.warn(`Offline - queueing ${mutation.type}`);
+      }
+    }
+
+    const item = await this.enqueue(mutation);
+    return { queued: true, item };
+  }
+
+  async enqueue(mutation: OutboxMutation): Promise<OutboxItem> {
+    await this.load();
+
+    const now = Date.now();
+    const random = Math.random().toString(36).slice(2, 8);
+    const isCreate = mutation.type.startsWith('create');
+
+    const item: OutboxItem = {
+      id: `${now}_${random}`,
+      type: mutation.type,
+      entityId: mutation.entityId,
+      tempId: isCreate ? `${TEMP_ID_PREFIX}${now}_${random}` : undefined,
+      payload: mutation.payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(now).toISOString(),
+    };
+
+    // Deleting something that never reached the server just cancels its queued writes
+    const queuedCreate = this.items.find(existing => existing.tempId === mutation.entityId);
+    if (mutation.type.startsWith('delete') && queuedCreate && queuedCreate.id !== this.inFlightId) {
+      this.items = this.items.filter(existing =>
+        existing.tempId !== mutation.entityId && existing.entityId !== mutation.entityId
+      );
+      await this.persist();
+      return item;
+    }
+
+    this.items.push(item);
+    await this.persist();
+    this.scheduleRetry(0);
+    return item;
+  }
+
+  // Replay pending items oldest first, stopping at the first one that can't get through yet
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  async retry(itemId: string): Promise<void> {
+    this.items = this.items.map(item =>
+      item.id === itemId ? { ...item, status: 'pending', lastError: undefined } : item
+    );
+    await this.persist();
+    await this.flush();
+  }
+
+  async retryAll(): Promise<void> {
+    this.items = this.items.map(item => ({ ...item, status: 'pending', lastError: undefined }));
+    await this.persist();
+    await this.flush();
+  }
+
+  // Drop an item for good - listeners undo its optimistic change
+  async discard(itemId: string): Promise<void> {
+    const item = this.items.find(existing => existing.id === itemId);
+    if (!item) return;
+
+    // Later writes against something that was never created can't succeed either
+    const dropped = item.tempId
+      ? this.items.filter(existing => existing.id === itemId || this.references(existing, item.tempId!))
+      : [item];
+    const droppedIds = new Set(dropped.map(existing => existing.id));
+
+    this.items = this.items.filter(existing => !droppedIds.has(existing.id));
+    await this.persist();
+    dropped.forEach(existing => this.emit({ kind: 'discarded', item: existing }));
+  }
+
+  // Forget everything (logout)
+  async clear(): Promise<void> {
+    this.clearRetryTimer();
+    this.items = [];
+    await this.persist();
+  }
+
+  private async replay(): Promise<void> {
+    await this.load();
+    this.clearRetryTimer();
+
+    const attempted = new Set<string>();
+
+    // Look the next item up each pass - earlier creates rewrite ids and new writes may arrive meanwhile
+    for (;;) {
+      const item = this.items.find(candidate =>
+        candidate.status === 'pending' &&
+        !attempted.has(candidate.id) &&
+        // Depends on a create that failed - can't go before it does
+        !this.items.some(other =>
+          other.status === 'failed' && !!other.tempId && this.references(candidate, other.tempId)
+        )
+      );
+      if (!item) return;
+      attempted.add(item.id);
+
+      try {
+        logger.info(`Outbox replaying ${item.type}`, item.entityId);
+        this.inFlightId = item.id;
+        const result = await this.send(item);
+        this.items = this.items.filter(existing => existing.id !== item.id);
+        if (item.tempId && result?.id) {
+          this.replaceTempId(item.tempId, String(result.id));
+        }
+        await this.persist();
+        this.retryDelay = BASE_RETRY_MS;
+        this.emit({ kind: 'synced', item, result });
+      } catch (error: any) {
+        const attempts = item.attempts + 1;
+
+        if (isTransientError(error)) {
+          logger.warn(`Outbox paused, will retry: ${describeError(error)}`);
+          this.updateItem(item.id, { attempts, lastError: describeError(error) });
+          await this.persist();
+          this.scheduleRetry(this.retryDelay);
+          this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+          return;
+        }
+
+        logger.error(`Outbox item failed: ${item.type}`, error);
+        const failed = this.updateItem(item.id, { attempts, status: 'failed', lastError: describeError(error) });
+        await this.persist();
+        if (failed) this.emit({ kind: 'failed', item: failed });
+      } finally {
+        this.inFlightId = null;
+      }
+    }
+  }
+
+  private send(item: OutboxItem): Promise<any> {
+    const payload = item.payload || {};
+    const entityId = item.entityId!;
+
+    switch (item.type) {
+      case 'createEvent':
+        return apiService.createEvent(payload);
+      case 'updateEvent':
+        return apiService.updateEvent(entityId, payload);
+      case 'deleteEvent':
+        return apiService.deleteEvent(entityId);
+      case 'createCalendar':
+        return apiService.createCalendar(payload);
+      case 'updateCalendar':
+        return apiService.updateCalendar(entityId, payload);
+      case 'deleteCalendar':
+        return apiService.deleteCalendar(entityId);
+      case 'createGoal':
+        return apiService.createGoal(payload);
+      case 'updateGoal':
+        return apiService.updateGoal(entityId, payload);
+      case 'deleteGoal':
+        return apiService.deleteGoal(entityId);
+      case 'createResponsibility':
+        return apiService.createResponsibility(payload);
+      case 'updateResponsibility':
+        return apiService.updateResponsibility(entityId, payload);
+      case 'deleteResponsibility':
+        return apiService.deleteResponsibility(entityId);
+    }
+  }
+
+  private references(item: OutboxItem, tempId: string): boolean {
+    return item.entityId === tempId ||
+      Object.values(item.payload || {}).some(value => value === tempId);
+  }
+
+  // Point queued writes at the id the server gave a freshly created entity
+  private replaceTempId(tempId: string, serverId: string) {
+    this.items = this.items.map(item => {
+      if (!this.references(item, tempId)) return item;
+      const payload = item.payload && Object.fromEntries(
+        Object.entries(item.payload).map(([key, value]) => [key, value === tempId ? serverId : value])
+      );
+      return {
+        ...item,
+        entityId: item.entityId === tempId ? serverId : item.entityId,
+        payload,
+      };
+    });
+  }
+
+  private updateItem(itemId: string, changes: Partial<OutboxItem>): OutboxItem | undefined {
+    let updated: OutboxItem | undefined;
+    this.items = this.items.map(item => {
+      if (item.id !== itemId) return item;
+      updated = { ...item, ...changes };
+      return updated;
+    });
+    return updated;
+  }
+
+  private scheduleRetry(delay: number) {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async persist() {
+    try {
+      await storageService.saveOutbox(this.items);
+    } catch (error) {
+      logger.error('Failed to persist outbox:', error);
+    }
+    this.emit({ kind: 'changed', items: this.getItems() });
+  }
+
+  private emit(event: OutboxEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
+export default outboxService;
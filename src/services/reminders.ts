@@ -0,0 +1,164 @@
+// Reminder Service - Keeps the notifier's queue in step with the events in the store
+import { Alert } from 'react-native';
+import { Event, ReminderSettings, ScheduledReminder } from '../types';
+import { computeReminders, DEFAULT_REMINDER_SETTINGS } from '../utils/reminders';
+import { logger } from '../utils/logger';
+import { resolveTimeZone } from '../utils/dateTime';
+
+// Time source - swapped for a fake in tests
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+// Whatever actually alerts the user - in-app alerts today, native notifications later
+export interface Notifier {
+  schedule(reminder: ScheduledReminder): void;  // replaces any reminder with the same key
+  cancel(key: string): void;
+}
+
+type ReminderListener = (scheduled: ScheduledReminder[]) => void;
+
+// Only reminders this close are handed to the notifier; the rest are picked up on a later pass
+const HORIZON_MS = 24 * 60 * 60 * 1000;
+const RESYNC_MS = 60 * 60 * 1000;
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Shows an alert while the app is open - JS timers don't run in the background
+export class InAppNotifier implements Notifier {
+  private timers = new Map<string, unknown>();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  schedule(reminder: ScheduledReminder) {
+    this.cancel(reminder.key);
+    const delay = Math.max(0, new Date(reminder.fireAt).getTime() - this.clock.now());
+    this.timers.set(reminder.key, this.clock.setTimeout(() => {
+      this.timers.delete(reminder.key);
+      Alert.alert(`⏰ ${reminder.title}`, reminder.body);
+    }, delay));
+  }
+
+  cancel(key: string) {
+    const timer = this.timers.get(key);
+    if (timer !== undefined) {
+      this.clock.clearTimeout(timer);
+      this.timers.delete(key);
+    }
+  }
+}
+
+export class ReminderScheduler {
+  private events: Event[] = [];
+  private settings: ReminderSettings = DEFAULT_REMINDER_SETTINGS;
+  private scheduled = new Map<string, ScheduledReminder>();
+  private listeners = new Set<ReminderListener>();
+  private resyncTimer: unknown = null;
+  private timeZone = resolveTimeZone();
+
+  constructor(private notifier: Notifier, private clock: Clock = systemClock) {}
+
+  // Call whenever the events change - only the differences reach the notifier
+  sync(events: Event[]) {
+    this.events = events;
+    this.reschedule();
+  }
+
+  setSettings(settings: ReminderSettings) {
+    this.settings = settings;
+    this.reschedule();
+  }
+
+  // Zone the reminder text gives times in
+  setTimeZone(timeZone: string) {
+    if (timeZone === this.timeZone) return;
+    this.timeZone = timeZone;
+    this.reschedule();
+  }
+
+  getSettings(): ReminderSettings {
+    return this.settings;
+  }
+
+  // Still to fire, soonest first
+  getScheduled(): ScheduledReminder[] {
+    const now = this.clock.now();
+    return [...this.scheduled.values()]
+      .filter(reminder => new Date(reminder.fireAt).getTime() > now)
+      .sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+  }
+
+  subscribe(listener: ReminderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Cancel everything (logout)
+  clear() {
+    this.scheduled.forEach((_, key) => this.notifier.cancel(key));
+    this.scheduled.clear();
+    this.events = [];
+    this.clearResyncTimer();
+    this.emit();
+  }
+
+  private reschedule() {
+    const now = this.clock.now();
+    const wanted = this.settings.enabled ? computeReminders(this.events, now, HORIZON_MS, this.timeZone) : [];
+    const wantedByKey = new Map(wanted.map(reminder => [reminder.key, reminder]));
+
+    // Drop reminders for deleted events, removed offsets and moved start times
+    this.scheduled.forEach((reminder, key) => {
+      const next = wantedByKey.get(key);
+      if (!next || next.fireAt !== reminder.fireAt) {
+        this.notifier.cancel(key);
+        this.scheduled.delete(key);
+      }
+    });
+
+    let changed = 0;
+    wanted.forEach(reminder => {
+      const current = this.scheduled.get(reminder.key);
+      if (current && current.title === reminder.title && current.body === reminder.body) return;
+      this.notifier.schedule(reminder);
+      this.scheduled.set(reminder.key, reminder);
+      changed++;
+    });
+    if (changed > 0) logger.debug(`Scheduled ${changed} reminders`);
+
+    // Reminders further out come into the horizon as time passes
+    this.clearResyncTimer();
+    if (this.events.length > 0) {
+      this.resyncTimer = this.clock.setTimeout(() => {
+        this.resyncTimer = null;
+        this.reschedule();
+      }, RESYNC_MS);
+    }
+
+    this.emit();
+  }
+
+  private clearResyncTimer() {
+    if (this.resyncTimer !== null) {
+      this.clock.clearTimeout(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+
+  private emit() {
+    const scheduled = this.getScheduled();
+    this.listeners.forEach(listener => listener(scheduled));
+  }
+}
+
+// Export singleton instance
+export const reminderScheduler = new ReminderScheduler(new InAppNotifier());
+export default reminderScheduler;
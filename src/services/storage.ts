@@ -1,7 +1,7 @@
 // Storage service - Like SharedPreferences but actually works!
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { STORAGE_KEYS } from '../constants/config';
-import { User, AuthTokens } from '../types';
+import { User, AuthTokens, CalendarViewMode, OutboxItem, ReminderSettings, GoalHistoryEntry } from '../types';
 import { logger } from '../utils/logger';
 
 class StorageService {
@@ -100,6 +100,65 @@ class StorageService {
     await this.removeItem(STORAGE_KEYS.USER_DATA);
   }
 
+  // Calendar preferences
+  async saveCalendarViewMode(mode: CalendarViewMode): Promise<void> {
+    await this.saveItem(STORAGE_KEYS.CALENDAR_VIEW_MODE, mode);
+  }
+
+  async getCalendarViewMode(): Promise<CalendarViewMode | null> {
+    try {
+      return (await AsyncStorage.getItem(STORAGE_KEYS.CALENDAR_VIEW_MODE)) as CalendarViewMode | null;
+    } catch (error) {
+      logger.error('Error retrieving calendar view mode:', error);
+      return null;
+    }
+  }
+
+  // Offline outbox
+  async saveOutbox(items: OutboxItem[]): Promise<void> {
+    await this.saveItem(STORAGE_KEYS.OUTBOX, JSON.stringify(items));
+  }
+
+  async getOutbox(): Promise<OutboxItem[]> {
+    try {
+      const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.OUTBOX);
+      return jsonValue ? JSON.parse(jsonValue) : [];
+    } catch (error) {
+      logger.error('Error retrieving outbox:', error);
+      return [];
+    }
+  }
+
+  // Reminder preferences
+  async saveReminderSettings(settings: ReminderSettings): Promise<void> {
+    await this.saveItem(STORAGE_KEYS.REMINDER_SETTINGS, JSON.stringify(settings));
+  }
+
+  async getReminderSettings(): Promise<ReminderSettings | null> {
+    try {
+      const jsonValue = await AsyncStorage.getItem(STORAGE_KEYS.REMINDER_SETTINGS);
+      return jsonValue ? JSON.parse(jsonValue) : null;
+    } catch (error) {
+      logger.error('Error retrieving reminder settings:', error);
+      return null;
+    }
+  }
+
+  // Goal progress timeline - one per account, kept across logins
+  async saveGoalHistory(userId: number, entries: GoalHistoryEntry[]): Promise<void> {
+    await this.saveItem(`${STORAGE_KEYS.GOAL_HISTORY}/${userId}`, JSON.stringify(entries));
+  }
+
+  async getGoalHistory(userId: number): Promise<GoalHistoryEntry[]> {
+    try {
+      const jsonValue = await AsyncStorage.getItem(`${STORAGE_KEYS.GOAL_HISTORY}/${userId}`);
+      return jsonValue ? JSON.parse(jsonValue) : [];
+    } catch (error) {
+      logger.error('Error retrieving goal history:', error);
+      return [];
+    }
+  }
+
   // Clear all data (logout)
   async clearAll(): Promise<void> {
     logger.info('Clearing all stored data');
@@ -0,0 +1,45 @@
+// Goal rollover - starts recurring goals afresh when their day, week, month or year ends
+import { AppState } from 'react-native';
+import { Store } from '@reduxjs/toolkit';
+import { RootState, AppDispatch } from './store';
+import { rollOverGoals } from './slices/goalsSlice';
+import { addDays, parseDateKey, resolveTimeZone, todayKey } from '../utils/dateTime';
+
+// Checks after every goals fetch, at each midnight in the user's zone and when the app comes back
+export const startGoalRollover = (store: Store<RootState>): (() => void) => {
+  const dispatch = store.dispatch as AppDispatch;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastFetchedAt = store.getState().goals.lastFetchedAt;
+
+  const check = () => {
+    dispatch(rollOverGoals());
+    scheduleMidnight();
+  };
+
+  const scheduleMidnight = () => {
+    if (timer) clearTimeout(timer);
+    const timeZone = resolveTimeZone(store.getState().auth.user?.timezone);
+    const nextDay = parseDateKey(addDays(todayKey(timeZone), 1), timeZone).getTime();
+    timer = setTimeout(check, Math.max(0, nextDay - Date.now()) + 1000);
+  };
+
+  check();
+
+  const unsubscribe = store.subscribe(() => {
+    const fetchedAt = store.getState().goals.lastFetchedAt;
+    if (fetchedAt !== lastFetchedAt) {
+      lastFetchedAt = fetchedAt;
+      if (fetchedAt !== null) dispatch(rollOverGoals());
+    }
+  });
+
+  const subscription = AppState.addEventListener('change', status => {
+    if (status === 'active') check();
+  });
+
+  return () => {
+    unsubscribe();
+    subscription.remove();
+    if (timer) clearTimeout(timer);
+  };
+};
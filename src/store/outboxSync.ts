@@ -0,0 +1,68 @@
+// Outbox sync - mirrors replayed and discarded offline writes into the store
+import outboxService, { OutboxEvent } from '../services/outbox';
+import { AppDispatch } from './store';
+import { eventSynced, eventRemoved, fetchEvent } from './slices/eventsSlice';
+import { calendarSynced, calendarRemoved, fetchCalendars } from './slices/calendarsSlice';
+import { goalSynced, goalRemoved, fetchGoals } from './slices/goalsSlice';
+import {
+  responsibilitySynced,
+  responsibilityRemoved,
+  fetchResponsibilities,
+} from './slices/responsibilitiesSlice';
+import goalHistoryService from '../services/goalHistory';
+
+export const applyOutboxEvent = (outboxEvent: OutboxEvent) => (dispatch: AppDispatch) => {
+  if (outboxEvent.kind === 'synced') {
+    const { item, result } = outboxEvent;
+
+    // The server has let go of it too - make sure no refetch in the meantime brought it back
+    if (item.type === 'deleteEvent') {
+      dispatch(eventRemoved(item.entityId!));
+    } else if (item.type === 'deleteCalendar') {
+      dispatch(calendarRemoved(item.entityId!));
+    } else if (item.type === 'deleteGoal') {
+      dispatch(goalRemoved(item.entityId!));
+    } else if (item.type === 'deleteResponsibility') {
+      dispatch(responsibilityRemoved(item.entityId!));
+    }
+    if (!result) return;  // deletes have nothing to merge
+
+    if (item.type === 'createEvent' || item.type === 'updateEvent') {
+      dispatch(eventSynced({ tempId: item.tempId, event: result }));
+    } else if (item.type === 'createCalendar' || item.type === 'updateCalendar') {
+      dispatch(calendarSynced({ tempId: item.tempId, calendar: result }));
+    } else if (item.type === 'createGoal' || item.type === 'updateGoal') {
+      if (item.tempId) goalHistoryService.replaceGoalId(item.tempId, String(result.id));
+      dispatch(goalSynced({ tempId: item.tempId, goal: result }));
+    } else if (item.type === 'createResponsibility' || item.type === 'updateResponsibility') {
+      dispatch(responsibilitySynced({ tempId: item.tempId, responsibility: result }));
+    }
+    return;
+  }
+
+  if (outboxEvent.kind === 'discarded') {
+    const { item } = outboxEvent;
+
+    // Never created on the server - just drop the placeholder
+    if (item.type === 'createEvent') {
+      dispatch(eventRemoved(item.tempId!));
+    } else if (item.type === 'createCalendar') {
+      dispatch(calendarRemoved(item.tempId!));
+    } else if (item.type === 'createGoal') {
+      goalHistoryService.removeGoal(item.tempId!);
+      dispatch(goalRemoved(item.tempId!));
+    } else if (item.type === 'createResponsibility') {
+      dispatch(responsibilityRemoved(item.tempId!));
+    } else if (item.type.endsWith('Event')) {
+      // An abandoned update/delete - reload that event to get back the server's version
+      // (one that was only ever created offline went with its discarded create)
+      if (!outboxService.isTempId(item.entityId)) dispatch(fetchEvent(item.entityId!));
+    } else if (item.type.endsWith('Calendar')) {
+      dispatch(fetchCalendars());
+    } else if (item.type.endsWith('Goal')) {
+      dispatch(fetchGoals({ force: true }));
+    } else if (item.type.endsWith('Responsibility')) {
+      dispatch(fetchResponsibilities());
+    }
+  }
+};
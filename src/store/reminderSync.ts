@@ -0,0 +1,32 @@
+// Reminder sync - feeds the events in the store to the reminder scheduler
+import { Store } from '@reduxjs/toolkit';
+import { RootState } from './store';
+import reminderScheduler from '../services/reminders';
+import storageService from '../services/storage';
+import { resolveTimeZone } from '../utils/dateTime';
+
+// Returns a cleanup that cancels every reminder (used on logout)
+export const startReminderSync = (store: Store<RootState>): (() => void) => {
+  let lastEvents = store.getState().events.events;
+
+  storageService.getReminderSettings().then(settings => {
+    if (settings) reminderScheduler.setSettings(settings);
+  });
+  reminderScheduler.setTimeZone(resolveTimeZone(store.getState().auth.user?.timezone));
+  reminderScheduler.sync(lastEvents);
+
+  const unsubscribe = store.subscribe(() => {
+    const state = store.getState();
+    reminderScheduler.setTimeZone(resolveTimeZone(state.auth.user?.timezone));
+    const events = state.events.events;
+    if (events !== lastEvents) {
+      lastEvents = events;
+      reminderScheduler.sync(events);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    reminderScheduler.clear();
+  };
+};
@@ -2,6 +2,8 @@ import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { User, LoginRequest, AuthTokens } from '../../types';
 import apiService from '../../services/api';
 import storageService from '../../services/storage';
+import outboxService from '../../services/outbox';
+import goalHistoryService from '../../services/goalHistory';
 
 interface AuthState {
   user: User | null;
@@ -29,6 +31,7 @@ export const loginUser = createAsyncThunk(
       console.log('🧹 Redux: Cleared all storage before login');
       
       const response = await apiService.login(credentials);
+      goalHistoryService.setUser(response.user.id);
       
       console.log('✅ Redux: Login successful:', response.user.email);
       return response;
@@ -44,7 +47,11 @@ export const logoutUser = createAsyncThunk(
   async (_, { rejectWithValue }) => {
     try {
       console.log('🚪 Redux: Starting logout');
+      // History stays on the device under this account - just stop showing it
+      goalHistoryService.setUser(null);
       await apiService.logout();
+      // Unsynced writes belong to this account - don't replay them for the next one
+      await outboxService.clear();
       console.log('✅ Redux: Logout successful');
     } catch (error: any) {
       console.error('❌ Redux: Logout failed:', error.message);
@@ -66,6 +73,7 @@ export const checkAuthStatus = createAsyncThunk(
         
         if (storedUser && storedUser.email && storedUser.id) {
           console.log('✅ Redux: Auto-login successful:', storedUser.email);
+          goalHistoryService.setUser(storedUser.id);
           return { user: storedUser };
         } else {
           console.log('⚠️ Redux: Invalid stored user data');
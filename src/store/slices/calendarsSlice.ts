@@ -1,15 +1,22 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
 import { Calendar } from '../../types';
 import apiService from '../../services/api';
+import outboxService from '../../services/outbox';
+import { loginUser, logoutUser } from './authSlice';
+import type { RootState } from '../store';
 
 interface CalendarsState {
   calendars: Calendar[];
-  isLoading: boolean;
+  lastFetchedAt: number | null;
+  hiddenCalendarIds: string[];  // switched off in the Calendar tab's filter - kept on this device only
+  isLoading: boolean;  // nothing cached yet - screens show a spinner
   error: string | null;
 }
 
 const initialState: CalendarsState = {
   calendars: [],
+  lastFetchedAt: null,
+  hiddenCalendarIds: [],
   isLoading: false,
   error: null,
 };
@@ -35,9 +42,25 @@ export const createCalendar = createAsyncThunk(
   async (calendarData: Partial<Calendar>, { rejectWithValue }) => {
     try {
       console.log('➕ Redux: Creating calendar:', calendarData.name);
-      const newCalendar = await apiService.createCalendar(calendarData);
-      console.log('✅ Redux: Calendar created:', newCalendar.name);
-      return newCalendar;
+      const outcome = await outboxService.submit(
+        { type: 'createCalendar', payload: calendarData },
+        () => apiService.createCalendar(calendarData)
+      );
+      if (outcome.queued) {
+        console.log('📥 Redux: Offline - calendar queued:', calendarData.name);
+        const now = new Date().toISOString();
+        return {
+          visibility: 'private',
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          is_active: true,
+          created_at: now,
+          ...calendarData,
+          id: outcome.item.tempId!,
+          updated_at: now,
+        } as Calendar;
+      }
+      console.log('✅ Redux: Calendar created:', outcome.result.name);
+      return outcome.result;
     } catch (error: any) {
       console.error('❌ Redux: Failed to create calendar:', error.message);
       return rejectWithValue(error.message || 'Failed to create calendar');
@@ -47,12 +70,21 @@ export const createCalendar = createAsyncThunk(
 
 export const updateCalendar = createAsyncThunk(
   'calendars/updateCalendar',
-  async ({ calendarId, updates }: { calendarId: string; updates: Partial<Calendar> }, { rejectWithValue }) => {
+  async ({ calendarId, updates }: { calendarId: string; updates: Partial<Calendar> }, { getState, rejectWithValue }) => {
     try {
       console.log('✏️ Redux: Updating calendar:', calendarId);
-      const updatedCalendar = await apiService.updateCalendar(calendarId, updates);
-      console.log('✅ Redux: Calendar updated:', updatedCalendar.name);
-      return updatedCalendar;
+      const outcome = await outboxService.submit(
+        { type: 'updateCalendar', entityId: calendarId, payload: updates },
+        () => apiService.updateCalendar(calendarId, updates)
+      );
+      if (outcome.queued) {
+        const state = getState() as any;
+        const existing = state.calendars.calendars.find((c: Calendar) => c.id === calendarId);
+        console.log('📥 Redux: Offline - calendar update queued:', calendarId);
+        return { ...existing, ...updates, id: calendarId, updated_at: new Date().toISOString() } as Calendar;
+      }
+      console.log('✅ Redux: Calendar updated:', outcome.result.name);
+      return outcome.result;
     } catch (error: any) {
       console.error('❌ Redux: Failed to update calendar:', error.message);
       return rejectWithValue(error.message || 'Failed to update calendar');
@@ -65,8 +97,11 @@ export const deleteCalendar = createAsyncThunk(
   async (calendarId: string, { rejectWithValue }) => {
     try {
       console.log('🗑️ Redux: Deleting calendar:', calendarId);
-      await apiService.deleteCalendar(calendarId);
-      console.log('✅ Redux: Calendar deleted');
+      const outcome = await outboxService.submit(
+        { type: 'deleteCalendar', entityId: calendarId },
+        () => apiService.deleteCalendar(calendarId)
+      );
+      console.log(outcome.queued ? '📥 Redux: Offline - calendar deletion queued' : '✅ Redux: Calendar deleted');
       return calendarId;
     } catch (error: any) {
       console.error('❌ Redux: Failed to delete calendar:', error.message);
@@ -84,36 +119,64 @@ const calendarsSlice = createSlice({
     },
     clearCalendars: (state) => {
       state.calendars = [];
+      state.lastFetchedAt = null;
+    },
+    // The outbox replayed a write - swap in the server's copy (and its real id for offline creates)
+    calendarSynced: (state, action: PayloadAction<{ tempId?: string; calendar: Calendar }>) => {
+      const { tempId, calendar } = action.payload;
+      const index = state.calendars.findIndex(c => c.id === (tempId ?? calendar.id));
+      if (index !== -1) {
+        state.calendars[index] = calendar;
+      } else if (!state.calendars.some(c => c.id === calendar.id)) {
+        state.calendars.push(calendar);
+      }
+      if (tempId && state.hiddenCalendarIds.includes(tempId)) {
+        state.hiddenCalendarIds = state.hiddenCalendarIds.map(id => (id === tempId ? calendar.id : id));
+      }
+    },
+    calendarRemoved: (state, action: PayloadAction<string>) => {
+      state.calendars = state.calendars.filter(calendar => calendar.id !== action.payload);
+      state.hiddenCalendarIds = state.hiddenCalendarIds.filter(id => id !== action.payload);
+    },
+    toggleCalendarVisibility: (state, action: PayloadAction<string>) => {
+      state.hiddenCalendarIds = state.hiddenCalendarIds.includes(action.payload)
+        ? state.hiddenCalendarIds.filter(id => id !== action.payload)
+        : [...state.hiddenCalendarIds, action.payload];
+    },
+    showAllCalendars: (state) => {
+      state.hiddenCalendarIds = [];
     },
   },
   extraReducers: (builder) => {
     builder
-      // Fetch calendars
+      // The cache belongs to whoever was signed in
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(loginUser.pending, () => initialState)
+      // Fetch calendars - cached calendars stay on screen while this runs
       .addCase(fetchCalendars.pending, (state) => {
-        state.isLoading = true;
+        state.isLoading = state.lastFetchedAt === null && state.calendars.length === 0;
         state.error = null;
       })
       .addCase(fetchCalendars.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.calendars = action.payload;
+        state.lastFetchedAt = Date.now();
+        // Writes still in the outbox win over the server's copy until they replay
+        state.calendars = outboxService.mergeFetched('Calendar', action.payload, state.calendars);
         state.error = null;
       })
       .addCase(fetchCalendars.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       })
-      // Create calendar
+      // Create calendar - the form shows its own progress, so the calendar screens don't blank out
       .addCase(createCalendar.pending, (state) => {
-        state.isLoading = true;
         state.error = null;
       })
       .addCase(createCalendar.fulfilled, (state, action) => {
-        state.isLoading = false;
         state.calendars.push(action.payload);
         state.error = null;
       })
       .addCase(createCalendar.rejected, (state, action) => {
-        state.isLoading = false;
         state.error = action.payload as string;
       })
       // Update calendar
@@ -129,6 +192,7 @@ const calendarsSlice = createSlice({
       // Delete calendar
       .addCase(deleteCalendar.fulfilled, (state, action) => {
         state.calendars = state.calendars.filter(calendar => calendar.id !== action.payload);
+        state.hiddenCalendarIds = state.hiddenCalendarIds.filter(id => id !== action.payload);
       })
       .addCase(deleteCalendar.rejected, (state, action) => {
         state.error = action.payload as string;
@@ -136,5 +200,21 @@ const calendarsSlice = createSlice({
   },
 });
 
-export const { clearError, clearCalendars } = calendarsSlice.actions;
+// Selectors
+export const selectCalendars = (state: RootState) => state.calendars.calendars;
+export const selectHiddenCalendarIds = (state: RootState) => state.calendars.hiddenCalendarIds;
+
+export const selectVisibleCalendars = createSelector(
+  [selectCalendars, selectHiddenCalendarIds],
+  (calendars, hiddenIds) => calendars.filter(calendar => !hiddenIds.includes(calendar.id))
+);
+
+export const {
+  clearError,
+  clearCalendars,
+  calendarSynced,
+  calendarRemoved,
+  toggleCalendarVisibility,
+  showAllCalendars,
+} = calendarsSlice.actions;
 export default calendarsSlice.reducer;
\ No newline at end of file
@@ -1,19 +1,96 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { Event } from '../../types';
+import { Event, EventOccurrence, EventWriteData, RecurrenceScope } from '../../types';
 import apiService from '../../services/api';
+import { CACHE_CONFIG } from '../../constants/config';
+import outboxService from '../../services/outbox';
+import { calendarSynced, deleteCalendar, updateCalendar } from './calendarsSlice';
+import { loginUser, logoutUser } from './authSlice';
+import type { RootState } from '../store';
+import { resolveTimeZone } from '../../utils/dateTime';
+import {
+  countOccurrencesBefore,
+  formatRRule,
+  parseRRule,
+  truncateRule,
+} from '../../utils/recurrence';
 
 interface EventsState {
   events: Event[];
-  isLoading: boolean;
+  loadedRanges: { [rangeKey: string]: number };  // "start|end" -> when it was fetched (empty side = open-ended)
+  lastFetchedAt: number | null;
+  recurringFetchedAt: number | null;  // series masters loaded this session (not persisted)
+  isLoadingRecurring: boolean;
+  isLoading: boolean;  // nothing cached yet - screens show a spinner
+  isRefreshing: boolean;  // revalidating cached events in the background
   error: string | null;
 }
 
 const initialState: EventsState = {
   events: [],
+  loadedRanges: {},
+  lastFetchedAt: null,
+  recurringFetchedAt: null,
+  isLoadingRecurring: false,
   isLoading: false,
+  isRefreshing: false,
   error: null,
 };
 
+// Range bookkeeping - which date ranges are in the cache and how old they are
+const rangeKey = (startDate?: string, endDate?: string) => `${startDate ?? ''}|${endDate ?? ''}`;
+
+const recordRange = (state: EventsState, key: string) => {
+  const now = Date.now();
+  state.loadedRanges[key] = now;
+  state.lastFetchedAt = now;
+  Object.keys(state.loadedRanges).forEach(existing => {
+    if (now - state.loadedRanges[existing] > CACHE_CONFIG.MAX_AGE) {
+      delete state.loadedRanges[existing];
+    }
+  });
+};
+
+// Created or edited offline and not replayed yet - the server's copy is behind ours
+const hasQueuedWrite = (eventId: string): boolean =>
+  outboxService.isTempId(eventId) || outboxService.pendingWrites('Event').updated.has(eventId);
+
+// Merge fetched events into the cache, leaving ones with writes still in the outbox as they are
+const upsertFetched = (state: EventsState, events: Event[]) => {
+  const { updated, deleted } = outboxService.pendingWrites('Event');
+  events.forEach(event => {
+    if (deleted.has(event.id)) return;
+    const index = state.events.findIndex(e => e.id === event.id);
+    if (index === -1) {
+      state.events.push(event);
+    } else if (!updated.has(event.id)) {
+      state.events[index] = event;
+    }
+  });
+};
+
+// True when fetches newer than maxAge cover the whole of startDate..endDate between them
+// (adjacent or overlapping ranges join up - two loaded months cover a span across both)
+export const isRangeFresh = (
+  loadedRanges: EventsState['loadedRanges'],
+  startDate: string,
+  endDate: string,
+  maxAge: number = CACHE_CONFIG.STALE_AFTER
+): boolean => {
+  const now = Date.now();
+  const ranges = Object.entries(loadedRanges)
+    .filter(([, fetchedAt]) => now - fetchedAt <= maxAge)
+    .map(([key]) => key.split('|'))
+    .sort(([a], [b]) => a.localeCompare(b));  // an open start ('') sorts first
+
+  let coveredTo = startDate;
+  for (const [loadedStart, loadedEnd] of ranges) {
+    if (loadedStart > coveredTo) break;  // a gap
+    if (!loadedEnd) return true;
+    if (loadedEnd > coveredTo) coveredTo = loadedEnd;
+  }
+  return coveredTo >= endDate;
+};
+
 // Async thunks
 export const fetchEvents = createAsyncThunk(
   'events/fetchEvents',
@@ -30,14 +107,125 @@ export const fetchEvents = createAsyncThunk(
   }
 );
 
+// Loads one date range and merges it into the slice (used by views that page through time).
+// Skipped while the cache already holds a fresh copy of the range, unless forced.
+export const fetchEventsInRange = createAsyncThunk(
+  'events/fetchEventsInRange',
+  async ({ startDate, endDate }: { startDate: string; endDate: string; force?: boolean }, { rejectWithValue }) => {
+    try {
+      console.log('📆 Redux: Fetching events from', startDate, 'to', endDate);
+      const events = await apiService.getEvents(startDate, endDate);
+      console.log(`✅ Redux: Loaded ${events.length} events for range`);
+      return { startDate, endDate, events };
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to fetch event range:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch events');
+    }
+  },
+  {
+    condition: ({ startDate, endDate, force }, { getState }) => {
+      const { events } = getState() as { events: EventsState };
+      return force || !isRangeFresh(events.loadedRanges, startDate, endDate);
+    },
+  }
+);
+
+// Loads one page of the events from startDate on (the first, or the one at a page's `next`).
+// A page is only part of a range, so it is merged without marking anything as loaded.
+export const fetchEventsPage = createAsyncThunk(
+  'events/fetchEventsPage',
+  async ({ startDate, next }: { startDate: string; next?: string | null }, { rejectWithValue }) => {
+    try {
+      console.log('📆 Redux: Fetching events page:', next ?? startDate);
+      const page = next ? await apiService.getPage<Event>(next) : await apiService.getEventsPage(startDate);
+      console.log(`✅ Redux: Loaded ${page.results.length} events${page.next ? ', more to come' : ''}`);
+      return page;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to fetch events page:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch events');
+    }
+  }
+);
+
+// Loads every recurring series whatever its start date, once per session (or when forced).
+// Ranged fetches only see series that start inside the range, so older series would
+// otherwise never reach the cache and their occurrences would be missing everywhere.
+export const fetchRecurringEvents = createAsyncThunk(
+  'events/fetchRecurringEvents',
+  async (_: { force?: boolean } | undefined, { rejectWithValue }) => {
+    try {
+      console.log('🔁 Redux: Fetching recurring events');
+      const events = await apiService.getRecurringEvents();
+      console.log(`✅ Redux: Loaded ${events.length} recurring events`);
+      return events;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to fetch recurring events:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch recurring events');
+    }
+  },
+  {
+    condition: (arg, { getState }) => {
+      const { events } = getState() as { events: EventsState };
+      if (events.isLoadingRecurring) return false;
+      return !!arg?.force || events.recurringFetchedAt === null;
+    },
+  }
+);
+
+// Reloads a single event - used to put back the server's copy when an offline write to it is abandoned
+export const fetchEvent = createAsyncThunk(
+  'events/fetchEvent',
+  async (eventId: string, { rejectWithValue }) => {
+    try {
+      console.log('📆 Redux: Fetching event', eventId);
+      return { eventId, event: await apiService.getEvent(eventId) as Event | null };
+    } catch (error: any) {
+      // Deleted elsewhere in the meantime
+      if (error?.response?.status === 404) {
+        return { eventId, event: null };
+      }
+      console.error('❌ Redux: Failed to fetch event:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch event');
+    }
+  }
+);
+
+// What the event will look like once the server has it - shown while the write waits in the outbox.
+// Forms send the calendar as an id, so resolve it against the loaded calendars.
+const buildOptimisticEvent = (state: RootState, eventId: string, data: EventWriteData, base?: Event): Event => {
+  const calendarId = data.calendar ?? base?.calendar?.id;
+  const calendar = state.calendars.calendars.find(c => c.id === calendarId) ?? base?.calendar;
+  const now = new Date().toISOString();
+
+  return {
+    all_day: false,
+    status: 'confirmed',
+    is_private: false,
+    created_at: now,
+    ...base,
+    ...data,
+    id: eventId,
+    calendar,
+    creator: base?.creator ?? state.auth.user,
+    updated_at: now,
+  } as Event;
+};
+
 export const createEvent = createAsyncThunk(
   'events/createEvent',
-  async (eventData: Partial<Event>, { rejectWithValue }) => {
+  async (eventData: EventWriteData, { getState, rejectWithValue }) => {
     try {
       console.log('➕ Redux: Creating event:', eventData.title);
-      const newEvent = await apiService.createEvent(eventData);
-      console.log('✅ Redux: Event created:', newEvent.title);
-      return newEvent;
+      const outcome = await outboxService.submit(
+        { type: 'createEvent', payload: eventData },
+        () => apiService.createEvent(eventData)
+      );
+      if (outcome.queued) {
+        console.log('📥 Redux: Offline - event queued:', eventData.title);
+        return buildOptimisticEvent(getState() as RootState, outcome.item.tempId!, eventData);
+      }
+      console.log('✅ Redux: Event created:', outcome.result.title);
+      return outcome.result;
     } catch (error: any) {
       console.error('❌ Redux: Failed to create event:', error.message);
       return rejectWithValue(error.message || 'Failed to create event');
@@ -47,12 +235,21 @@ export const createEvent = createAsyncThunk(
 
 export const updateEvent = createAsyncThunk(
   'events/updateEvent',
-  async ({ eventId, updates }: { eventId: string; updates: Partial<Event> }, { rejectWithValue }) => {
+  async ({ eventId, updates }: { eventId: string; updates: EventWriteData }, { getState, rejectWithValue }) => {
     try {
       console.log('✏️ Redux: Updating event:', eventId);
-      const updatedEvent = await apiService.updateEvent(eventId, updates);
-      console.log('✅ Redux: Event updated:', updatedEvent.title);
-      return updatedEvent;
+      const outcome = await outboxService.submit(
+        { type: 'updateEvent', entityId: eventId, payload: updates },
+        () => apiService.updateEvent(eventId, updates)
+      );
+      if (outcome.queued) {
+        const state = getState() as RootState;
+        const existing = state.events.events.find(e => e.id === eventId);
+        console.log('📥 Redux: Offline - event update queued:', eventId);
+        return buildOptimisticEvent(state, eventId, updates, existing);
+      }
+      console.log('✅ Redux: Event updated:', outcome.result.title);
+      return outcome.result;
     } catch (error: any) {
       console.error('❌ Redux: Failed to update event:', error.message);
       return rejectWithValue(error.message || 'Failed to update event');
@@ -65,8 +262,11 @@ export const deleteEvent = createAsyncThunk(
   async (eventId: string, { rejectWithValue }) => {
     try {
       console.log('🗑️ Redux: Deleting event:', eventId);
-      await apiService.deleteEvent(eventId);
-      console.log('✅ Redux: Event deleted');
+      const outcome = await outboxService.submit(
+        { type: 'deleteEvent', entityId: eventId },
+        () => apiService.deleteEvent(eventId)
+      );
+      console.log(outcome.queued ? '📥 Redux: Offline - event deletion queued' : '✅ Redux: Event deleted');
       return eventId;
     } catch (error: any) {
       console.error('❌ Redux: Failed to delete event:', error.message);
@@ -86,9 +286,17 @@ export const toggleEventCompletion = createAsyncThunk(
       const newCompletedStatus = !event.completed;
       console.log('✅ Redux: Toggling event completion:', eventId, 'to:', newCompletedStatus);
       
-      const updatedEvent = await apiService.updateEvent(eventId, { completed: newCompletedStatus });
+      const updates = { completed: newCompletedStatus };
+      const outcome = await outboxService.submit(
+        { type: 'updateEvent', entityId: eventId, payload: updates },
+        () => apiService.updateEvent(eventId, updates)
+      );
+      if (outcome.queued) {
+        console.log('📥 Redux: Offline - completion change queued');
+        return { ...event, ...updates } as Event;
+      }
       console.log('✅ Redux: Event completion toggled');
-      return updatedEvent;
+      return outcome.result;
     } catch (error: any) {
       console.error('❌ Redux: Failed to toggle event completion:', error.message);
       return rejectWithValue(error.message || 'Failed to toggle completion');
@@ -96,6 +304,118 @@ export const toggleEventCompletion = createAsyncThunk(
   }
 );
 
+// Recurring events - the server only knows about the master event, so every
+// scoped change is translated into plain create/update/delete calls on it.
+const findSeries = (state: RootState, occurrence: EventOccurrence): Event => {
+  const series = state.events.events.find(e => e.id === occurrence.series_id);
+  if (!series) throw new Error('Recurring event not found');
+  return series;
+};
+
+const isFirstOccurrence = (series: Event, occurrence: EventOccurrence) =>
+  new Date(series.start_time).getTime() === new Date(occurrence.occurrence_start).getTime();
+
+export const updateRecurringEvent = createAsyncThunk(
+  'events/updateRecurring',
+  async (
+    { occurrence, updates, scope }: { occurrence: EventOccurrence; updates: EventWriteData; scope: RecurrenceScope },
+    { dispatch, getState, rejectWithValue }
+  ) => {
+    try {
+      const state = getState() as RootState;
+      const series = findSeries(state, occurrence);
+      const occurrenceStart = new Date(occurrence.occurrence_start);
+      console.log('🔁 Redux: Updating recurring event:', series.id, 'scope:', scope);
+
+      if (scope === 'this') {
+        // Skip this instance in the series and save it as a standalone event
+        await dispatch(updateEvent({
+          eventId: series.id,
+          updates: {
+            recurrence_exceptions: [...(series.recurrence_exceptions || []), occurrence.occurrence_start],
+          },
+        })).unwrap();
+        await dispatch(createEvent({ ...updates, recurrence_rule: null })).unwrap();
+        return;
+      }
+
+      if (scope === 'following' && !isFirstOccurrence(series, occurrence)) {
+        // End the original series before this instance and start a new one from here
+        const ruleText = updates.recurrence_rule ?? series.recurrence_rule!;
+        const timeZone = resolveTimeZone(state.auth.user?.timezone);
+        const rule = parseRRule(ruleText, timeZone);
+        if (rule.count) {
+          const before = countOccurrencesBefore(
+            parseRRule(series.recurrence_rule!, timeZone),
+            new Date(series.start_time),
+            occurrenceStart,
+            timeZone
+          );
+          rule.count = Math.max(rule.count - before, 1);
+        }
+        await dispatch(updateEvent({
+          eventId: series.id,
+          updates: { recurrence_rule: truncateRule(series.recurrence_rule!, occurrenceStart) },
+        })).unwrap();
+        await dispatch(createEvent({ ...updates, recurrence_rule: formatRRule(rule) })).unwrap();
+        return;
+      }
+
+      // Whole series: move the master by however far this instance was moved
+      const seriesUpdates: EventWriteData = { ...updates };
+      if (updates.start_time && updates.end_time) {
+        const shift = new Date(updates.start_time).getTime() - occurrenceStart.getTime();
+        const duration = new Date(updates.end_time).getTime() - new Date(updates.start_time).getTime();
+        const newStart = new Date(new Date(series.start_time).getTime() + shift);
+        seriesUpdates.start_time = newStart.toISOString();
+        seriesUpdates.end_time = new Date(newStart.getTime() + duration).toISOString();
+      }
+      await dispatch(updateEvent({ eventId: series.id, updates: seriesUpdates })).unwrap();
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to update recurring event:', error.message || error);
+      return rejectWithValue(error.message || error || 'Failed to update event');
+    }
+  }
+);
+
+export const deleteRecurringEvent = createAsyncThunk(
+  'events/deleteRecurring',
+  async (
+    { occurrence, scope }: { occurrence: EventOccurrence; scope: RecurrenceScope },
+    { dispatch, getState, rejectWithValue }
+  ) => {
+    try {
+      const series = findSeries(getState() as RootState, occurrence);
+      console.log('🔁 Redux: Deleting recurring event:', series.id, 'scope:', scope);
+
+      if (scope === 'this') {
+        await dispatch(updateEvent({
+          eventId: series.id,
+          updates: {
+            recurrence_exceptions: [...(series.recurrence_exceptions || []), occurrence.occurrence_start],
+          },
+        })).unwrap();
+        return;
+      }
+
+      if (scope === 'following' && !isFirstOccurrence(series, occurrence)) {
+        await dispatch(updateEvent({
+          eventId: series.id,
+          updates: {
+            recurrence_rule: truncateRule(series.recurrence_rule!, new Date(occurrence.occurrence_start)),
+          },
+        })).unwrap();
+        return;
+      }
+
+      await dispatch(deleteEvent(series.id)).unwrap();
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to delete recurring event:', error.message || error);
+      return rejectWithValue(error.message || error || 'Failed to delete event');
+    }
+  }
+);
+
 const eventsSlice = createSlice({
   name: 'events',
   initialState,
@@ -105,36 +425,152 @@ const eventsSlice = createSlice({
     },
     clearEvents: (state) => {
       state.events = [];
+      state.loadedRanges = {};
+      state.lastFetchedAt = null;
+      state.recurringFetchedAt = null;
+    },
+    // The outbox replayed a write - swap in the server's copy (and its real id for offline creates)
+    eventSynced: (state, action: PayloadAction<{ tempId?: string; event: Event }>) => {
+      const { tempId, event } = action.payload;
+      const index = state.events.findIndex(e => e.id === (tempId ?? event.id));
+      if (index !== -1) {
+        state.events[index] = event;
+      } else if (!state.events.some(e => e.id === event.id)) {
+        state.events.push(event);
+      }
+    },
+    eventRemoved: (state, action: PayloadAction<string>) => {
+      state.events = state.events.filter(event => event.id !== action.payload);
     },
   },
   extraReducers: (builder) => {
     builder
-      // Fetch events
+      // A calendar created offline got its real id - repoint its events
+      .addCase(calendarSynced, (state, action) => {
+        const { tempId, calendar } = action.payload;
+        if (!tempId) return;
+        state.events.forEach(event => {
+          if (event.calendar?.id === tempId) {
+            event.calendar = calendar;
+          }
+        });
+      })
+      // Events carry a copy of their calendar - keep name and color in step
+      .addCase(updateCalendar.fulfilled, (state, action) => {
+        state.events.forEach(event => {
+          if (event.calendar?.id === action.payload.id) {
+            event.calendar = action.payload;
+          }
+        });
+      })
+      // The server deletes a calendar's events along with it
+      .addCase(deleteCalendar.fulfilled, (state, action) => {
+        state.events = state.events.filter(event => event.calendar?.id !== action.payload);
+      })
+      // The cache belongs to whoever was signed in
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(loginUser.pending, () => initialState)
+      // Fetch events - cached events stay on screen while this runs
       .addCase(fetchEvents.pending, (state) => {
-        state.isLoading = true;
+        state.isLoading = state.lastFetchedAt === null && state.events.length === 0;
+        state.isRefreshing = true;
         state.error = null;
       })
       .addCase(fetchEvents.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.events = action.payload;
+        state.isRefreshing = false;
+        // A calendar-filtered result isn't a complete picture of the range
+        const params = action.meta.arg || {};
+        if (!params.calendarId) {
+          recordRange(state, rangeKey(params.startDate, params.endDate));
+        }
+        // Writes still in the outbox win over the server's copy until they replay
+        state.events = outboxService.mergeFetched('Event', action.payload, state.events);
         state.error = null;
       })
       .addCase(fetchEvents.rejected, (state, action) => {
         state.isLoading = false;
+        state.isRefreshing = false;
+        state.error = action.payload as string;
+      })
+      // Fetch a range - merge instead of replacing so other ranges stay loaded
+      .addCase(fetchEventsInRange.pending, (state) => {
+        state.isLoading = state.lastFetchedAt === null && state.events.length === 0;
+      })
+      .addCase(fetchEventsInRange.fulfilled, (state, action) => {
+        const { startDate, endDate, events } = action.payload;
+        state.isLoading = false;
+        recordRange(state, rangeKey(startDate, endDate));
+        const rangeStart = new Date(`${startDate}T00:00:00`).getTime();
+        const rangeEnd = new Date(`${endDate}T00:00:00`).getTime();
+        const returnedIds = new Set(events.map(event => event.id));
+
+        // Drop events the server no longer has in this range (deleted elsewhere)
+        state.events = state.events.filter(event => {
+          const start = new Date(event.start_time).getTime();
+          const inRange = start >= rangeStart && start < rangeEnd;
+          return !inRange || returnedIds.has(event.id) || hasQueuedWrite(event.id);
+        });
+        upsertFetched(state, events);
+      })
+      .addCase(fetchEventsInRange.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // One page of events - merged like a range, but without claiming the range is complete
+      .addCase(fetchEventsPage.pending, (state) => {
+        state.isLoading = state.lastFetchedAt === null && state.events.length === 0;
+      })
+      .addCase(fetchEventsPage.fulfilled, (state, action) => {
+        state.isLoading = false;
+        upsertFetched(state, action.payload.results);
+      })
+      .addCase(fetchEventsPage.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Recurring series - the full set, so cached series missing from it were deleted elsewhere
+      .addCase(fetchRecurringEvents.pending, (state) => {
+        state.isLoadingRecurring = true;
+      })
+      .addCase(fetchRecurringEvents.fulfilled, (state, action) => {
+        state.isLoadingRecurring = false;
+        state.recurringFetchedAt = Date.now();
+        const returnedIds = new Set(action.payload.map(event => event.id));
+        state.events = state.events.filter(event =>
+          !event.recurrence_rule || returnedIds.has(event.id) || hasQueuedWrite(event.id)
+        );
+        upsertFetched(state, action.payload);
+      })
+      .addCase(fetchRecurringEvents.rejected, (state, action) => {
+        state.isLoadingRecurring = false;
         state.error = action.payload as string;
       })
-      // Create event
+      // Single event
+      .addCase(fetchEvent.fulfilled, (state, action) => {
+        const { eventId, event } = action.payload;
+        const index = state.events.findIndex(e => e.id === eventId);
+        if (!event) {
+          state.events = state.events.filter(e => e.id !== eventId);
+        } else if (index !== -1) {
+          state.events[index] = event;
+        } else {
+          state.events.push(event);
+        }
+      })
+      .addCase(fetchEvent.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Create event - the form or quick-add bar shows its own saving state, so the
+      // list's spinner (isLoading) is left alone
       .addCase(createEvent.pending, (state) => {
-        state.isLoading = true;
         state.error = null;
       })
       .addCase(createEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
         state.events.push(action.payload);
         state.error = null;
       })
       .addCase(createEvent.rejected, (state, action) => {
-        state.isLoading = false;
         state.error = action.payload as string;
       })
       // Update event
@@ -167,5 +603,5 @@ const eventsSlice = createSlice({
   },
 });
 
-export const { clearError, clearEvents } = eventsSlice.actions;
+export const { clearError, clearEvents, eventSynced, eventRemoved } = eventsSlice.actions;
 export default eventsSlice.reducer;
\ No newline at end of file
@@ -0,0 +1,365 @@
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { Goal } from '../../types';
+import apiService from '../../services/api';
+import outboxService from '../../services/outbox';
+import goalHistoryService from '../../services/goalHistory';
+import { applyCheckIn } from '../../utils/goalProgress';
+import { pendingRollover, rolloverUpdates } from '../../utils/goalPeriods';
+import { resolveTimeZone, todayKey } from '../../utils/dateTime';
+import { CACHE_CONFIG } from '../../constants/config';
+import { loginUser, logoutUser } from './authSlice';
+import type { RootState } from '../store';
+
+interface GoalsState {
+  goals: Goal[];
+  lastFetchedAt: number | null;
+  isFetching: boolean;  // a fetch is in flight (not persisted)
+  isLoading: boolean;  // nothing cached yet - screens show a spinner
+  error: string | null;
+}
+
+const initialState: GoalsState = {
+  goals: [],
+  lastFetchedAt: null,
+  isFetching: false,
+  isLoading: false,
+  error: null,
+};
+
+const findGoal = (state: RootState, goalId: string): Goal | undefined =>
+  state.goals.goals.find(g => g.id === goalId);
+
+// Async thunks
+// Skipped while a fetch is in flight or the cached goals are still fresh, unless forced
+export const fetchGoals = createAsyncThunk(
+  'goals/fetchGoals',
+  async (_: { force?: boolean } | undefined, { dispatch, rejectWithValue }) => {
+    try {
+      console.log('📋 Redux: Fetching goals');
+      const goals = await apiService.getGoals(page => dispatch(goalsPageLoaded(page)));
+      console.log(`✅ Redux: Loaded ${goals.length} goals`);
+      return goals;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to fetch goals:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch goals');
+    }
+  },
+  {
+    condition: (arg, { getState }) => {
+      const { goals } = getState() as RootState;
+      if (goals.isFetching) return false;
+      return !!arg?.force || goals.lastFetchedAt === null ||
+        Date.now() - goals.lastFetchedAt > CACHE_CONFIG.STALE_AFTER;
+    },
+  }
+);
+
+export const createGoal = createAsyncThunk(
+  'goals/createGoal',
+  async (goalData: Partial<Goal>, { rejectWithValue }) => {
+    try {
+      console.log('➕ Redux: Creating goal:', goalData.title);
+      const outcome = await outboxService.submit(
+        { type: 'createGoal', payload: goalData },
+        () => apiService.createGoal(goalData)
+      );
+
+      let goal: Goal;
+      if (outcome.queued) {
+        // Placeholder until the outbox gets it to the server
+        const now = new Date().toISOString();
+        goal = {
+          current_value: 0,
+          is_active: true,
+          is_completed: false,
+          progress_percentage: 0,
+          status: 'active',
+          created_at: now,
+          ...goalData,
+          id: outcome.item.tempId!,
+          updated_at: now,
+        } as Goal;
+        console.log('📥 Redux: Offline - goal queued:', goalData.title);
+      } else {
+        goal = outcome.result;
+        console.log('✅ Redux: Goal created:', goal.title);
+      }
+      goalHistoryService.recordChange(undefined, goal);
+      return goal;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to create goal:', error.message);
+      return rejectWithValue(error.message || 'Failed to create goal');
+    }
+  }
+);
+
+export const updateGoal = createAsyncThunk(
+  'goals/updateGoal',
+  async ({ goalId, updates }: { goalId: string; updates: Partial<Goal> }, { getState, rejectWithValue }) => {
+    try {
+      console.log('✏️ Redux: Updating goal:', goalId);
+      const before = findGoal(getState() as RootState, goalId);
+      const outcome = await outboxService.submit(
+        { type: 'updateGoal', entityId: goalId, payload: updates },
+        () => apiService.updateGoal(goalId, updates)
+      );
+
+      const goal = outcome.queued
+        ? { ...before, ...updates, id: goalId, updated_at: new Date().toISOString() } as Goal
+        : outcome.result;
+      if (before) goalHistoryService.recordChange(before, goal);
+      console.log(outcome.queued ? '📥 Redux: Offline - goal update queued' : '✅ Redux: Goal updated');
+      return goal;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to update goal:', error.message);
+      return rejectWithValue(error.message || 'Failed to update goal');
+    }
+  }
+);
+
+export const deleteGoal = createAsyncThunk(
+  'goals/deleteGoal',
+  async (goalId: string, { rejectWithValue }) => {
+    try {
+      console.log('🗑️ Redux: Deleting goal:', goalId);
+      const outcome = await outboxService.submit(
+        { type: 'deleteGoal', entityId: goalId },
+        () => apiService.deleteGoal(goalId)
+      );
+      goalHistoryService.removeGoal(goalId);
+      console.log(outcome.queued ? '📥 Redux: Offline - goal deletion queued' : '✅ Redux: Goal deleted');
+      return goalId;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to delete goal:', error.message);
+      return rejectWithValue(error.message || 'Failed to delete goal');
+    }
+  }
+);
+
+// The UI flips straight away; a write the server rejects puts it back
+export const toggleGoalCompletion = createAsyncThunk(
+  'goals/toggleCompletion',
+  async (goalId: string, { getState, dispatch, rejectWithValue }) => {
+    const goal = findGoal(getState() as RootState, goalId);
+    if (!goal) return rejectWithValue('Goal not found');
+
+    const completed = !goal.is_completed;
+    const updates: Partial<Goal> = {
+      is_completed: completed,
+      status: completed ? 'completed' : 'active',
+    };
+    dispatch(goalPatched({ goalId, changes: updates }));
+
+    try {
+      console.log(`🎯 Redux: Toggling goal completion: ${goal.title} -> ${updates.status}`);
+      // Offline is fine - the outbox replays it later, so the optimistic state stays
+      const outcome = await outboxService.submit(
+        { type: 'updateGoal', entityId: goalId, payload: updates },
+        () => apiService.toggleGoalCompletion(goalId, completed)
+      );
+      goalHistoryService.recordChange(goal, { ...goal, ...updates });
+      console.log(outcome.queued ? '📥 Redux: Offline - completion change queued' : '✅ Redux: Goal completion synced');
+      return outcome.queued ? { ...goal, ...updates } : outcome.result;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to sync completion state, reverting:', error.message);
+      dispatch(goalPatched({ goalId, changes: { is_completed: goal.is_completed, status: goal.status } }));
+      return rejectWithValue('Failed to update goal completion');
+    }
+  }
+);
+
+// Log an amount against a goal (negative takes some back) - optimistic, like completion
+export const checkInGoal = createAsyncThunk(
+  'goals/checkIn',
+  async (
+    { goalId, amount, note }: { goalId: string; amount: number; note?: string },
+    { getState, dispatch, rejectWithValue }
+  ) => {
+    const goal = findGoal(getState() as RootState, goalId);
+    if (!goal) return rejectWithValue('Goal not found');
+
+    const updates = applyCheckIn(goal, amount);
+    dispatch(goalPatched({ goalId, changes: updates }));
+
+    try {
+      console.log(`📝 Redux: Check-in on ${goal.title}: ${amount > 0 ? '+' : ''}${amount}`);
+      const outcome = await outboxService.submit(
+        { type: 'updateGoal', entityId: goalId, payload: updates },
+        () => apiService.updateGoal(goalId, updates)
+      );
+      goalHistoryService.recordCheckIn(goal, amount, note);
+      console.log(outcome.queued ? '📥 Redux: Offline - check-in queued' : '✅ Redux: Check-in synced');
+      return outcome.queued ? { ...goal, ...updates } : outcome.result;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to sync check-in, reverting:', error.message);
+      // Take back just this check-in - others may have landed on top of it meanwhile
+      const current = findGoal(getState() as RootState, goalId);
+      if (current) {
+        const applied = updates.current_value - goal.current_value;
+        dispatch(goalPatched({ goalId, changes: applyCheckIn(current, -applied) }));
+      }
+      return rejectWithValue('Failed to log progress');
+    }
+  }
+);
+
+// Start goals whose period has ended afresh - archive how the period went, then reset it
+export const rollOverGoals = createAsyncThunk(
+  'goals/rollOver',
+  async (_, { getState, dispatch }) => {
+    const state = getState() as RootState;
+    const timeZone = resolveTimeZone(state.auth.user?.timezone);
+    const entries = await goalHistoryService.getAll();
+    const today = todayKey(timeZone);
+
+    for (const goal of state.goals.goals) {
+      const due = pendingRollover(goal, entries, today, timeZone);
+      // Another rollover run may have archived it while this one waited
+      if (!due || !(await goalHistoryService.recordRollover(goal, due.period, due.outcome))) continue;
+
+      const updates = rolloverUpdates(goal);
+      dispatch(goalPatched({ goalId: goal.id, changes: updates }));
+      try {
+        console.log(`🔁 Redux: Rolling over ${goal.title} (${due.period}: ${due.outcome})`);
+        const outcome = await outboxService.submit(
+          { type: 'updateGoal', entityId: goal.id, payload: updates },
+          () => apiService.updateGoal(goal.id, updates)
+        );
+        if (!outcome.queued) dispatch(goalSynced({ goal: outcome.result }));
+      } catch (error: any) {
+        console.error('❌ Redux: Failed to roll over goal:', error.message);
+      }
+    }
+  }
+);
+
+const goalsSlice = createSlice({
+  name: 'goals',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+    // First load only - show each page as it arrives instead of waiting for the whole list
+    goalsPageLoaded: (state, action: PayloadAction<Goal[]>) => {
+      if (state.lastFetchedAt !== null) return;
+      action.payload.forEach(goal => {
+        if (!state.goals.some(g => g.id === goal.id)) {
+          state.goals.push(goal);
+        }
+      });
+      state.isLoading = false;
+    },
+    // Optimistic changes (and putting them back)
+    goalPatched: (state, action: PayloadAction<{ goalId: string; changes: Partial<Goal> }>) => {
+      const goal = state.goals.find(g => g.id === action.payload.goalId);
+      if (goal) {
+        Object.assign(goal, action.payload.changes);
+      }
+    },
+    // The outbox replayed a write - swap in the server's copy (and its real id for offline creates)
+    goalSynced: (state, action: PayloadAction<{ tempId?: string; goal: Goal }>) => {
+      const { tempId, goal } = action.payload;
+      const index = state.goals.findIndex(g => g.id === (tempId ?? goal.id));
+      if (index !== -1) {
+        state.goals[index] = goal;
+      } else if (!state.goals.some(g => g.id === goal.id)) {
+        state.goals.push(goal);
+      }
+    },
+    goalRemoved: (state, action: PayloadAction<string>) => {
+      state.goals = state.goals.filter(goal => goal.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // The cache belongs to whoever was signed in
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(loginUser.pending, () => initialState)
+      // Fetch goals - cached goals stay on screen while this runs
+      .addCase(fetchGoals.pending, (state) => {
+        state.isFetching = true;
+        state.isLoading = state.lastFetchedAt === null && state.goals.length === 0;
+        state.error = null;
+      })
+      .addCase(fetchGoals.fulfilled, (state, action) => {
+        state.isFetching = false;
+        state.isLoading = false;
+        state.lastFetchedAt = Date.now();
+        // Writes still in the outbox win over the server's copy until they replay
+        state.goals = outboxService.mergeFetched('Goal', action.payload, state.goals);
+        state.error = null;
+      })
+      .addCase(fetchGoals.rejected, (state, action) => {
+        state.isFetching = false;
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Create goal - the form shows its own progress
+      .addCase(createGoal.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(createGoal.fulfilled, (state, action) => {
+        state.goals.push(action.payload);
+      })
+      .addCase(createGoal.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Update goal
+      .addCase(updateGoal.fulfilled, (state, action) => {
+        const index = state.goals.findIndex(goal => goal.id === action.payload.id);
+        if (index !== -1) {
+          state.goals[index] = action.payload;
+        }
+      })
+      .addCase(updateGoal.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Delete goal
+      .addCase(deleteGoal.fulfilled, (state, action) => {
+        state.goals = state.goals.filter(goal => goal.id !== action.payload);
+      })
+      .addCase(deleteGoal.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Toggle completion / check in - already applied optimistically, take the server's copy
+      .addCase(toggleGoalCompletion.fulfilled, (state, action) => {
+        const index = state.goals.findIndex(goal => goal.id === action.payload.id);
+        if (index !== -1) {
+          state.goals[index] = action.payload;
+        }
+      })
+      .addCase(toggleGoalCompletion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(checkInGoal.fulfilled, (state, action) => {
+        const index = state.goals.findIndex(goal => goal.id === action.payload.id);
+        if (index !== -1) {
+          state.goals[index] = action.payload;
+        }
+      })
+      .addCase(checkInGoal.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+// Selectors - memoized so every screen shares the same derived lists
+export const selectGoals = (state: RootState) => state.goals.goals;
+
+export const selectActiveGoals = createSelector([selectGoals], goals =>
+  goals.filter(goal => !goal.is_completed)
+);
+
+export const selectCompletedGoals = createSelector([selectGoals], goals =>
+  goals.filter(goal => goal.is_completed)
+);
+
+export const selectGoalsByPriority = createSelector([selectGoals], goals => ({
+  high: goals.filter(goal => goal.priority === 'high'),
+  medium: goals.filter(goal => goal.priority === 'medium'),
+  low: goals.filter(goal => goal.priority === 'low'),
+}));
+
+export const { clearError, goalsPageLoaded, goalPatched, goalSynced, goalRemoved } = goalsSlice.actions;
+export default goalsSlice.reducer;
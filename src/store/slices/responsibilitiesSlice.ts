@@ -0,0 +1,197 @@
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { Responsibility } from '../../types';
+import apiService from '../../services/api';
+import outboxService from '../../services/outbox';
+import { loginUser, logoutUser } from './authSlice';
+import type { RootState } from '../store';
+
+interface ResponsibilitiesState {
+  responsibilities: Responsibility[];
+  lastFetchedAt: number | null;
+  isLoading: boolean;  // nothing cached yet - screens show a spinner
+  error: string | null;
+}
+
+const initialState: ResponsibilitiesState = {
+  responsibilities: [],
+  lastFetchedAt: null,
+  isLoading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchResponsibilities = createAsyncThunk(
+  'responsibilities/fetchResponsibilities',
+  async (_, { rejectWithValue }) => {
+    try {
+      console.log('📋 Redux: Fetching responsibilities');
+      const responsibilities = await apiService.getResponsibilities();
+      console.log(`✅ Redux: Loaded ${responsibilities.length} responsibilities`);
+      return responsibilities;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to fetch responsibilities:', error.message);
+      return rejectWithValue(error.message || 'Failed to fetch responsibilities');
+    }
+  }
+);
+
+export const createResponsibility = createAsyncThunk(
+  'responsibilities/createResponsibility',
+  async (data: Partial<Responsibility>, { rejectWithValue }) => {
+    try {
+      console.log('➕ Redux: Creating responsibility:', data.title);
+      const outcome = await outboxService.submit(
+        { type: 'createResponsibility', payload: data },
+        () => apiService.createResponsibility(data)
+      );
+      if (outcome.queued) {
+        console.log('📥 Redux: Offline - responsibility queued:', data.title);
+        const now = new Date().toISOString();
+        return {
+          priority: 'medium',
+          status: 'active',
+          color: '#2196F3',
+          created_at: now,
+          ...data,
+          id: outcome.item.tempId!,
+          updated_at: now,
+        } as Responsibility;
+      }
+      console.log('✅ Redux: Responsibility created:', outcome.result.title);
+      return outcome.result;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to create responsibility:', error.message);
+      return rejectWithValue(error.message || 'Failed to create responsibility');
+    }
+  }
+);
+
+export const updateResponsibility = createAsyncThunk(
+  'responsibilities/updateResponsibility',
+  async (
+    { responsibilityId, updates }: { responsibilityId: string; updates: Partial<Responsibility> },
+    { getState, rejectWithValue }
+  ) => {
+    try {
+      console.log('✏️ Redux: Updating responsibility:', responsibilityId);
+      const outcome = await outboxService.submit(
+        { type: 'updateResponsibility', entityId: responsibilityId, payload: updates },
+        () => apiService.updateResponsibility(responsibilityId, updates)
+      );
+      if (outcome.queued) {
+        const state = getState() as RootState;
+        const existing = state.responsibilities.responsibilities.find(r => r.id === responsibilityId);
+        console.log('📥 Redux: Offline - responsibility update queued:', responsibilityId);
+        return { ...existing, ...updates, id: responsibilityId, updated_at: new Date().toISOString() } as Responsibility;
+      }
+      console.log('✅ Redux: Responsibility updated:', outcome.result.title);
+      return outcome.result;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to update responsibility:', error.message);
+      return rejectWithValue(error.message || 'Failed to update responsibility');
+    }
+  }
+);
+
+export const deleteResponsibility = createAsyncThunk(
+  'responsibilities/deleteResponsibility',
+  async (responsibilityId: string, { rejectWithValue }) => {
+    try {
+      console.log('🗑️ Redux: Deleting responsibility:', responsibilityId);
+      const outcome = await outboxService.submit(
+        { type: 'deleteResponsibility', entityId: responsibilityId },
+        () => apiService.deleteResponsibility(responsibilityId)
+      );
+      console.log(outcome.queued ? '📥 Redux: Offline - responsibility deletion queued' : '✅ Redux: Responsibility deleted');
+      return responsibilityId;
+    } catch (error: any) {
+      console.error('❌ Redux: Failed to delete responsibility:', error.message);
+      return rejectWithValue(error.message || 'Failed to delete responsibility');
+    }
+  }
+);
+
+const responsibilitiesSlice = createSlice({
+  name: 'responsibilities',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+    // The outbox replayed a write - swap in the server's copy (and its real id for offline creates)
+    responsibilitySynced: (state, action: PayloadAction<{ tempId?: string; responsibility: Responsibility }>) => {
+      const { tempId, responsibility } = action.payload;
+      const index = state.responsibilities.findIndex(r => r.id === (tempId ?? responsibility.id));
+      if (index !== -1) {
+        state.responsibilities[index] = responsibility;
+      } else if (!state.responsibilities.some(r => r.id === responsibility.id)) {
+        state.responsibilities.push(responsibility);
+      }
+    },
+    responsibilityRemoved: (state, action: PayloadAction<string>) => {
+      state.responsibilities = state.responsibilities.filter(r => r.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // The cache belongs to whoever was signed in
+      .addCase(logoutUser.fulfilled, () => initialState)
+      .addCase(loginUser.pending, () => initialState)
+      // Fetch - cached responsibilities stay on screen while this runs
+      .addCase(fetchResponsibilities.pending, (state) => {
+        state.isLoading = state.lastFetchedAt === null && state.responsibilities.length === 0;
+        state.error = null;
+      })
+      .addCase(fetchResponsibilities.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.lastFetchedAt = Date.now();
+        // Writes still in the outbox win over the server's copy until they replay
+        state.responsibilities = outboxService.mergeFetched('Responsibility', action.payload, state.responsibilities);
+        state.error = null;
+      })
+      .addCase(fetchResponsibilities.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      // Create - the form shows its own progress
+      .addCase(createResponsibility.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(createResponsibility.fulfilled, (state, action) => {
+        state.responsibilities.push(action.payload);
+      })
+      .addCase(createResponsibility.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Update
+      .addCase(updateResponsibility.fulfilled, (state, action) => {
+        const index = state.responsibilities.findIndex(r => r.id === action.payload.id);
+        if (index !== -1) {
+          state.responsibilities[index] = action.payload;
+        }
+      })
+      .addCase(updateResponsibility.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Delete
+      .addCase(deleteResponsibility.fulfilled, (state, action) => {
+        state.responsibilities = state.responsibilities.filter(r => r.id !== action.payload);
+      })
+      .addCase(deleteResponsibility.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+// Selectors
+export const selectResponsibilities = (state: RootState) => state.responsibilities.responsibilities;
+
+// Grouped for the list: what's on your plate now, what's on hold, what's finished
+export const selectResponsibilitiesByStatus = createSelector([selectResponsibilities], responsibilities => ({
+  active: responsibilities.filter(r => r.status === 'active'),
+  paused: responsibilities.filter(r => r.status === 'paused'),
+  ended: responsibilities.filter(r => r.status === 'ended'),
+}));
+
+export const { clearError, responsibilitySynced, responsibilityRemoved } = responsibilitiesSlice.actions;
+export default responsibilitiesSlice.reducer;
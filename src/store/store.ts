@@ -6,17 +6,46 @@ import { combineReducers } from '@reduxjs/toolkit';
 import authReducer from './slices/authSlice';
 import eventsReducer from './slices/eventsSlice';
 import calendarsReducer from './slices/calendarsSlice';
+import goalsReducer from './slices/goalsSlice';
+import responsibilitiesReducer from './slices/responsibilitiesSlice';
 
 const persistConfig = {
   key: 'root',
   storage: AsyncStorage,
-  whitelist: ['auth'], // Only persist auth state
+  whitelist: ['auth'], // Each data slice persists itself below
+};
+
+// Cached data only - loading flags and errors always start fresh
+const eventsPersistConfig = {
+  key: 'events',
+  storage: AsyncStorage,
+  whitelist: ['events', 'loadedRanges', 'lastFetchedAt'],
+};
+
+const calendarsPersistConfig = {
+  key: 'calendars',
+  storage: AsyncStorage,
+  whitelist: ['calendars', 'lastFetchedAt', 'hiddenCalendarIds'],
+};
+
+const goalsPersistConfig = {
+  key: 'goals',
+  storage: AsyncStorage,
+  whitelist: ['goals', 'lastFetchedAt'],
+};
+
+const responsibilitiesPersistConfig = {
+  key: 'responsibilities',
+  storage: AsyncStorage,
+  whitelist: ['responsibilities', 'lastFetchedAt'],
 };
 
 const rootReducer = combineReducers({
   auth: authReducer,
-  events: eventsReducer,
-  calendars: calendarsReducer,
+  events: persistReducer(eventsPersistConfig, eventsReducer),
+  calendars: persistReducer(calendarsPersistConfig, calendarsReducer),
+  goals: persistReducer(goalsPersistConfig, goalsReducer),
+  responsibilities: persistReducer(responsibilitiesPersistConfig, responsibilitiesReducer),
 });
 
 const persistedReducer = persistReducer(persistConfig, rootReducer);
@@ -41,6 +41,44 @@ export interface Goal {
   updated_at: string;
 }
 
+// One change to a goal, kept on the device for the goal's timeline
+export type GoalHistoryType =
+  | 'created' | 'progress' | 'checkin' | 'target' | 'completed' | 'reopened' | 'status' | 'rollover';
+
+// How a goal's period (day, week, month, year) turned out; 'open' is the one still running
+export type GoalPeriodOutcome = 'completed' | 'missed' | 'paused' | 'open';
+
+export interface GoalHistoryEntry {
+  id: string;
+  goalId: string;
+  type: GoalHistoryType;
+  timestamp: string;  // ISO instant
+  from?: number | string | null;
+  to?: number | string | null;
+  amount?: number;  // check-ins only - what was logged, negative to take some back
+  note?: string;
+  period?: string;  // rollovers only - first day of the period that closed
+  outcome?: GoalPeriodOutcome;  // rollovers only
+}
+
+export type ResponsibilityStatus = 'active' | 'paused' | 'ended';
+
+// An ongoing duty ("on-call", "payroll") - neither a one-off event nor a measurable goal
+export interface Responsibility {
+  id: string;
+  title: string;
+  description?: string;
+  category?: string;
+  frequency?: GoalFrequency;  // how often it needs attention; unset for always-on duties
+  priority: GoalPriority;
+  status: ResponsibilityStatus;
+  start_date: string;
+  end_date?: string;
+  color: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Calendar {
   id: string;
   name: string;
@@ -71,6 +109,98 @@ export interface Event {
   created_at: string;
   updated_at: string;
   completed?: boolean;  // For event completion toggle
+  recurrence_rule?: string | null;  // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO,WE"
+  recurrence_exceptions?: string[];  // Start times of skipped occurrences (EXDATE)
+  ical_uid?: string;  // UID from an imported .ics file - used to spot re-imports
+  reminders?: number[];  // minutes before start, e.g. [10, 1440] = 10 minutes and 1 day before
+}
+
+// Body of an event create/update request - the calendar is sent as its id
+export type EventWriteData = Omit<Partial<Event>, 'calendar'> & { calendar?: string };
+
+// Recurrence types
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceDay {
+  day: Weekday;
+  ordinal?: number;  // 2TU = second Tuesday, -1FR = last Friday
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  until?: string;  // ISO instant, inclusive
+}
+
+// One expanded instance of a recurring event - still an Event, so every screen can render it
+export interface EventOccurrence extends Event {
+  series_id: string;  // id of the master event that holds the rule
+  occurrence_start: string;  // original start of this instance (stable even if edited)
+}
+
+// Which part of a series an edit or delete applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+// Calendar tab display modes
+export type CalendarViewMode = 'month' | 'day' | '3day' | 'week' | 'agenda';
+
+// Search - each filter narrows whichever results it applies to
+export type SearchKind = 'all' | 'events' | 'goals' | 'calendars';
+
+export interface SearchFilters {
+  startDate?: string;  // 'YYYY-MM-DD', inclusive
+  endDate?: string;
+  calendarId?: string;  // events only
+  eventStatus?: Event['status'];
+  goalStatus?: GoalStatus;
+  priority?: GoalPriority;  // goals only
+}
+
+// Reminders
+export interface ReminderSettings {
+  enabled: boolean;
+  defaultMinutes: number[];  // pre-filled on new events
+}
+
+export interface ScheduledReminder {
+  key: string;  // stable per event occurrence and offset
+  eventId: string;
+  title: string;
+  body: string;
+  fireAt: string;  // ISO instant
+  minutesBefore: number;
+}
+
+// Offline outbox - writes waiting to be replayed against the API
+export type OutboxMutationType =
+  | 'createEvent'
+  | 'updateEvent'
+  | 'deleteEvent'
+  | 'createCalendar'
+  | 'updateCalendar'
+  | 'deleteCalendar'
+  | 'createGoal'
+  | 'updateGoal'
+  | 'deleteGoal'
+  | 'createResponsibility'
+  | 'updateResponsibility'
+  | 'deleteResponsibility';
+
+export interface OutboxItem {
+  id: string;
+  type: OutboxMutationType;
+  entityId?: string;  // target of an update/delete - may be a temporary client id
+  tempId?: string;  // client id handed out for something created offline
+  payload?: Record<string, any>;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
 }
 
 // Generic API response type (like C++ templates!)
@@ -80,6 +210,14 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// Django REST Framework page - `next`/`previous` are full URLs, null at either end
+export interface PaginatedResponse<T> {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
 // Authentication types
 export interface LoginRequest {
   email: string;
@@ -92,6 +230,16 @@ export interface LoginResponse {
   user: User;
 }
 
+export interface RegisterRequest {
+  email: string;
+  username: string;
+  first_name?: string;
+  last_name?: string;
+  password: string;
+  password_confirm: string;
+  timezone: string;
+}
+
 export interface AuthTokens {
   access: string;
   refresh: string;
@@ -1,5 +1,5 @@
 // Navigation types - TypeScript navigation parameters (like function signatures!)
-import { Goal, Calendar, Event } from './index';
+import { Goal, Calendar, Event, Responsibility } from './index';
 
 // Stack navigation types
 export type AuthStackParamList = {
@@ -19,17 +19,26 @@ export type AppStackParamList = {
   GoalForm: { goal?: Goal }; // undefined for new goal, Goal for editing
   CreateGoal: undefined;
   EditGoal: { goal: Goal };
-  CreateEvent: { date?: string };
+  CreateEvent: { date?: string; start?: string; end?: string };
   EditEvent: { event: Event };
   EventDetail: { event: Event };
   EventForm: { event?: Event };
   CalendarForm: { calendar?: Calendar };
+  ResponsibilityForm: { responsibility?: Responsibility };
+  Outbox: undefined;
+  ImportCalendar: undefined;
+  ExportCalendar: undefined;
+  Reminders: undefined;
+  Calendars: undefined;
+  FindTime: { date?: string } | undefined;
+  Search: undefined;
 };
 
 // Bottom tab navigation
 export type BottomTabParamList = {
   HomeTab: undefined;
   GoalsTab: undefined;
+  ResponsibilitiesTab: undefined;
   ProfileTab: undefined;
 };
 
@@ -0,0 +1,106 @@
+/**
+ * Conflict detection - which existing events overlap a time range someone is about to book.
+ * Repeating events are expanded on both sides, so a weekly meeting clashes with next week's copy too.
+ */
+import { Event } from '../types';
+import { expandEvents, expandRecurrence, isOccurrence, parseRRule } from './recurrence';
+import { resolveTimeZone } from './dateTime';
+
+// How far ahead a repeating event's own occurrences are checked
+export const CONFLICT_HORIZON_DAYS = 90;
+
+// Only look at the event's calendar, or everything the user can see
+export type ConflictScope = 'calendar' | 'all';
+
+export interface ProposedEvent {
+  id?: string;  // the event being edited, so it doesn't clash with itself
+  calendarId: string;
+  start_time: string;
+  end_time: string;
+  all_day: boolean;
+  recurrence_rule?: string | null;
+}
+
+export interface EventConflict {
+  event: Event;  // the clashing event (or occurrence)
+  start: string;
+  end: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All-day events mark a day rather than block time, so they only clash with each other
+const overlaps = (a: Span, aAllDay: boolean, b: Span, bAllDay: boolean): boolean =>
+  aAllDay === bAllDay && a.start < b.end && b.start < a.end;
+
+const spanOf = (event: { start_time: string; end_time: string }): Span => {
+  const start = new Date(event.start_time).getTime();
+  const end = new Date(event.end_time).getTime();
+  // A zero-length event still occupies its start minute
+  return { start, end: Math.max(end, start + 60000) };
+};
+
+// The proposed event's own occurrences, or just its single span
+const proposedSpans = (proposed: ProposedEvent, timeZone: string): Span[] => {
+  const span = spanOf(proposed);
+  if (!proposed.recurrence_rule) return [span];
+
+  try {
+    const rule = parseRRule(proposed.recurrence_rule, timeZone);
+    const dtstart = new Date(span.start);
+    const horizon = new Date(span.start + CONFLICT_HORIZON_DAYS * DAY_MS);
+    const duration = span.end - span.start;
+    return expandRecurrence(rule, dtstart, dtstart, horizon, [], timeZone).map(start => ({
+      start: start.getTime(),
+      end: start.getTime() + duration,
+    }));
+  } catch (error) {
+    return [span];
+  }
+};
+
+const belongsTo = (event: Event, id: string): boolean =>
+  event.id === id || (isOccurrence(event) && event.series_id === id);
+
+/**
+ * Existing events that overlap the proposed one, earliest first.
+ * Cancelled events, the event being edited (and its other occurrences) and inactive
+ * calendars are ignored; with scope 'calendar' only the proposed calendar is checked.
+ */
+export const findConflicts = (
+  proposed: ProposedEvent,
+  events: Event[],
+  scope: ConflictScope = 'all',
+  timeZone = resolveTimeZone(),
+): EventConflict[] => {
+  const spans = proposedSpans(proposed, timeZone);
+  if (spans.length === 0) return [];
+
+  // The series id when an occurrence is being edited, so its siblings don't count either
+  const ownId = proposed.id?.split('::')[0];
+
+  const candidates = events.filter(event => {
+    if (event.status === 'cancelled') return false;
+    if (ownId && belongsTo(event, ownId)) return false;
+    if (scope === 'calendar') return event.calendar?.id === proposed.calendarId;
+    return event.calendar?.is_active !== false;
+  });
+
+  const rangeStart = new Date(Math.min(...spans.map(span => span.start)));
+  const rangeEnd = new Date(Math.max(...spans.map(span => span.end)));
+
+  const conflicts: EventConflict[] = [];
+  expandEvents(candidates, rangeStart, rangeEnd, timeZone).forEach(event => {
+    const span = spanOf(event);
+    if (spans.some(own => overlaps(own, proposed.all_day, span, event.all_day))) {
+      conflicts.push({ event, start: event.start_time, end: event.end_time });
+    }
+  });
+
+  return conflicts.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+};
@@ -0,0 +1,190 @@
+/**
+ * Date helpers shared by the calendar views
+ * Date keys are 'YYYY-MM-DD' strings - the same format react-native-calendars uses.
+ * The server stores instants in UTC; anything that turns one into a day or a time of day
+ * takes the zone to use (see useTimeZone), falling back to the device zone.
+ */
+import { Event } from '../types';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// The calendar day an instant falls on in the zone (device zone when omitted)
+export const toDateKey = (date: Date, timeZone?: string): string => {
+  if (timeZone) {
+    const { year, month, day } = getZonedTime(date, timeZone);
+    return `${year}-${pad(month)}-${pad(day)}`;
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Midnight at the start of a date key, in the zone (device zone when omitted)
+export const parseDateKey = (dateKey: string, timeZone?: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  if (timeZone) {
+    return zonedTimeToUtc({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone);
+  }
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Monday of the week containing the date
+export const startOfWeek = (dateKey: string): string => {
+  const date = parseDateKey(dateKey);
+  return addDays(dateKey, -((date.getDay() + 6) % 7));
+};
+
+// Month keys are 'YYYY-MM'
+export const addMonths = (monthKey: string, months: number): string => {
+  const [year, month] = monthKey.split('-').map(Number);
+  const total = year * 12 + (month - 1) + months;
+  return `${Math.floor(total / 12)}-${pad((total % 12) + 1)}`;
+};
+
+// First day of the month and first day of the next one (exclusive), as fetch ranges use
+export const monthRange = (monthKey: string): { startDate: string; endDate: string } => ({
+  startDate: `${monthKey}-01`,
+  endDate: `${addMonths(monthKey, 1)}-01`,
+});
+
+export const todayKey = (timeZone?: string): string => toDateKey(new Date(), timeZone);
+
+export const minutesSinceMidnight = (date: Date, timeZone?: string): number => {
+  if (timeZone) {
+    const { hour, minute } = getZonedTime(date, timeZone);
+    return hour * 60 + minute;
+  }
+  return date.getHours() * 60 + date.getMinutes();
+};
+
+// Time zone helpers (IANA names such as 'Europe/Berlin', resolved through Intl)
+const zoneFormatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const zoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!zoneFormatters[timeZone]) {
+    zoneFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  }
+  return zoneFormatters[timeZone];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// First usable zone out of the candidates (user, calendar ...), else the device's
+export const resolveTimeZone = (...candidates: (string | null | undefined)[]): string =>
+  candidates.find((zone): zone is string => !!zone && isValidTimeZone(zone)) || deviceTimeZone();
+
+export interface WallClockTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// What a clock in the zone shows at the given instant
+export const getZonedTime = (date: Date, timeZone: string): WallClockTime => {
+  const parts: { [type: string]: number } = {};
+  zoneFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+// Minutes the zone is ahead of UTC at the given instant (e.g. 120 for Berlin in summer)
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const time = getZonedTime(date, timeZone);
+  const wallClockAsUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+  return Math.round((wallClockAsUtc - date.getTime()) / 60000);
+};
+
+// The instant a wall-clock time in the given zone refers to
+export const zonedTimeToUtc = (time: WallClockTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  const instant = asUtc - offset * 60000;
+  // Second pass for times near a DST change, where the first guess used the other offset
+  const correctedOffset = getTimeZoneOffset(new Date(instant), timeZone);
+  return new Date(correctedOffset === offset ? instant : asUtc - correctedOffset * 60000);
+};
+
+// Form fields: 'YYYY-MM-DD' and 'HH:MM' as seen in the zone
+export const splitDateTime = (value: string | Date, timeZone: string): { date: string; time: string } => {
+  const zoned = getZonedTime(new Date(value), timeZone);
+  return {
+    date: `${zoned.year}-${pad(zoned.month)}-${pad(zoned.day)}`,
+    time: `${pad(zoned.hour)}:${pad(zoned.minute)}`,
+  };
+};
+
+// Back from form fields to the UTC instant the server expects
+export const joinDateTime = (dateKey: string, time: string, timeZone: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedTimeToUtc({ year, month, day, hour, minute, second: 0 }, timeZone).toISOString();
+};
+
+/**
+ * The first and last day an event covers.
+ * All-day events are stored as floating dates ('YYYY-MM-DDT00:00:00'), so their date part is
+ * used as written; timed events are placed in the zone. An end at midnight doesn't reach the next day.
+ */
+export const eventDayRange = (event: Event, timeZone: string): { start: string; end: string } => {
+  if (event.all_day) {
+    const start = event.start_time.slice(0, 10);
+    const end = event.end_time ? event.end_time.slice(0, 10) : start;
+    return { start, end: end < start ? start : end };
+  }
+  const startDate = new Date(event.start_time);
+  const endDate = new Date(Math.max(new Date(event.end_time).getTime() - 1, startDate.getTime()));
+  return { start: toDateKey(startDate, timeZone), end: toDateKey(endDate, timeZone) };
+};
+
+// The day an event is listed under
+export const eventDateKey = (event: Event, timeZone: string): string => eventDayRange(event, timeZone).start;
+
+export const formatTime = (value: string | Date, timeZone: string): string =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone });
+
+export const formatDate = (
+  value: string | Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }
+): string => new Date(value).toLocaleDateString('en-US', { ...options, timeZone });
+
+// For date keys - the calendar day itself, independent of any zone
+export const formatDateKey = (
+  dateKey: string,
+  options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }
+): string => parseDateKey(dateKey).toLocaleDateString('en-US', options);
@@ -0,0 +1,109 @@
+/**
+ * Free-slot finder - the gaps between events long enough to fit a meeting.
+ * Days and working hours are read in the user's zone; slots come back as UTC instants.
+ */
+import { Event } from '../types';
+import { expandEvents } from './recurrence';
+import { addDays, joinDateTime, parseDateKey } from './dateTime';
+
+export interface WorkingHours {
+  start: string;  // 'HH:MM'
+  end: string;
+}
+
+export interface FreeSlotOptions {
+  startDate: string;  // first and last day to search, inclusive
+  endDate: string;
+  durationMinutes: number;
+  timeZone: string;
+  workingHours?: WorkingHours | null;  // whole day when omitted
+  weekdaysOnly?: boolean;
+  now?: Date;  // nothing earlier than this is offered
+}
+
+export interface FreeSlot {
+  date: string;  // the day it was found on
+  start: string;
+  end: string;  // end of the whole gap - the meeting can start anywhere up to end - duration
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const MINUTE_MS = 60000;
+// Suggestions start on a quarter hour rather than at 10:07
+const ROUNDING_MINUTES = 15;
+
+const roundUp = (time: number): number => {
+  const step = ROUNDING_MINUTES * MINUTE_MS;
+  return Math.ceil(time / step) * step;
+};
+
+// Busy spans sorted and merged so the gaps can be read off in one pass
+const mergeSpans = (spans: Span[]): Span[] =>
+  [...spans]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Span[]>((merged, span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+      return merged;
+    }, []);
+
+// Which events keep someone busy: timed, not cancelled and on a calendar they still use
+const isBusy = (event: Event): boolean =>
+  !event.all_day && event.status !== 'cancelled' && event.calendar?.is_active !== false;
+
+/**
+ * Gaps of at least durationMinutes between startDate and endDate, earliest first.
+ * Each day is searched inside the working hours (or midnight to midnight) and a gap
+ * never runs past the end of its day's window.
+ */
+export const findFreeSlots = (events: Event[], options: FreeSlotOptions): FreeSlot[] => {
+  const { startDate, endDate, durationMinutes, timeZone, workingHours, weekdaysOnly } = options;
+  const duration = durationMinutes * MINUTE_MS;
+  if (duration <= 0 || endDate < startDate) return [];
+
+  const rangeStart = parseDateKey(startDate, timeZone);
+  const rangeEnd = parseDateKey(addDays(endDate, 1), timeZone);
+  const busy = mergeSpans(
+    expandEvents(events.filter(isBusy), rangeStart, rangeEnd, timeZone).map(event => ({
+      start: new Date(event.start_time).getTime(),
+      end: new Date(event.end_time).getTime(),
+    }))
+  );
+  const earliest = options.now ? roundUp(options.now.getTime()) : -Infinity;
+
+  const slots: FreeSlot[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const weekday = parseDateKey(date).getDay();
+    if (weekdaysOnly && (weekday === 0 || weekday === 6)) continue;
+
+    const windowStart = new Date(joinDateTime(date, workingHours?.start ?? '00:00', timeZone)).getTime();
+    const windowEnd = workingHours
+      ? new Date(joinDateTime(date, workingHours.end, timeZone)).getTime()
+      : parseDateKey(addDays(date, 1), timeZone).getTime();
+
+    let cursor = Math.max(windowStart, earliest);
+    const addGap = (gapEnd: number) => {
+      if (gapEnd - cursor >= duration) {
+        slots.push({ date, start: new Date(cursor).toISOString(), end: new Date(gapEnd).toISOString() });
+      }
+    };
+
+    for (const span of busy) {
+      if (span.end <= cursor) continue;
+      if (span.start >= windowEnd) break;
+      addGap(Math.min(span.start, windowEnd));
+      cursor = Math.max(cursor, roundUp(span.end));
+    }
+    addGap(windowEnd);
+  }
+
+  return slots;
+};
@@ -0,0 +1,118 @@
+/**
+ * Goal history helpers - turns a before/after pair of a goal into timeline entries
+ */
+import { Goal, GoalHistoryEntry, GoalPeriodOutcome } from '../types';
+import { formatDateKey } from './dateTime';
+
+let sequence = 0;
+const entryId = (timestamp: string) => `${Date.parse(timestamp)}_${(sequence++).toString(36)}`;
+
+// What changed between two versions of a goal, oldest-first; `before` is missing for new goals
+export const diffGoal = (
+  before: Goal | undefined,
+  after: Partial<Goal> & { id: string },
+  timestamp: string = new Date().toISOString()
+): GoalHistoryEntry[] => {
+  const entries: GoalHistoryEntry[] = [];
+  const add = (type: GoalHistoryEntry['type'], from?: GoalHistoryEntry['from'], to?: GoalHistoryEntry['to']) => {
+    entries.push({ id: entryId(timestamp), goalId: after.id, type, timestamp, from, to });
+  };
+
+  if (!before) {
+    add('created', null, after.current_value ?? 0);
+    if (after.is_completed) add('completed');
+    return entries;
+  }
+
+  if (after.current_value !== undefined && after.current_value !== before.current_value) {
+    add('progress', before.current_value ?? 0, after.current_value);
+  }
+  if (after.target_value !== undefined && after.target_value !== before.target_value) {
+    add('target', before.target_value ?? null, after.target_value ?? null);
+  }
+  if (after.is_completed !== undefined && after.is_completed !== before.is_completed) {
+    add(after.is_completed ? 'completed' : 'reopened');
+  } else if (after.status !== undefined && after.status !== before.status) {
+    // Completion already implies its status change
+    add('status', before.status, after.status);
+  }
+
+  return entries;
+};
+
+// A logged amount - the progress change it caused is part of the same entry
+export const checkInEntry = (
+  goal: Goal,
+  amount: number,
+  note?: string,
+  timestamp: string = new Date().toISOString()
+): GoalHistoryEntry => ({
+  id: entryId(timestamp),
+  goalId: goal.id,
+  type: 'checkin',
+  timestamp,
+  from: goal.current_value,
+  to: Math.max(0, goal.current_value + amount),
+  amount,
+  note: note?.trim() || undefined,
+});
+
+// A period closing - keeps where the goal ended up before it resets for the next period
+export const rolloverEntry = (
+  goal: Goal,
+  period: string,
+  outcome: GoalPeriodOutcome,
+  timestamp: string = new Date().toISOString()
+): GoalHistoryEntry => ({
+  id: entryId(timestamp),
+  goalId: goal.id,
+  type: 'rollover',
+  timestamp,
+  from: goal.current_value,
+  to: 0,
+  period,
+  outcome,
+});
+
+/**
+ * Drops a goal's oldest entries once it has more than `max` (entries are kept oldest-first).
+ * Rollovers don't count and are never dropped - streaks rely on them for periods whose
+ * check-ins are gone.
+ */
+export const trimGoalHistory = (entries: GoalHistoryEntry[], goalId: string, max: number): GoalHistoryEntry[] => {
+  const trimmable = (entry: GoalHistoryEntry) => entry.goalId === goalId && entry.type !== 'rollover';
+  let overflow = entries.filter(trimmable).length - max;
+  if (overflow <= 0) return entries;
+  return entries.filter(entry => !(trimmable(entry) && overflow-- > 0));
+};
+
+export const describeHistoryEntry = (entry: GoalHistoryEntry, unit?: string): string => {
+  const withUnit = (value: GoalHistoryEntry['from']) =>
+    value === null || value === undefined ? 'none' : unit ? `${value} ${unit}` : String(value);
+
+  switch (entry.type) {
+    case 'created':
+      return 'Goal created';
+    case 'progress': {
+      const delta = Number(entry.to) - Number(entry.from);
+      const sign = delta > 0 ? '+' : '';
+      return `Progress ${withUnit(entry.from)} → ${withUnit(entry.to)} (${sign}${delta})`;
+    }
+    case 'checkin': {
+      const amount = entry.amount ?? 0;
+      return `Checked in ${amount > 0 ? '+' : ''}${withUnit(amount)} (now ${withUnit(entry.to)})`;
+    }
+    case 'target':
+      return `Target ${withUnit(entry.from)} → ${withUnit(entry.to)}`;
+    case 'completed':
+      return 'Marked complete';
+    case 'reopened':
+      return 'Marked not complete';
+    case 'status':
+      return `Status ${entry.from} → ${entry.to}`;
+    case 'rollover': {
+      const since = entry.period ? formatDateKey(entry.period, { month: 'short', day: 'numeric', year: 'numeric' }) : 'last period';
+      return `Period from ${since} closed: ${entry.outcome ?? 'missed'} at ${withUnit(entry.from)}`;
+    }
+  }
+};
@@ -0,0 +1,190 @@
+/**
+ * Goal period helpers - splits a goal's life into periods of its frequency
+ * (days, Monday-start weeks, months, years) and works out streaks from its history.
+ * Periods are named by the date key of their first day, in the user's time zone.
+ */
+import { Goal, GoalFrequency, GoalHistoryEntry, GoalPeriodOutcome } from '../types';
+import { addDays, startOfWeek, toDateKey } from './dateTime';
+
+export interface GoalPeriod {
+  start: string;
+  outcome: GoalPeriodOutcome;
+}
+
+export interface GoalStreak {
+  current: number;
+  longest: number;
+  completedThisPeriod: boolean;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// First day of the period containing the date
+export const periodStart = (dateKey: string, frequency: GoalFrequency): string => {
+  switch (frequency) {
+    case 'daily':
+      return dateKey;
+    case 'weekly':
+      return startOfWeek(dateKey);
+    case 'monthly':
+      return `${dateKey.slice(0, 7)}-01`;
+    case 'yearly':
+      return `${dateKey.slice(0, 4)}-01-01`;
+  }
+};
+
+export const nextPeriodStart = (start: string, frequency: GoalFrequency): string => {
+  const [year, month] = start.split('-').map(Number);
+  switch (frequency) {
+    case 'daily':
+      return addDays(start, 1);
+    case 'weekly':
+      return addDays(start, 7);
+    case 'monthly':
+      return month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`;
+    case 'yearly':
+      return `${year + 1}-01-01`;
+  }
+};
+
+const PERIOD_UNITS: Record<GoalFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+export const periodUnit = (frequency: GoalFrequency): string => PERIOD_UNITS[frequency];
+
+// "5-day streak", "1-week streak"
+export const formatStreak = (count: number, frequency: GoalFrequency): string =>
+  `${count}-${periodUnit(frequency)} streak`;
+
+const isCompletion = (entry: GoalHistoryEntry) =>
+  entry.type === 'completed' || (entry.type === 'status' && entry.to === 'completed');
+
+/**
+ * The outcome of every period from the goal's start up to today, oldest first.
+ * A period is completed when the goal was ticked off during it (and not reopened in the same period),
+ * paused when the goal was paused at any point in it, and the current period stays open until it ends.
+ */
+export const goalPeriods = (
+  goal: Goal,
+  entries: GoalHistoryEntry[],
+  today: string,
+  timeZone?: string
+): GoalPeriod[] => {
+  const { frequency } = goal;
+  const periodOf = (entry: GoalHistoryEntry) =>
+    periodStart(toDateKey(new Date(entry.timestamp), timeZone), frequency);
+
+  const sorted = entries
+    .filter(entry => entry.goalId === goal.id && entry.type !== 'rollover')
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  // Outcomes archived when a period rolled over - trimming never drops these, so they outlast the check-ins
+  const archived = new Map(entries
+    .filter(entry => entry.goalId === goal.id && entry.type === 'rollover' && entry.period)
+    .map(entry => [entry.period!, entry.outcome]));
+  const hasStatusHistory = sorted.some(entry => entry.type === 'status');
+
+  const current = periodStart(today, frequency);
+  const periods: GoalPeriod[] = [];
+  let start = periodStart(goal.start_date.slice(0, 10), frequency);
+  let index = 0;
+  let paused = false;
+
+  while (start <= current) {
+    let completed = false;
+    let pausedDuring = paused;
+
+    // Entries before the first period (start date moved later) only set the starting state
+    for (; index < sorted.length && periodOf(sorted[index]) <= start; index++) {
+      const entry = sorted[index];
+      const inPeriod = periodOf(entry) === start;
+      if (entry.type === 'status') {
+        paused = entry.to === 'paused';
+        pausedDuring = pausedDuring || paused;
+      }
+      if (inPeriod && isCompletion(entry)) completed = true;
+      if (inPeriod && entry.type === 'reopened') completed = false;
+    }
+
+    // Paused before this device kept history
+    if (start === current && !hasStatusHistory && goal.status === 'paused') {
+      pausedDuring = true;
+    }
+
+    let outcome: GoalPeriodOutcome;
+    if (completed || archived.get(start) === 'completed') outcome = 'completed';
+    else if (pausedDuring) outcome = 'paused';
+    else outcome = start === current ? 'open' : 'missed';
+
+    periods.push({ start, outcome });
+    start = nextPeriodStart(start, frequency);
+  }
+
+  return periods;
+};
+
+// Paused periods and the period still in progress neither extend nor break a streak
+export const computeStreak = (periods: GoalPeriod[]): GoalStreak => {
+  let run = 0;
+  let longest = 0;
+
+  periods.forEach(period => {
+    if (period.outcome === 'completed') {
+      run += 1;
+      longest = Math.max(longest, run);
+    } else if (period.outcome === 'missed') {
+      run = 0;
+    }
+  });
+
+  const last = periods[periods.length - 1];
+  return { current: run, longest, completedThisPeriod: last?.outcome === 'completed' };
+};
+
+export const goalStreak = (
+  goal: Goal,
+  entries: GoalHistoryEntry[],
+  today: string,
+  timeZone?: string
+): GoalStreak => computeStreak(goalPeriods(goal, entries, today, timeZone));
+
+// What a rollover resets: completion and progress start again from nothing
+const isReset = (goal: Goal) => !goal.is_completed && goal.status !== 'completed' && !goal.current_value;
+
+/**
+ * The period whose state the goal still carries, when that period is over and needs rolling over.
+ * The state belongs to the period of the last change this device recorded, else the server's updated_at.
+ */
+export const pendingRollover = (
+  goal: Goal,
+  entries: GoalHistoryEntry[],
+  today: string,
+  timeZone?: string
+): { period: string; outcome: Exclude<GoalPeriodOutcome, 'open'> } | null => {
+  if (goal.status === 'cancelled' || isReset(goal)) return null;
+
+  const lastChange = entries
+    .filter(entry => entry.goalId === goal.id && entry.type !== 'created')
+    .reduce((latest, entry) => (entry.timestamp > latest ? entry.timestamp : latest), '');
+  const changedAt = lastChange || goal.updated_at;
+  if (!changedAt) return null;
+
+  const period = periodStart(toDateKey(new Date(changedAt), timeZone), goal.frequency);
+  if (period >= periodStart(today, goal.frequency)) return null;
+
+  // The goal is still ticked off from that period even when this device didn't see it happen
+  if (goal.is_completed) return { period, outcome: 'completed' };
+  const closed = goalPeriods(goal, entries, today, timeZone).find(p => p.start === period);
+  return { period, outcome: closed?.outcome === 'paused' ? 'paused' : 'missed' };
+};
+
+// The fields a rollover writes back to the server
+export const rolloverUpdates = (goal: Goal): Partial<Goal> => ({
+  is_completed: false,
+  status: goal.status === 'completed' ? 'active' : goal.status,
+  current_value: 0,
+  progress_percentage: 0,
+});
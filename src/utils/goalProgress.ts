@@ -0,0 +1,29 @@
+/**
+ * Goal progress helpers - check-in maths shared by the goals hook and screens
+ */
+import { Goal } from '../types';
+
+// Whole percent of the target reached, capped at 100; goals without a target keep the server's figure
+export const progressPercentage = (goal: Pick<Goal, 'current_value' | 'target_value' | 'progress_percentage'>): number => {
+  if (!goal.target_value || goal.target_value <= 0) {
+    return goal.progress_percentage ?? 0;
+  }
+  return Math.min(100, Math.round((goal.current_value / goal.target_value) * 100));
+};
+
+// The fields a check-in of `amount` changes; progress never drops below zero
+export const applyCheckIn = (goal: Goal, amount: number): Pick<Goal, 'current_value' | 'progress_percentage'> => {
+  const current_value = Math.max(0, goal.current_value + amount);
+  return {
+    current_value,
+    progress_percentage: progressPercentage({ ...goal, current_value }),
+  };
+};
+
+// Parse what the user typed into the "log amount" box - signed, decimals allowed
+export const parseCheckInAmount = (text: string): number | null => {
+  const trimmed = text.trim().replace(',', '.');
+  if (!/^[+-]?\d+(\.\d+)?$/.test(trimmed)) return null;
+  const amount = Number(trimmed);
+  return amount === 0 ? null : amount;
+};
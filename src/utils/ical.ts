@@ -0,0 +1,558 @@
+/**
+ * iCalendar (RFC 5545) import and export
+ * Import turns .ics text into events this app can create - only VEVENTs are read;
+ * alarms, to-dos and free/busy blocks are skipped. Export writes events back out.
+ */
+import { Platform, Share } from 'react-native';
+import { Event, EventWriteData } from '../types';
+import { API_CONFIG } from '../constants/config';
+import { formatRRule, formatRRuleDate, parseRRule, parseRRuleDate } from './recurrence';
+import { addDays, getTimeZoneOffset, isValidTimeZone, toDateKey, zonedTimeToUtc } from './dateTime';
+
+export interface ICalEvent {
+  uid?: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start_time: string;
+  end_time: string;
+  all_day: boolean;
+  status: Event['status'];
+  recurrence_rule?: string;
+  recurrence_exceptions?: string[];
+  warnings: string[];  // things that were imported approximately
+}
+
+export interface ICalParseError {
+  index: number;  // position of the VEVENT in the file, from 0
+  summary?: string;
+  message: string;
+}
+
+export interface ICalParseResult {
+  calendarName?: string;
+  events: ICalEvent[];
+  errors: ICalParseError[];
+}
+
+interface ContentLine {
+  name: string;
+  params: { [name: string]: string };
+  value: string;
+}
+
+// What buildEvent reads - RECURRENCE-ID and SEQUENCE only matter while the file is put together
+type ParsedEvent = ICalEvent & { recurrenceId?: string; sequence: number };
+
+interface ParsedDate {
+  date: Date;
+  allDay: boolean;
+  dateKey: string;  // local calendar day - only meaningful for all-day values
+  warning?: string;
+}
+
+// RRULE parts our expansion can't honour - importing them would show the wrong days
+const UNSUPPORTED_RRULE_PARTS = ['BYSETPOS', 'BYWEEKNO', 'BYYEARDAY', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+const STATUSES: { [value: string]: Event['status'] } = {
+  CONFIRMED: 'confirmed',
+  TENTATIVE: 'tentative',
+  CANCELLED: 'cancelled',
+};
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: ContentLine['params'] = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// TZIDs are usually IANA names, sometimes with a vendor prefix ("/mozilla.org/.../Europe/Berlin")
+const resolveTimeZone = (tzid: string): string | null => {
+  if (isValidTimeZone(tzid)) return tzid;
+  const match = tzid.match(/([A-Za-z_]+\/[A-Za-z_+\-0-9]+)$/);
+  return match && isValidTimeZone(match[1]) ? match[1] : null;
+};
+
+const parseDateValue = (value: string, params: ContentLine['params']): ParsedDate => {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === 'DATE') {
+    if (!dateOnly) throw new Error(`Invalid date: ${value}`);
+    const [, year, month, day] = dateOnly;
+    const date = new Date(+year, +month - 1, +day);
+    return { date, allDay: true, dateKey: toDateKey(date) };
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) throw new Error(`Invalid date-time: ${value}`);
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const time = { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second };
+
+  let date: Date;
+  let warning: string | undefined;
+  if (utc) {
+    date = new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second));
+  } else if (params.TZID && resolveTimeZone(params.TZID)) {
+    date = zonedTimeToUtc(time, resolveTimeZone(params.TZID)!);
+  } else {
+    // Floating time (or a zone we don't know) - read it as device local time
+    date = new Date(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+    if (params.TZID) {
+      warning = `Unknown time zone "${params.TZID}" - times were read as local time`;
+    }
+  }
+  return { date, allDay: false, dateKey: toDateKey(date), warning };
+};
+
+const parseDuration = (value: string): number => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) throw new Error(`Invalid duration: ${value}`);
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = ((+weeks * 7 + +days) * 24 * 3600 + +hours * 3600 + +minutes * 60 + +seconds) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+const parseRecurrence = (value: string): string => {
+  const parts = value.toUpperCase().split(';').map(pair => pair.split('=')[0]);
+  const unsupported = parts.find(part => UNSUPPORTED_RRULE_PARTS.includes(part));
+  if (unsupported) {
+    throw new Error(`Repeat rule uses ${unsupported}, which isn't supported`);
+  }
+  // Normalises UNTIL to UTC and validates FREQ
+  return formatRRule(parseRRule(value));
+};
+
+// Build one app event from the lines of a VEVENT
+const buildEvent = (lines: ContentLine[]): ParsedEvent => {
+  const first = (name: string) => lines.find(line => line.name === name);
+  const warnings: string[] = [];
+
+  const startLine = first('DTSTART');
+  if (!startLine) throw new Error('Missing DTSTART');
+  const start = parseDateValue(startLine.value, startLine.params);
+  if (start.warning) warnings.push(start.warning);
+
+  let endDate: Date;
+  const endLine = first('DTEND');
+  const durationLine = first('DURATION');
+  if (endLine) {
+    const end = parseDateValue(endLine.value, endLine.params);
+    endDate = end.date;
+  } else if (durationLine) {
+    endDate = new Date(start.date.getTime() + parseDuration(durationLine.value));
+  } else {
+    // RFC 5545: a date lasts the whole day, a date-time is an instant
+    endDate = start.allDay ? new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1) : start.date;
+  }
+  if (endDate < start.date) throw new Error('Event ends before it starts');
+
+  let startTime: string;
+  let endTime: string;
+  if (start.allDay) {
+    // The app stores all-day events as first day 00:00 .. last day 23:59:59; iCal's end is exclusive
+    const lastDay = endDate > start.date ? addDays(toDateKey(endDate), -1) : start.dateKey;
+    startTime = `${start.dateKey}T00:00:00`;
+    endTime = `${lastDay < start.dateKey ? start.dateKey : lastDay}T23:59:59`;
+  } else {
+    startTime = start.date.toISOString();
+    endTime = endDate.toISOString();
+  }
+
+  const ruleLine = first('RRULE');
+  const exceptions = lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(',').map(value => parseDateValue(value, line.params).date.toISOString()));
+  const recurrenceIdLine = first('RECURRENCE-ID');
+
+  const summary = first('SUMMARY');
+  const description = first('DESCRIPTION');
+  const location = first('LOCATION');
+  const status = first('STATUS');
+
+  return {
+    uid: first('UID')?.value,
+    title: summary ? unescapeText(summary.value).trim() || 'Untitled event' : 'Untitled event',
+    description: description ? unescapeText(description.value) : undefined,
+    location: location ? unescapeText(location.value) : undefined,
+    start_time: startTime,
+    end_time: endTime,
+    all_day: start.allDay,
+    status: STATUSES[status?.value.toUpperCase() ?? ''] ?? 'confirmed',
+    recurrence_rule: ruleLine ? parseRecurrence(ruleLine.value) : undefined,
+    recurrence_exceptions: exceptions.length > 0 ? exceptions : undefined,
+    recurrenceId: recurrenceIdLine
+      ? parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params).date.toISOString()
+      : undefined,
+    sequence: Number(first('SEQUENCE')?.value) || 0,
+    warnings,
+  };
+};
+
+export const parseICal = (text: string): ICalParseResult => {
+  const result: ICalParseResult = { events: [], errors: [] };
+  const parsed: ParsedEvent[] = [];
+
+  let current: ContentLine[] | null = null;
+  let nested = 0;  // VALARM and friends inside a VEVENT
+  let index = 0;
+
+  unfoldLines(text).forEach(rawLine => {
+    const line = parseContentLine(rawLine);
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      if (current) {
+        nested++;
+      } else if (line.value.toUpperCase() === 'VEVENT') {
+        current = [];
+      }
+      return;
+    }
+
+    if (line.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && line.value.toUpperCase() === 'VEVENT') {
+        const lines: ContentLine[] = current;
+        current = null;
+        try {
+          parsed.push(buildEvent(lines));
+        } catch (error: any) {
+          const summary = lines.find(l => l.name === 'SUMMARY');
+          result.errors.push({
+            index,
+            summary: summary ? unescapeText(summary.value) : undefined,
+            message: error.message || 'Could not read event',
+          });
+        }
+        index++;
+      }
+      return;
+    }
+
+    if (current) {
+      if (nested === 0) current.push(line);
+    } else if (line.name === 'X-WR-CALNAME') {
+      result.calendarName = unescapeText(line.value);
+    }
+  });
+
+  if (index === 0) {
+    throw new Error('No events found - is this an iCalendar (.ics) file?');
+  }
+
+  // The same event listed more than once (feeds that append updated copies): keep the
+  // highest SEQUENCE, or the last copy when they tie
+  const copyKey = (event: ParsedEvent) => `${event.uid}|${event.recurrenceId ?? ''}`;
+  const latest = new Map<string, ParsedEvent>();
+  parsed.forEach(event => {
+    const kept = event.uid ? latest.get(copyKey(event)) : undefined;
+    if (event.uid && (!kept || event.sequence >= kept.sequence)) latest.set(copyKey(event), event);
+  });
+  const unique = parsed.filter(event => !event.uid || latest.get(copyKey(event)) === event);
+
+  // A modified instance of a repeating event: skip that date in the series and keep the
+  // instance as its own event, the same way the app saves "this event only" edits
+  unique.forEach(event => {
+    if (!event.recurrenceId) return;
+    const series = unique.find(other => other.uid === event.uid && !other.recurrenceId && other.recurrence_rule);
+    if (series) {
+      series.recurrence_exceptions = [...(series.recurrence_exceptions || []), event.recurrenceId];
+    }
+    event.uid = `${event.uid}_${event.recurrenceId}`;
+  });
+
+  result.events = unique.map(({ recurrenceId: _recurrenceId, sequence: _sequence, ...event }) => event);
+  return result;
+};
+
+// Payload for apiService.createEvent
+export const toEventData = (event: ICalEvent, calendarId: string): EventWriteData => ({
+  title: event.title,
+  description: event.description,
+  location: event.location,
+  start_time: event.start_time,
+  end_time: event.end_time,
+  all_day: event.all_day,
+  status: event.status,
+  is_private: false,
+  calendar: calendarId,
+  recurrence_rule: event.recurrence_rule ?? null,
+  recurrence_exceptions: event.recurrence_exceptions,
+  ical_uid: event.uid,
+});
+
+// Same UID anywhere, or same title and start in the target calendar
+export const findDuplicate = (event: ICalEvent, existing: Event[], calendarId: string): Event | undefined => {
+  const start = new Date(event.start_time).getTime();
+  const title = event.title.trim().toLowerCase();
+  return existing.find(other =>
+    (!!event.uid && other.ical_uid === event.uid) ||
+    (other.calendar?.id === calendarId &&
+      other.title.trim().toLowerCase() === title &&
+      new Date(other.start_time).getTime() === start)
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Export
+
+export interface ICalExportOptions {
+  calendarName?: string;
+  timeZone?: string;  // write wall-clock times in this zone (plus a VTIMEZONE) instead of UTC
+  now?: Date;  // DTSTAMP - defaults to the current time
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const UID_DOMAIN = API_CONFIG.BASE_URL.replace(/^https?:\/\//, '');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets are split, each continuation starting with a space.
+// Splits happen between characters so multi-byte UTF-8 sequences stay whole.
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// YYYYMMDDTHHMMSS as the wall clock reads in the zone
+const formatZoned = (date: Date, timeZone: string): string =>
+  formatRRuleDate(new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * 60000)).slice(0, -1);
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+// All-day events are stored as first day 00:00 .. last day 23:59:59 - read the days straight off the strings
+const dateValue = (dateKey: string) => dateKey.replace(/-/g, '');
+
+const timeProperty = (name: string, date: Date, timeZone?: string): string =>
+  timeZone ? `${name};TZID=${timeZone}:${formatZoned(date, timeZone)}` : `${name}:${formatRRuleDate(date)}`;
+
+// VTIMEZONE listing every offset change the zone has between the given years
+const buildTimeZone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  let previousTime = Date.UTC(fromYear, 0, 1);
+  let previousOffset = getTimeZoneOffset(new Date(previousTime), timeZone);
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    `DTSTART:${formatRRuleDate(new Date(previousTime + previousOffset * 60000)).slice(0, -1)}`,
+    `TZOFFSETFROM:${formatOffset(previousOffset)}`,
+    `TZOFFSETTO:${formatOffset(previousOffset)}`,
+    'END:STANDARD',
+  ];
+
+  const end = Date.UTC(toYear + 1, 0, 1);
+  for (let time = previousTime + DAY_MS; time <= end; time += DAY_MS) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previousTime;
+      let high = time;
+      while (high - low > 60000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      const component = offset > previousOffset ? 'DAYLIGHT' : 'STANDARD';
+      lines.push(
+        `BEGIN:${component}`,
+        // Onset is given in the local time in force before the change
+        `DTSTART:${formatRRuleDate(new Date(high + previousOffset * 60000)).slice(0, -1)}`,
+        `TZOFFSETFROM:${formatOffset(previousOffset)}`,
+        `TZOFFSETTO:${formatOffset(offset)}`,
+        `END:${component}`,
+      );
+      previousOffset = offset;
+    }
+    previousTime = time;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+const eventLines = (event: Event, stamp: string, timeZone?: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.ical_uid || `${event.id}@${UID_DOMAIN}`}`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (event.all_day) {
+    const firstDay = event.start_time.slice(0, 10);
+    const lastDay = event.end_time.slice(0, 10);
+    lines.push(
+      `DTSTART;VALUE=DATE:${dateValue(firstDay)}`,
+      // iCal's end date is exclusive
+      `DTEND;VALUE=DATE:${dateValue(addDays(lastDay < firstDay ? firstDay : lastDay, 1))}`,
+    );
+  } else {
+    lines.push(
+      timeProperty('DTSTART', new Date(event.start_time), timeZone),
+      timeProperty('DTEND', new Date(event.end_time), timeZone),
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  lines.push(`STATUS:${event.status.toUpperCase()}`);
+  if (event.is_private) lines.push('CLASS:PRIVATE');
+
+  if (event.recurrence_rule) {
+    let rule = event.recurrence_rule.replace(/^RRULE:/i, '');
+    if (event.all_day) {
+      // UNTIL has to be a plain date when DTSTART is one
+      rule = rule.replace(/UNTIL=([0-9TZ]+)/i, (_, until) => `UNTIL=${dateValue(toDateKey(parseRRuleDate(until)))}`);
+    }
+    lines.push(`RRULE:${rule}`);
+    (event.recurrence_exceptions || []).forEach(exception => {
+      const date = new Date(exception);
+      lines.push(event.all_day
+        ? `EXDATE;VALUE=DATE:${dateValue(exception.slice(0, 10))}`
+        : timeProperty('EXDATE', date, timeZone));
+    });
+  }
+
+  if (event.created_at) lines.push(`CREATED:${formatRRuleDate(new Date(event.created_at))}`);
+  if (event.updated_at) lines.push(`LAST-MODIFIED:${formatRRuleDate(new Date(event.updated_at))}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Last year a timed event can land in - open-ended series get ten years of zone rules
+const lastYearOf = (event: Event): number => {
+  const endYear = new Date(event.end_time).getUTCFullYear();
+  if (!event.recurrence_rule) return endYear;
+  const { until } = parseRRule(event.recurrence_rule);
+  return until ? new Date(until).getUTCFullYear() : endYear + 10;
+};
+
+export const serializeICal = (events: Event[], options: ICalExportOptions = {}): string => {
+  const stamp = formatRRuleDate(options.now || new Date());
+  // UTC needs no VTIMEZONE - plain Z times say it already
+  const timeZone = options.timeZone && options.timeZone !== 'UTC' && isValidTimeZone(options.timeZone)
+    ? options.timeZone
+    : undefined;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Calendar App//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${timeZone}`);
+    const timedYears = events
+      .filter(event => !event.all_day)
+      .flatMap(event => [new Date(event.start_time).getUTCFullYear(), lastYearOf(event)]);
+    if (timedYears.length > 0) {
+      lines.push(...buildTimeZone(timeZone, Math.min(...timedYears), Math.max(...timedYears) + 1));
+    }
+  }
+
+  events.forEach(event => lines.push(...eventLines(event, stamp, timeZone)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+// Safe file name for a shared .ics
+export const icsFileName = (name: string): string =>
+  `${name.trim().replace(/[^A-Za-z0-9-_ ]+/g, '').replace(/\s+/g, '-') || 'calendar'}.ics`;
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// UTF-8 bytes of the text, base64 encoded
+const toBase64 = (text: string): string => {
+  const bytes = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    // Three bytes make four 6-bit digits
+    const chunk = bytes.charCodeAt(i) * 65536 + (bytes.charCodeAt(i + 1) || 0) * 256 + (bytes.charCodeAt(i + 2) || 0);
+    const digit = (shift: number) => BASE64_DIGITS[Math.floor(chunk / 64 ** shift) % 64];
+    output += digit(3) + digit(2);
+    output += i + 1 < bytes.length ? digit(1) : '=';
+    output += i + 2 < bytes.length ? digit(0) : '=';
+  }
+  return output;
+};
+
+// The .ics as a text/calendar data URL - iOS sharing hands it to other apps as a calendar attachment
+export const icsDataUrl = (ics: string): string => `data:text/calendar;base64,${toBase64(ics)}`;
+
+// Opens the share sheet for an .ics - iOS shares the data URL as a text/calendar attachment;
+// Android's share sheet only takes text
+export const shareICal = (name: string, ics: string) =>
+  Share.share(Platform.OS === 'ios'
+    ? { title: icsFileName(name), url: icsDataUrl(ics) }
+    : { title: icsFileName(name), message: ics });
@@ -0,0 +1,113 @@
+/**
+ * Multi-day events - spreads events over every day they cover
+ * Used for the month grid's period bars and the per-day event list ("Day 2 of 3").
+ */
+import { Event } from '../types';
+import { addDays, eventDayRange } from './dateTime';
+
+export interface DayEntry {
+  event: Event;
+  dayIndex: number;  // 1-based position of this day within the event
+  dayCount: number;
+}
+
+export interface PeriodMark {
+  color: string;
+  startingDay: boolean;
+  endingDay: boolean;
+}
+
+export interface DayRange {
+  start: string;
+  end: string;  // inclusive
+}
+
+// Bars stacked under a day on the month grid - more than this won't fit the cell
+export const MAX_PERIOD_LANES = 3;
+
+const dayCountBetween = (start: string, end: string): number =>
+  Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86400000) + 1;
+
+/**
+ * Every day the event covers, in order, optionally clipped to a range.
+ * Timed events count each day they touch; all-day events run through their end date.
+ */
+export const eventDays = (event: Event, timeZone: string, range?: DayRange): string[] => {
+  const { start, end } = eventDayRange(event, timeZone);
+  const first = range && range.start > start ? range.start : start;
+  const last = range && range.end < end ? range.end : end;
+
+  const days: string[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+// Events listed under each day they cover, in the order given
+export const groupEventsByDay = (
+  events: Event[],
+  timeZone: string,
+  range?: DayRange,
+): { [dateKey: string]: DayEntry[] } => {
+  const grouped: { [dateKey: string]: DayEntry[] } = {};
+
+  events.forEach(event => {
+    const { start, end } = eventDayRange(event, timeZone);
+    const dayCount = dayCountBetween(start, end);
+    eventDays(event, timeZone, range).forEach(dateKey => {
+      if (!grouped[dateKey]) {
+        grouped[dateKey] = [];
+      }
+      grouped[dateKey].push({ event, dayIndex: dayCountBetween(start, dateKey), dayCount });
+    });
+  });
+
+  return grouped;
+};
+
+/**
+ * Period bars for the month grid, keyed by day.
+ * Each event keeps the same lane on every day it covers so its bar draws as one continuous line;
+ * days with a gap below a busy lane get a transparent filler to hold the others in place.
+ */
+export const buildPeriodMarks = (
+  events: Event[],
+  timeZone: string,
+  colorFor: (event: Event) => string,
+  range?: DayRange,
+  maxLanes = MAX_PERIOD_LANES,
+): { [dateKey: string]: PeriodMark[] } => {
+  // Earlier events first; on the same day the longer one takes the top lane
+  const spans = events
+    .map(event => ({ event, ...eventDayRange(event, timeZone) }))
+    .sort((a, b) => a.start.localeCompare(b.start) || b.end.localeCompare(a.end));
+
+  const laneEnds: string[] = [];
+  const lanesByDay: { [dateKey: string]: (PeriodMark | undefined)[] } = {};
+
+  spans.forEach(({ event, start, end }) => {
+    let lane = laneEnds.findIndex(laneEnd => laneEnd < start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = end;
+    if (lane >= maxLanes) return;
+
+    const color = colorFor(event);
+    eventDays(event, timeZone, range).forEach(dateKey => {
+      if (!lanesByDay[dateKey]) {
+        lanesByDay[dateKey] = [];
+      }
+      lanesByDay[dateKey][lane] = { color, startingDay: dateKey === start, endingDay: dateKey === end };
+    });
+  });
+
+  const marks: { [dateKey: string]: PeriodMark[] } = {};
+  Object.keys(lanesByDay).forEach(dateKey => {
+    marks[dateKey] = Array.from(lanesByDay[dateKey], period =>
+      period ?? { color: 'transparent', startingDay: false, endingDay: false }
+    );
+  });
+  return marks;
+};
@@ -0,0 +1,62 @@
+/**
+ * Pagination helpers - list endpoints may answer with a bare array or a DRF page
+ * ({ count, next, previous, results }). Both are read as pages so callers don't care which.
+ */
+import { PaginatedResponse } from '../types';
+
+export type ListResponse<T> = T[] | PaginatedResponse<T>;
+
+// More pages than this is treated as a misbehaving server rather than paged forever
+export const MAX_PAGES = 100;
+
+export const isPaginated = <T>(data: ListResponse<T>): data is PaginatedResponse<T> =>
+  !Array.isArray(data) && !!data && Array.isArray((data as PaginatedResponse<T>).results);
+
+// A bare array is a single page holding everything
+export const toPage = <T>(data: ListResponse<T>): PaginatedResponse<T> => {
+  if (isPaginated(data)) return data;
+  if (Array.isArray(data)) return { count: data.length, next: null, previous: null, results: data };
+  throw new Error('Unexpected list response from the server');
+};
+
+/**
+ * Walks the pages of a list, yielding each page's items as it arrives.
+ * `fetchPage` is handed the first URL, then each page's `next`.
+ * Throws rather than ending early when `next` loops back or the page limit is hit,
+ * so a partial list is never taken for the whole one.
+ */
+export async function* paginate<T>(
+  fetchPage: (url: string) => Promise<ListResponse<T>>,
+  url: string,
+  maxPages: number = MAX_PAGES,
+): AsyncGenerator<T[], void, undefined> {
+  const seen = new Set<string>();
+  let nextUrl: string | null = url;
+
+  while (nextUrl) {
+    if (seen.has(nextUrl)) {
+      throw new Error(`List paging looped back to ${nextUrl}`);
+    }
+    if (seen.size >= maxPages) {
+      throw new Error(`List has more than ${maxPages} pages`);
+    }
+    seen.add(nextUrl);
+    const page: PaginatedResponse<T> = toPage(await fetchPage(nextUrl));
+    yield page.results;
+    nextUrl = page.next;
+  }
+}
+
+// Every item across all pages
+export const collectPages = async <T>(
+  fetchPage: (url: string) => Promise<ListResponse<T>>,
+  url: string,
+  onPage?: (items: T[]) => void,
+): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const page of paginate(fetchPage, url)) {
+    items.push(...page);
+    onPage?.(page);
+  }
+  return items;
+};
@@ -0,0 +1,300 @@
+/**
+ * Quick add - turns "Lunch with Sam tomorrow 1pm at Cafe Luna for 90 min" into an event.
+ * Dates are read relative to a reference day (the day selected in the calendar) and times
+ * in the user's zone. Pasted emails with Subject/When/Where lines are understood too.
+ */
+import { addDays, joinDateTime, parseDateKey } from './dateTime';
+
+export interface QuickAddResult {
+  title: string;
+  location?: string;
+  all_day: boolean;
+  startDate: string;  // 'YYYY-MM-DD'
+  endDate: string;
+  startTime?: string;  // 'HH:MM', absent for all-day events
+  endTime?: string;
+  start_time: string;  // what the server gets - UTC instants, or floating dates when all day
+  end_time: string;
+}
+
+interface Clock {
+  hour: number;
+  minute: number;
+  meridiem?: 'a' | 'p';
+}
+
+// What one piece of text said; the rest is left over for the title
+interface Extracted {
+  rest: string;
+  date?: string;
+  start?: Clock;
+  end?: Clock;
+  durationMinutes?: number;
+  allDay: boolean;
+  location?: string;
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY = 'sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:s|nesday)?|thu(?:rs?(?:day)?)?|fri(?:day)?|sat(?:urday)?';
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// A time of day, with or without minutes and am/pm
+const CLOCK = '(?:noon|midnight|\\d{1,2}(?::\\d{2})?(?:\\s*[ap]\\.?m\\.?)?)';
+const RANGE_SEPARATOR = '\\s*(?:-|–|—|\\bto\\b|\\buntil\\b|\\btill\\b)\\s*';
+
+// Words that only glue the pieces together and shouldn't end up in the title
+const CONNECTORS = /^(?:on|at|from|for|by|@|-|–|,)\s+|\s+(?:on|at|from|for|by|@|-|–|,)$/i;
+const EMAIL_PREFIX = /^\s*(?:(?:re|fwd?|aw|wg)\s*:\s*)+/i;
+const EMAIL_LABEL = /^\s*(subject|title|what|when|date|time|where|location)\s*:\s*(.*)$/i;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toDateKey = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(year, month - 1, day);
+  // Rejects impossible days like Feb 30 instead of rolling them into March
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Without a year, the next time that day comes round
+const nextDateKey = (month: number, day: number, year: string | undefined, reference: string) => {
+  const referenceYear = parseInt(reference.slice(0, 4), 10);
+  if (year) return toDateKey(parseInt(year, 10), month, day);
+  const thisYear = toDateKey(referenceYear, month, day);
+  return thisYear && thisYear < reference ? toDateKey(referenceYear + 1, month, day) : thisYear;
+};
+
+const parseClock = (text: string): Clock | undefined => {
+  const value = text.toLowerCase().replace(/\./g, '').trim();
+  if (value === 'noon') return { hour: 12, minute: 0, meridiem: 'p' };
+  if (value === 'midnight') return { hour: 0, minute: 0, meridiem: 'a' };
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?m?$/);
+  if (!match) return undefined;
+  const hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  if (hour > 23 || minute > 59 || (match[3] && (hour < 1 || hour > 12))) return undefined;
+  return { hour, minute, meridiem: match[3] as Clock['meridiem'] };
+};
+
+const isExplicit = (clock: Clock, text: string) => !!clock.meridiem || text.includes(':');
+
+// Minutes since midnight; a bare 1-7 is taken as afternoon ("Dinner at 7")
+const minutesOf = (clock: Clock): number => {
+  let hour = clock.hour;
+  if (clock.meridiem) {
+    hour = (hour % 12) + (clock.meridiem === 'p' ? 12 : 0);
+  } else if (hour >= 1 && hour <= 7) {
+    hour += 12;
+  }
+  return hour * 60 + clock.minute;
+};
+
+const formatMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const durationOf = (amount: string, unit: string): number => {
+  const value = /^an?$/i.test(amount) ? 1 : /^half an?$/i.test(amount) ? 0.5 : parseFloat(amount);
+  return Math.round(/^h/i.test(unit) ? value * 60 : value);
+};
+
+/**
+ * Pulls dates, times, durations and a location out of one piece of text.
+ * Each match is blanked out so later patterns (and the title) don't see it again.
+ */
+const extract = (text: string, reference: string): Extracted => {
+  const result: Extracted = { rest: ` ${text} `, allDay: false };
+  const take = (pattern: RegExp, handle: (...groups: string[]) => boolean) => {
+    result.rest = result.rest.replace(pattern, (match, ...groups) => (handle(...groups) ? ' ' : match));
+  };
+
+  take(/\bfor\s+(an?|half an?|\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi, (amount, unit) => {
+    const minutes = durationOf(amount, unit);
+    if (result.durationMinutes !== undefined || !(minutes > 0)) return false;
+    result.durationMinutes = minutes;
+    return true;
+  });
+
+  take(/\ball[\s-]day\b/gi, () => {
+    result.allDay = true;
+    return true;
+  });
+
+  // ---------- Dates ----------
+  const setDate = (date: string | undefined) => {
+    if (!date || result.date) return false;
+    result.date = date;
+    return true;
+  };
+
+  take(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, (year, month, day) =>
+    setDate(toDateKey(+year, +month, +day)));
+
+  take(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/g, (month, day, year) =>
+    setDate(nextDateKey(+month, +day, year && (year.length === 2 ? `20${year}` : year), reference)));
+
+  take(new RegExp(`\\b(?:on\\s+)?(?:(?:${WEEKDAY}),?\\s+)?(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+    (month, day, year) => setDate(nextDateKey(MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1, +day, year, reference)));
+
+  take(new RegExp(`\\b(?:on\\s+)?(?:(?:${WEEKDAY}),?\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})\\b\\.?(?:,?\\s+(\\d{4}))?`, 'gi'),
+    (day, month, year) => setDate(nextDateKey(MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1, +day, year, reference)));
+
+  take(/\b(?:on\s+)?(day after tomorrow|today|tonight|tomorrow|tmrw|tmr)\b/gi, word => {
+    const lower = word.toLowerCase();
+    const offset = lower === 'day after tomorrow' ? 2 : lower === 'today' || lower === 'tonight' ? 0 : 1;
+    return setDate(addDays(reference, offset));
+  });
+
+  take(/\bin\s+(\d+)\s+(days?|weeks?)\b/gi, (amount, unit) =>
+    setDate(addDays(reference, parseInt(amount, 10) * (/^w/i.test(unit) ? 7 : 1))));
+
+  // "Fri" is the coming Friday (today if it is one); "next Fri" is the one after that
+  take(new RegExp(`\\b(?:on\\s+)?(?:(next|this)\\s+)?(${WEEKDAY})\\b\\.?`, 'gi'), (modifier, weekday) => {
+    const target = WEEKDAYS.indexOf(weekday.slice(0, 3).toLowerCase());
+    const delta = (target - parseDateKey(reference).getDay() + 7) % 7;
+    return setDate(addDays(reference, delta + (modifier?.toLowerCase() === 'next' ? 7 : 0)));
+  });
+
+  // ---------- Times ----------
+  take(new RegExp(`(?:\\b(?:from|at)\\s+|@\\s*)?\\b(${CLOCK})${RANGE_SEPARATOR}(${CLOCK})(?![\\d/])`, 'gi'),
+    (startText, endText) => {
+      const start = parseClock(startText);
+      const end = parseClock(endText);
+      // "Room 3-4" isn't a time; "3-4pm" and "9:30 - 11" are
+      if (!start || !end || result.start || !(isExplicit(start, startText) || isExplicit(end, endText))) {
+        return false;
+      }
+      if (!start.meridiem && end.meridiem) {
+        start.meridiem = end.meridiem;
+        // "11-1pm" starts in the morning
+        if (start.hour <= 12 && minutesOf(start) > minutesOf(end)) start.meridiem = 'a';
+      } else if (start.meridiem && !end.meridiem && end.hour <= 12) {
+        end.meridiem = start.meridiem;
+        if (minutesOf(end) <= minutesOf(start)) end.meridiem = 'p';
+      }
+      result.start = start;
+      result.end = end;
+      return true;
+    });
+
+  take(new RegExp(`(?:\\bat\\s+|@\\s*)?\\b(${CLOCK})(?![\\d/])`, 'gi'), startText => {
+    const start = parseClock(startText);
+    if (!start || result.start || !isExplicit(start, startText)) return false;
+    result.start = start;
+    return true;
+  });
+
+  // A bare hour only counts when it's clearly a time: "at 3"
+  take(/(?:\bat|@)\s*(\d{1,2})\b(?![\d/:]|\s*(?:st|nd|rd|th)\b)/gi, hour => {
+    const start = parseClock(hour);
+    if (!start || result.start) return false;
+    result.start = start;
+    return true;
+  });
+
+  // ---------- Location ----------
+  const location = result.rest.match(/(?:\bat\s+|@\s*)(.+)$/i);
+  if (location) {
+    result.location = location[1].replace(/\s+/g, ' ').trim().replace(/[\s,.-]+$/, '') || undefined;
+    result.rest = result.rest.slice(0, location.index);
+  }
+
+  return result;
+};
+
+const cleanTitle = (text: string): string => {
+  let title = text.replace(/\s+/g, ' ').trim();
+  let previous;
+  do {
+    previous = title;
+    title = title.replace(CONNECTORS, '').trim();
+  } while (title !== previous);
+  return title;
+};
+
+// Emails with Subject:/When:/Where: lines get each field read on its own
+const splitEmail = (text: string): { title: string; when: string; where?: string } | null => {
+  const fields: { [label: string]: string } = {};
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(EMAIL_LABEL);
+    if (match && match[2].trim()) {
+      const label = match[1].toLowerCase();
+      const key = ['subject', 'title', 'what'].includes(label) ? 'title'
+        : ['where', 'location'].includes(label) ? 'where'
+        : 'when';
+      fields[key] = fields[key] ? `${fields[key]} ${match[2].trim()}` : match[2].trim();
+    }
+  });
+  if (!fields.title && !fields.when) return null;
+  return { title: fields.title || '', when: fields.when || '', where: fields.where };
+};
+
+/**
+ * Reads a quick-add phrase or a pasted email.
+ * Without a date the event goes on the reference day; without a time it's all day.
+ * Returns null when there's nothing left to call the event.
+ */
+export const parseQuickAdd = (text: string, reference: string, timeZone: string): QuickAddResult | null => {
+  const email = splitEmail(text);
+  let parts: Extracted;
+  let title: string;
+
+  if (email) {
+    const subject = extract(email.title.replace(EMAIL_PREFIX, ''), reference);
+    const when = extract(email.when, reference);
+    // The When line wins; anything unparsed in it (zone names and so on) is dropped
+    parts = {
+      rest: subject.rest,
+      date: when.date ?? subject.date,
+      start: when.start ?? subject.start,
+      end: when.start ? when.end : subject.end,
+      durationMinutes: when.durationMinutes ?? subject.durationMinutes,
+      allDay: when.allDay || subject.allDay,
+      location: email.where?.trim() || subject.location,
+    };
+    title = cleanTitle(subject.rest);
+  } else {
+    parts = extract(text.replace(EMAIL_PREFIX, '').replace(/\s+/g, ' '), reference);
+    title = cleanTitle(parts.rest);
+  }
+
+  if (!title) return null;
+
+  const startDate = parts.date ?? reference;
+  const base = { title, location: parts.location };
+
+  if (parts.allDay || !parts.start) {
+    const days = parts.durationMinutes ? Math.max(Math.ceil(parts.durationMinutes / 1440), 1) : 1;
+    const endDate = addDays(startDate, days - 1);
+    return {
+      ...base,
+      all_day: true,
+      startDate,
+      endDate,
+      start_time: `${startDate}T00:00:00`,
+      end_time: `${endDate}T23:59:59`,
+    };
+  }
+
+  const startMinutes = minutesOf(parts.start);
+  let endMinutes = parts.end
+    ? minutesOf(parts.end)
+    : startMinutes + (parts.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+  // Ending at or before the start means it runs past midnight
+  if (endMinutes <= startMinutes) endMinutes += 1440;
+
+  const endDate = addDays(startDate, Math.floor(endMinutes / 1440));
+  const startTime = formatMinutes(startMinutes);
+  const endTime = formatMinutes(endMinutes % 1440);
+
+  return {
+    ...base,
+    all_day: false,
+    startDate,
+    endDate,
+    startTime,
+    endTime,
+    start_time: joinDateTime(startDate, startTime, timeZone),
+    end_time: joinDateTime(endDate, endTime, timeZone),
+  };
+};
@@ -0,0 +1,463 @@
+/**
+ * Recurrence engine - RFC 5545 RRULE parsing and client-side expansion
+ * Supports FREQ (daily/weekly/monthly/yearly), INTERVAL, BYDAY (with ordinals),
+ * BYMONTHDAY, BYMONTH, COUNT, UNTIL and exception dates.
+ * Series repeat on the wall clock of a time zone (the user's, see useTimeZone), so a 9 AM
+ * meeting stays at 9 AM across daylight-saving changes whatever zone the device is in.
+ */
+import {
+  Event,
+  EventOccurrence,
+  RecurrenceDay,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+} from '../types';
+import { logger } from './logger';
+import { getZonedTime, resolveTimeZone, zonedTimeToUtc } from './dateTime';
+
+// Same order as Date.getDay() (0 = Sunday)
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// Hard stop so a rule that never matches (e.g. BYMONTHDAY=31 with BYMONTH=2) can't spin forever
+const MAX_PERIODS = 10000;
+
+// ---------- Parsing & formatting ----------
+
+const parseList = (value: string): number[] =>
+  value.split(',').map(part => parseInt(part, 10)).filter(n => !isNaN(n));
+
+const parseByDay = (value: string): RecurrenceDay[] =>
+  value.split(',').map(part => {
+    const match = part.trim().toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) {
+      throw new Error(`Invalid BYDAY value: ${part}`);
+    }
+    return match[1]
+      ? { day: match[2] as Weekday, ordinal: parseInt(match[1], 10) }
+      : { day: match[2] as Weekday };
+  });
+
+// RRULE date values: 20250131, 20250131T090000 (floating) or 20250131T090000Z (UTC).
+// A bare date means the end of that day, since UNTIL is inclusive. Floating values are read
+// in the given zone (the device's when omitted).
+export const parseRRuleDate = (value: string, timeZone?: string): Date => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  const parts = [+y, +mo - 1, +d, +h, +mi, +s] as const;
+  if (utc) return new Date(Date.UTC(...parts));
+  if (timeZone) {
+    return zonedTimeToUtc({ year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s }, timeZone);
+  }
+  return new Date(...parts);
+};
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+export const formatRRuleDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+export const parseRRule = (text: string, timeZone?: string): RecurrenceRule => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  body.split(';').filter(Boolean).forEach(pair => {
+    const [rawKey, value = ''] = pair.split('=');
+    switch (rawKey.trim().toUpperCase()) {
+      case 'FREQ': {
+        const frequency = value.toLowerCase() as RecurrenceFrequency;
+        if (!FREQUENCIES.includes(frequency)) {
+          throw new Error(`Unsupported FREQ: ${value}`);
+        }
+        rule.frequency = frequency;
+        break;
+      }
+      case 'INTERVAL':
+        rule.interval = Math.max(1, parseInt(value, 10) || 1);
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(value);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseList(value);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseList(value);
+        break;
+      case 'COUNT':
+        rule.count = parseInt(value, 10);
+        break;
+      case 'UNTIL':
+        rule.until = parseRRuleDate(value, timeZone).toISOString();
+        break;
+      default:
+        // WKST and other parts we don't expand on are ignored
+        break;
+    }
+  });
+
+  if (!rule.frequency) {
+    throw new Error('RRULE is missing FREQ');
+  }
+  return rule as RecurrenceRule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.day}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatRRuleDate(new Date(rule.until))}`);
+  return parts.join(';');
+};
+
+// ---------- Expansion ----------
+
+// The calendar arithmetic below runs on wall-clock times held as Dates whose UTC fields
+// are the wall clock in the series' zone; only whole occurrences are turned back into instants.
+const toWallClock = (date: Date, timeZone: string): Date => {
+  const time = getZonedTime(date, timeZone);
+  return new Date(Date.UTC(
+    time.year, time.month - 1, time.day, time.hour, time.minute, time.second, date.getUTCMilliseconds(),
+  ));
+};
+
+const fromWallClock = (wallClock: Date, timeZone: string): Date => {
+  const instant = zonedTimeToUtc({
+    year: wallClock.getUTCFullYear(),
+    month: wallClock.getUTCMonth() + 1,
+    day: wallClock.getUTCDate(),
+    hour: wallClock.getUTCHours(),
+    minute: wallClock.getUTCMinutes(),
+    second: wallClock.getUTCSeconds(),
+  }, timeZone);
+  return new Date(instant.getTime() + wallClock.getUTCMilliseconds());
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Days of a month matching a BYDAY entry: "2TU" -> [second Tuesday], "TU" -> every Tuesday
+const monthDaysForWeekday = (year: number, month: number, entry: RecurrenceDay): number[] => {
+  const target = WEEKDAYS.indexOf(entry.day);
+  const total = daysInMonth(year, month);
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const matches: number[] = [];
+  for (let day = 1 + ((target - firstWeekday + 7) % 7); day <= total; day += 7) {
+    matches.push(day);
+  }
+  if (entry.ordinal === undefined) return matches;
+  const index = entry.ordinal > 0 ? entry.ordinal - 1 : matches.length + entry.ordinal;
+  return matches[index] !== undefined ? [matches[index]] : [];
+};
+
+const resolveMonthDays = (year: number, month: number, values: number[]): number[] => {
+  const total = daysInMonth(year, month);
+  return values
+    .map(value => (value < 0 ? total + value + 1 : value))
+    .filter(day => day >= 1 && day <= total);
+};
+
+// Candidate days (1-based) within one month for MONTHLY/YEARLY rules
+const candidateDaysInMonth = (
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  dtstart: Date,
+): number[] => {
+  let days: number[];
+  if (rule.byDay?.length) {
+    days = rule.byDay.flatMap(entry => monthDaysForWeekday(year, month, entry));
+    if (rule.byMonthDay?.length) {
+      const allowed = resolveMonthDays(year, month, rule.byMonthDay);
+      days = days.filter(day => allowed.includes(day));
+    }
+  } else if (rule.byMonthDay?.length) {
+    days = resolveMonthDays(year, month, rule.byMonthDay);
+  } else {
+    // Default to DTSTART's day; months without it (e.g. the 31st) are skipped per RFC 5545
+    days = dtstart.getUTCDate() <= daysInMonth(year, month) ? [dtstart.getUTCDate()] : [];
+  }
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
+const atStartTime = (dtstart: Date, year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(
+    year,
+    month,
+    day,
+    dtstart.getUTCHours(),
+    dtstart.getUTCMinutes(),
+    dtstart.getUTCSeconds(),
+    dtstart.getUTCMilliseconds(),
+  ));
+
+// All candidate starts (wall clock) for the n-th period of the rule, in ascending order
+const candidatesForPeriod = (rule: RecurrenceRule, dtstart: Date, n: number): Date[] => {
+  const step = n * rule.interval;
+  const year = dtstart.getUTCFullYear();
+  const month = dtstart.getUTCMonth();
+  const date = dtstart.getUTCDate();
+  const weekdays = rule.byDay?.map(d => WEEKDAYS.indexOf(d.day));
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const candidate = atStartTime(dtstart, year, month, date + step);
+      if (weekdays && !weekdays.includes(candidate.getUTCDay())) return [];
+      if (rule.byMonth && !rule.byMonth.includes(candidate.getUTCMonth() + 1)) return [];
+      if (rule.byMonthDay && !resolveMonthDays(
+        candidate.getUTCFullYear(), candidate.getUTCMonth(), rule.byMonthDay,
+      ).includes(candidate.getUTCDate())) return [];
+      return [candidate];
+    }
+    case 'weekly': {
+      // Weeks start on Monday (WKST=MO)
+      const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+      const weekStart = date - mondayOffset + step * 7;
+      const offsets = (weekdays ?? [dtstart.getUTCDay()])
+        .map(weekday => (weekday + 6) % 7)
+        .sort((a, b) => a - b);
+      return Array.from(new Set(offsets))
+        .map(offset => atStartTime(dtstart, year, month, weekStart + offset))
+        .filter(candidate => !rule.byMonth || rule.byMonth.includes(candidate.getUTCMonth() + 1));
+    }
+    case 'monthly': {
+      const first = new Date(Date.UTC(year, month + step, 1));
+      if (rule.byMonth && !rule.byMonth.includes(first.getUTCMonth() + 1)) return [];
+      return candidateDaysInMonth(rule, first.getUTCFullYear(), first.getUTCMonth(), dtstart)
+        .map(day => atStartTime(dtstart, first.getUTCFullYear(), first.getUTCMonth(), day));
+    }
+    case 'yearly': {
+      const targetYear = year + step;
+      const months = rule.byMonth?.length
+        ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1)
+        : [month];
+      return months.flatMap(m =>
+        candidateDaysInMonth(rule, targetYear, m, dtstart)
+          .map(day => atStartTime(dtstart, targetYear, m, day)),
+      );
+    }
+  }
+};
+
+/**
+ * Walks the series from DTSTART and calls `visit` for every occurrence start in order.
+ * COUNT and UNTIL are honoured; return false from `visit` to stop early.
+ */
+const walkOccurrences = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  visit: (start: Date) => boolean,
+  timeZone: string,
+) => {
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+  const wallClockStart = toWallClock(dtstart, timeZone);
+  let emitted = 0;
+
+  for (let n = 0; n < MAX_PERIODS; n++) {
+    for (const wallClock of candidatesForPeriod(rule, wallClockStart, n)) {
+      const candidate = fromWallClock(wallClock, timeZone);
+      if (candidate.getTime() < dtstart.getTime()) continue;
+      if (candidate.getTime() > until) return;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+      emitted++;
+      if (!visit(candidate)) return;
+    }
+  }
+};
+
+/**
+ * Occurrence starts falling in [rangeStart, rangeEnd). Exceptions are ISO instants
+ * of skipped occurrences; they still count towards COUNT as RFC 5545 requires.
+ */
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  exceptions: string[] = [],
+  timeZone = resolveTimeZone(),
+): Date[] => {
+  const skipped = new Set(exceptions.map(value => new Date(value).getTime()));
+  const starts: Date[] = [];
+
+  walkOccurrences(rule, dtstart, start => {
+    if (start.getTime() >= rangeEnd.getTime()) return false;
+    if (start.getTime() >= rangeStart.getTime() && !skipped.has(start.getTime())) {
+      starts.push(start);
+    }
+    return true;
+  }, timeZone);
+
+  return starts;
+};
+
+// Number of occurrences (exceptions included) that start before `before`
+export const countOccurrencesBefore = (
+  rule: RecurrenceRule,
+  dtstart: Date,
+  before: Date,
+  timeZone = resolveTimeZone(),
+): number => {
+  let count = 0;
+  walkOccurrences(rule, dtstart, start => {
+    if (start.getTime() >= before.getTime()) return false;
+    count++;
+    return true;
+  }, timeZone);
+  return count;
+};
+
+// ---------- Event helpers ----------
+
+export const isRecurring = (event: Event): boolean => !!event.recurrence_rule;
+
+export const isOccurrence = (event: Event): event is EventOccurrence =>
+  'series_id' in event && !!(event as EventOccurrence).series_id;
+
+export const occurrenceId = (seriesId: string, start: Date): string =>
+  `${seriesId}::${start.toISOString()}`;
+
+/**
+ * Replaces every recurring event with its occurrences overlapping [rangeStart, rangeEnd).
+ * Non-recurring events pass through untouched so callers can keep bucketing them as before.
+ */
+export const expandEvents = (
+  events: Event[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone = resolveTimeZone(),
+): Event[] => {
+  const expanded: Event[] = [];
+
+  events.forEach(event => {
+    if (!event.recurrence_rule) {
+      expanded.push(event);
+      return;
+    }
+
+    try {
+      const rule = parseRRule(event.recurrence_rule, timeZone);
+      const dtstart = new Date(event.start_time);
+      const duration = new Date(event.end_time).getTime() - dtstart.getTime();
+      // Widen the window so an occurrence that started before rangeStart but is still running shows up
+      const windowStart = new Date(rangeStart.getTime() - Math.max(duration, 0));
+
+      expandRecurrence(rule, dtstart, windowStart, rangeEnd, event.recurrence_exceptions, timeZone)
+        .forEach(start => {
+          const occurrence: EventOccurrence = {
+            ...event,
+            id: occurrenceId(event.id, start),
+            start_time: start.toISOString(),
+            end_time: new Date(start.getTime() + duration).toISOString(),
+            series_id: event.id,
+            occurrence_start: start.toISOString(),
+          };
+          expanded.push(occurrence);
+        });
+    } catch (error) {
+      logger.warn(`Could not expand recurrence for "${event.title}":`, error);
+      expanded.push(event);
+    }
+  });
+
+  return expanded;
+};
+
+// Ends the series just before `before` (used for "this and following" edits)
+export const truncateRule = (ruleText: string, before: Date): string => {
+  const rule = parseRRule(ruleText);
+  return formatRRule({
+    ...rule,
+    count: undefined,
+    until: new Date(before.getTime() - 1000).toISOString(),
+  });
+};
+
+// Rule parts the event form has controls for
+const FORM_RULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'];
+
+// True when the event form can show the rule exactly (frequency, interval, plain weekly days and an end);
+// anything richer - "2nd Tuesday", BYMONTHDAY, BYSETPOS ... - would be lost if the form rebuilt it
+export const isFormEditableRule = (ruleText: string): boolean => {
+  try {
+    const parts = ruleText.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)
+      .map(pair => pair.split('=')[0].trim().toUpperCase());
+    if (parts.some(part => !FORM_RULE_PARTS.includes(part))) return false;
+    const rule = parseRRule(ruleText);
+    return !rule.byDay?.length ||
+      (rule.frequency === 'weekly' && rule.byDay.every(entry => entry.ordinal === undefined));
+  } catch {
+    return false;
+  }
+};
+
+// ---------- Display ----------
+
+const ordinalLabel = (n: number): string => {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return n < 0 ? `${Math.abs(n)}${suffix} to last` : `${n}${suffix}`;
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['Daily', 'days'],
+  weekly: ['Weekly', 'weeks'],
+  monthly: ['Monthly', 'months'],
+  yearly: ['Yearly', 'years'],
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+export const describeRecurrence = (ruleText: string): string => {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(ruleText);
+  } catch {
+    return 'Custom repeat';
+  }
+
+  const [single, plural] = UNIT_LABELS[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(entry =>
+      entry.ordinal !== undefined
+        ? `the ${ordinalLabel(entry.ordinal)} ${WEEKDAY_LABELS[entry.day]}`
+        : WEEKDAY_LABELS[entry.day],
+    );
+    text += ` on ${days.join(', ')}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.join(', ')}`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  } else if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })}`;
+  }
+
+  return text;
+};
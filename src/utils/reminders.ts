@@ -0,0 +1,71 @@
+/**
+ * Reminder helpers - works out when each event's reminders should go off
+ * Offsets are minutes before the event starts; recurring events get reminders per occurrence.
+ */
+import { Event, ReminderSettings, ScheduledReminder } from '../types';
+import { expandEvents } from './recurrence';
+import { formatDate, formatTime, resolveTimeZone } from './dateTime';
+
+// Choices offered in the event form
+export const REMINDER_PRESETS = [0, 5, 10, 15, 30, 60, 120, 1440, 2880, 10080];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  defaultMinutes: [10],
+};
+
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes === 0) return 'At start';
+  if (minutes % 10080 === 0) return minutes === 10080 ? '1 week before' : `${minutes / 10080} weeks before`;
+  if (minutes % 1440 === 0) return minutes === 1440 ? '1 day before' : `${minutes / 1440} days before`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hour before' : `${minutes / 60} hours before`;
+  return `${minutes} min before`;
+};
+
+const describeStart = (start: Date, minutes: number, timeZone: string): string => {
+  if (minutes === 0) return 'Starting now';
+  const time = formatTime(start, timeZone);
+  return minutes < 1440 ? `Starts at ${time}` : `Starts ${formatDate(start, timeZone)} at ${time}`;
+};
+
+/**
+ * Every reminder that fires after `now` and no later than `now + horizonMs`, soonest first.
+ * Cancelled and completed events don't remind.
+ */
+export const computeReminders = (
+  events: Event[],
+  now: number,
+  horizonMs: number,
+  timeZone = resolveTimeZone()
+): ScheduledReminder[] => {
+  const withReminders = events.filter(event =>
+    (event.reminders?.length ?? 0) > 0 && event.status !== 'cancelled' && !event.completed
+  );
+  if (withReminders.length === 0) return [];
+
+  // Events starting up to the longest offset past the horizon can still fire inside it
+  const longestOffset = Math.max(...withReminders.flatMap(event => event.reminders!));
+  const windowStart = new Date(now);
+  const windowEnd = new Date(now + horizonMs + longestOffset * 60000);
+
+  const reminders: ScheduledReminder[] = [];
+  expandEvents(withReminders, windowStart, windowEnd, timeZone).forEach(event => {
+    const start = new Date(event.start_time);
+    new Set(event.reminders).forEach(minutes => {
+      const fireAt = start.getTime() - minutes * 60000;
+      if (fireAt <= now || fireAt > now + horizonMs) return;
+      reminders.push({
+        key: `${event.id}@${minutes}`,
+        eventId: event.id,
+        title: event.title,
+        body: event.location
+          ? `${describeStart(start, minutes, timeZone)} · ${event.location}`
+          : describeStart(start, minutes, timeZone),
+        fireAt: new Date(fireAt).toISOString(),
+        minutesBefore: minutes,
+      });
+    });
+  });
+
+  return reminders.sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+};
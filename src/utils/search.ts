@@ -0,0 +1,110 @@
+/**
+ * Search helpers - matching, filtering and highlighting for the search screen
+ * A record matches when every word of the query appears in at least one of its text fields.
+ */
+import { Calendar, Event, Goal, SearchFilters } from '../types';
+import { expandEvents } from './recurrence';
+import { addDays, eventDayRange, parseDateKey } from './dateTime';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const queryTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const matchesTerms = (fields: (string | undefined)[], terms: string[]): boolean => {
+  const haystacks = fields.filter(Boolean).map(field => field!.toLowerCase());
+  return terms.every(term => haystacks.some(field => field.includes(term)));
+};
+
+// Inclusive day ranges; an open end runs forever
+const overlapsRange = (start: string, end: string | undefined, filters: SearchFilters): boolean =>
+  (!filters.startDate || !end || end >= filters.startDate) &&
+  (!filters.endDate || start <= filters.endDate);
+
+/**
+ * Events matching the query and filters, earliest first.
+ * With a date range, repeating events are expanded so each matching occurrence is listed;
+ * without one a series shows up once.
+ */
+export const searchEvents = (
+  events: Event[],
+  query: string,
+  filters: SearchFilters,
+  timeZone: string,
+): Event[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const candidates = filters.startDate && filters.endDate
+    ? expandEvents(
+        events,
+        parseDateKey(filters.startDate, timeZone),
+        parseDateKey(addDays(filters.endDate, 1), timeZone),
+        timeZone
+      )
+    : events;
+
+  return candidates
+    .filter(event => {
+      if (filters.calendarId && event.calendar?.id !== filters.calendarId) return false;
+      if (filters.eventStatus && event.status !== filters.eventStatus) return false;
+      const { start, end } = eventDayRange(event, timeZone);
+      if (!overlapsRange(start, end, filters)) return false;
+      return matchesTerms([event.title, event.description, event.location], terms);
+    })
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+};
+
+export const searchGoals = (goals: Goal[], query: string, filters: SearchFilters): Goal[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  return goals.filter(goal => {
+    if (filters.goalStatus && goal.status !== filters.goalStatus) return false;
+    if (filters.priority && goal.priority !== filters.priority) return false;
+    if (!overlapsRange(goal.start_date.slice(0, 10), goal.end_date?.slice(0, 10), filters)) return false;
+    return matchesTerms([goal.title, goal.description, goal.unit], terms);
+  });
+};
+
+export const searchCalendars = (calendars: Calendar[], query: string): Calendar[] => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  return calendars.filter(calendar => matchesTerms([calendar.name, calendar.description], terms));
+};
+
+// Server results win over cached copies of the same event
+export const mergeEvents = (local: Event[], remote: Event[]): Event[] => {
+  const byId = new Map<string, Event>();
+  local.forEach(event => byId.set(event.id, event));
+  remote.forEach(event => byId.set(event.id, event));
+  return [...byId.values()];
+};
+
+// Splits text into plain and matching runs so the matches can be drawn in bold
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const terms = queryTerms(query);
+  if (!text || terms.length === 0) return [{ text: text || '', match: false }];
+
+  const lower = text.toLowerCase();
+  const marked = new Array(text.length).fill(false);
+  terms.forEach(term => {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + 1)) {
+      marked.fill(true, index, index + term.length);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[index]) {
+      last.text += text[index];
+    } else {
+      segments.push({ text: text[index], match: marked[index] });
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,78 @@
+/**
+ * Timeline layout - positions timed events on an hour grid
+ * Overlapping events are packed into side-by-side columns, Google Calendar style.
+ */
+import { Event } from '../types';
+import { addDays, eventDayRange, parseDateKey, resolveTimeZone } from './dateTime';
+
+export interface TimelineBlock {
+  event: Event;
+  startMinutes: number;  // minutes from the start of the day (clamped to the day)
+  endMinutes: number;
+  column: number;
+  columns: number;  // columns in this block's overlap group
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Short events still need room for their title
+export const MIN_BLOCK_MINUTES = 20;
+
+// True when the event covers any part of the given day in the zone
+export const overlapsDay = (event: Event, dateKey: string, timeZone = resolveTimeZone()): boolean => {
+  if (event.all_day) {
+    const { start, end } = eventDayRange(event, timeZone);
+    return start <= dateKey && end >= dateKey;
+  }
+  const dayStart = parseDateKey(dateKey, timeZone).getTime();
+  const dayEnd = parseDateKey(addDays(dateKey, 1), timeZone).getTime();
+  const start = new Date(event.start_time).getTime();
+  const end = Math.max(new Date(event.end_time).getTime(), start + 1);
+  return start < dayEnd && end > dayStart;
+};
+
+export const layoutDayEvents = (events: Event[], dateKey: string, timeZone = resolveTimeZone()): TimelineBlock[] => {
+  const dayStart = parseDateKey(dateKey, timeZone).getTime();
+
+  const items = events
+    .filter(event => !event.all_day && overlapsDay(event, dateKey, timeZone))
+    .map(event => {
+      const start = (new Date(event.start_time).getTime() - dayStart) / 60000;
+      const end = (new Date(event.end_time).getTime() - dayStart) / 60000;
+      const startMinutes = Math.max(0, start);
+      const endMinutes = Math.min(MINUTES_PER_DAY, Math.max(end, startMinutes + MIN_BLOCK_MINUTES));
+      return { event, startMinutes, endMinutes, column: 0, columns: 1 };
+    })
+    // Earlier first; for equal starts the longer event takes the left column
+    .sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+  const blocks: TimelineBlock[] = [];
+  let group: TimelineBlock[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(block => {
+      block.columns = columnEnds.length;
+    });
+    blocks.push(...group);
+    group = [];
+    columnEnds = [];
+  };
+
+  items.forEach(item => {
+    // A gap in time means nothing later can overlap the current group
+    if (item.startMinutes >= groupEnd) {
+      closeGroup();
+    }
+
+    const freeColumn = columnEnds.findIndex(end => end <= item.startMinutes);
+    item.column = freeColumn === -1 ? columnEnds.length : freeColumn;
+    columnEnds[item.column] = item.endMinutes;
+    groupEnd = Math.max(groupEnd, item.endMinutes);
+    group.push(item);
+  });
+  closeGroup();
+
+  return blocks;
+};
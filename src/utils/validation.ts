@@ -0,0 +1,115 @@
+/**
+ * Form validation - checks run before a request is sent, plus mapping of the
+ * server's field errors (DRF style: { field: ['message', ...] }) back onto form fields.
+ */
+import { RegisterRequest } from '../types';
+import { isValidTimeZone } from './dateTime';
+
+export type FieldErrors = { [field: string]: string };
+
+// Thrown by the API service when the server rejects a request's fields
+export class ApiValidationError extends Error {
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors) {
+    super(message);
+    this.name = 'ApiValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Keys the server may use for messages that aren't about one field
+const GENERAL_KEYS = ['non_field_errors', 'detail', 'error'];
+
+/**
+ * First message per field from an error response body. `aliases` renames server fields to form fields
+ * (e.g. password2 -> password_confirm); general messages end up under `general`.
+ */
+export const parseFieldErrors = (data: any, aliases: { [serverField: string]: string } = {}): FieldErrors => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+
+  const errors: FieldErrors = {};
+  Object.entries(data).forEach(([key, value]) => {
+    const message = Array.isArray(value) ? value[0] : value;
+    if (typeof message !== 'string' || !message) return;
+    const field = GENERAL_KEYS.includes(key) ? 'general' : aliases[key] || key;
+    if (!errors[field]) {
+      errors[field] = message;
+    }
+  });
+  return errors;
+};
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[\w.@+-]+$/;  // what Django accepts for usernames
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: 'Too short' | 'Weak' | 'Fair' | 'Good' | 'Strong';
+}
+
+// Rough guide for the strength meter - the server has the final say
+export const passwordStrength = (password: string): PasswordStrength => {
+  if (password.length < MIN_PASSWORD_LENGTH) return { score: 0, label: 'Too short' };
+
+  let variety = 0;
+  if (/[a-z]/.test(password)) variety++;
+  if (/[A-Z]/.test(password)) variety++;
+  if (/\d/.test(password)) variety++;
+  if (/[^A-Za-z0-9]/.test(password)) variety++;
+
+  let score = Math.min(variety, 3) + (password.length >= 12 ? 1 : 0);
+  if (/^(.)\1+$/.test(password) || /^\d+$/.test(password)) score = 1;
+
+  const labels: PasswordStrength['label'][] = ['Too short', 'Weak', 'Fair', 'Good', 'Strong'];
+  const clamped = Math.max(1, Math.min(score, 4)) as PasswordStrength['score'];
+  return { score: clamped, label: labels[clamped] };
+};
+
+export const validateRegistration = (form: RegisterRequest): FieldErrors => {
+  const errors: FieldErrors = {};
+  const email = form.email.trim();
+  const username = form.username.trim();
+
+  if (!email) {
+    errors.email = 'Please enter your email';
+  } else if (!EMAIL_PATTERN.test(email)) {
+    errors.email = 'Please enter a valid email address';
+  }
+
+  if (!username) {
+    errors.username = 'Please choose a username';
+  } else if (username.length < 3) {
+    errors.username = 'Usernames need at least 3 characters';
+  } else if (!USERNAME_PATTERN.test(username)) {
+    errors.username = 'Use only letters, numbers and . @ + - _';
+  }
+
+  if (!form.password) {
+    errors.password = 'Please choose a password';
+  } else if (form.password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`;
+  } else if (/^\d+$/.test(form.password)) {
+    errors.password = 'Passwords can\'t be only numbers';
+  } else if (passwordStrength(form.password).score < 2) {
+    errors.password = 'Mix in upper and lower case letters, numbers or symbols';
+  } else if (
+    form.password.toLowerCase() === username.toLowerCase() ||
+    form.password.toLowerCase() === email.toLowerCase()
+  ) {
+    errors.password = 'Passwords can\'t match your username or email';
+  }
+
+  if (!form.password_confirm) {
+    errors.password_confirm = 'Please confirm your password';
+  } else if (form.password_confirm !== form.password) {
+    errors.password_confirm = 'Passwords don\'t match';
+  }
+
+  if (!isValidTimeZone(form.timezone.trim())) {
+    errors.timezone = 'Please enter a time zone such as Europe/Berlin';
+  }
+
+  return errors;
+};